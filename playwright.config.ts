@@ -1,4 +1,28 @@
 import { defineConfig, devices } from '@playwright/test';
+import { CONSENT_KEY, CONSENT_VERSION } from './src/ts/consent';
+import { MOCK_API_PORT, MOCK_FORMS_ENDPOINT } from './tools/mock-api/server';
+
+const baseURL = process.env.BASE_URL || 'http://localhost:8000';
+
+/**
+ * Browsers start with every consent category accepted, so the banner does
+ * not cover the page and attribution is collected. tests/consent.spec.ts
+ * starts without a choice.
+ */
+const acceptedConsent = {
+  cookies: [],
+  origins: [
+    {
+      origin: new URL(baseURL).origin,
+      localStorage: [
+        {
+          name: CONSENT_KEY,
+          value: JSON.stringify({ version: CONSENT_VERSION, essential: true, analytics: true, marketing: true, updatedAt: '2025-01-01T00:00:00.000Z' }),
+        },
+      ],
+    },
+  ],
+};
 
 /**
  * Playwright configuration for GadgetCloud static website E2E tests
@@ -9,46 +33,94 @@ export default defineConfig({
   forbidOnly: !!process.env.CI,
   retries: process.env.CI ? 2 : 0,
   workers: process.env.CI ? 1 : undefined,
-  reporter: 'html',
+  /* tests/performance-reporter.ts writes performance-report/<build id>.json */
+  reporter: [['html'], ['./tests/performance-reporter.ts']],
+
+  /* Screenshot tests only run when asked for (npm run test:visual) */
+  grepInvert: process.env.VISUAL ? undefined : /@visual/,
+
+  /* One set of visual baselines per project, see tests/visual.spec.ts */
+  snapshotPathTemplate: '{testDir}/__screenshots__/{projectName}/{testFilePath}/{arg}{ext}',
+  expect: {
+    toHaveScreenshot: {
+      animations: 'disabled',
+      caret: 'hide',
+      scale: 'css',
+      maxDiffPixelRatio: 0.01,
+    },
+  },
 
   use: {
-    baseURL: process.env.BASE_URL || 'http://localhost:8000',
+    baseURL,
+    storageState: acceptedConsent,
     trace: 'on-first-retry',
     screenshot: 'only-on-failure',
   },
 
   projects: [
+    /* Browser-free unit tests for the modules in src/ts and tools. */
+    {
+      name: 'unit',
+      testMatch: /unit\/.*\.spec\.ts/,
+    },
+
+    /*
+     * Read-only post-deploy checks (tests tagged @smoke) on one browser, for
+     * BASE_URL=https://... npm run test:smoke. Nothing is submitted. Left
+     * out of a full run, whose chromium project runs the same tests.
+     */
+    {
+      name: 'smoke',
+      testIgnore: /unit\//,
+      grep: /@smoke/,
+      grepInvert: process.env.SMOKE ? undefined : /./,
+      use: { ...devices['Desktop Chrome'] },
+    },
+
     {
       name: 'chromium',
+      testIgnore: /unit\//,
       use: { ...devices['Desktop Chrome'] },
     },
 
     {
       name: 'firefox',
+      testIgnore: /unit\//,
       use: { ...devices['Desktop Firefox'] },
     },
 
     {
       name: 'webkit',
+      testIgnore: /unit\//,
       use: { ...devices['Desktop Safari'] },
     },
 
     /* Test against mobile viewports. */
     {
       name: 'Mobile Chrome',
+      testIgnore: /unit\//,
       use: { ...devices['Pixel 5'] },
     },
     {
       name: 'Mobile Safari',
+      testIgnore: /unit\//,
       use: { ...devices['iPhone 12'] },
     },
   ],
 
-  /* Run local dev server before starting tests */
-  webServer: process.env.BASE_URL ? undefined : {
-    command: 'python3 -m http.server 8000 --directory src',
-    url: 'http://localhost:8000',
-    reuseExistingServer: !process.env.CI,
-    timeout: 120000,
-  },
+  /* Run the mock forms API and a local build that posts to it (see tests/forms-api.ts) */
+  webServer: process.env.BASE_URL ? undefined : [
+    {
+      command: `npm run mock-api -- --port ${MOCK_API_PORT}`,
+      url: `http://localhost:${MOCK_API_PORT}/__mock/health`,
+      reuseExistingServer: !process.env.CI,
+      timeout: 30000,
+    },
+    {
+      command: `npm run build -- --env stg --forms-endpoint ${MOCK_FORMS_ENDPOINT} && python3 -m http.server 8000 --directory dist`,
+      url: 'http://localhost:8000',
+      reuseExistingServer: !process.env.CI,
+      timeout: 120000,
+    },
+  ],
 });
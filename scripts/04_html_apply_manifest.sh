@@ -1,7 +1,8 @@
 #!/bin/bash
 # HTML Manifest Synchronization Script
-# Applies manifest.yaml configuration and version/build info to HTML files
-# Usage: ./scripts/04_html_apply_manifest.sh [--apply]
+# Checks the built pages in dist/ against manifest.yaml and dist/version.json.
+# Read-only: npm run build stamps the version and build info and records it in version.json.
+# Usage: ./scripts/04_html_apply_manifest.sh
 
 set -e
 
@@ -22,28 +23,27 @@ section() { echo -e "\n${CYAN}▶ $1${NC}\n"; }
 SCRIPT_DIR="$(cd "$(dirname "$0")" && pwd)"
 ROOT_DIR="$(dirname "$SCRIPT_DIR")"
 MANIFEST_FILE="$ROOT_DIR/manifest.yaml"
-SRC_DIR="$ROOT_DIR/src"
+SITE_DIR="$ROOT_DIR/dist"
+VERSION_FILE="$SITE_DIR/version.json"
+LOCALES_DIR="$ROOT_DIR/content/locales"
+# The blog is written in English only (BLOG_PAGE in tools/lib/blog.ts)
+BLOG_PAGE="blog.html"
 
 CHECKS_PASSED=0
 CHECKS_FAILED=0
-APPLY_CHANGES=false
 
 check_pass() { success "$1"; CHECKS_PASSED=$((CHECKS_PASSED+1)); }
 check_fail() { warn "$1"; CHECKS_FAILED=$((CHECKS_FAILED+1)); }
 
 # Parse arguments
 if [[ "$1" == "--apply" ]]; then
-    APPLY_CHANGES=true
+    error "--apply was removed: npm run build stamps version and build info (see dist/version.json)"
 fi
 
 echo ""
 echo "━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━"
 echo "  HTML Manifest Synchronization"
-if [ "$APPLY_CHANGES" = true ]; then
-    echo "  Mode: Apply Changes"
-else
-    echo "  Mode: Validation Only"
-fi
+echo "  Mode: Validation Only"
 echo "━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━"
 echo ""
 
@@ -53,30 +53,50 @@ section "Checking Prerequisites"
 command -v yq &>/dev/null || error "yq not installed"
 check_pass "yq installed"
 
+command -v jq &>/dev/null || error "jq not installed"
+check_pass "jq installed"
+
 [ -f "$MANIFEST_FILE" ] || error "manifest.yaml not found"
 check_pass "manifest.yaml exists"
 
-[ -d "$SRC_DIR" ] || error "src directory not found"
-check_pass "src directory exists"
+[ -d "$SITE_DIR" ] || error "dist directory not found (run: npm run build -- --env stg)"
+check_pass "dist directory exists"
 
-# Read version and generate build info
+[ -f "$VERSION_FILE" ] || error "dist/version.json not found (run: npm run build -- --env stg)"
+check_pass "version.json exists"
+
+# Validate manifest.yaml and environment configs against their schemas
+section "Validating Configuration Schema"
+
+if (cd "$ROOT_DIR" && npm run --silent validate); then
+    check_pass "manifest.yaml and environment configs match schema"
+else
+    check_fail "Configuration schema validation failed"
+fi
+
+# Read the build's version info, as recorded by npm run build
 section "Reading Version Information"
 
 VERSION=$(yq eval '.version' "$MANIFEST_FILE")
-BUILD_DATE=$(date -u +"%Y-%m-%d %H:%M:%S UTC")
-BUILD_TIMESTAMP=$(date -u +"%Y%m%d%H%M%S")
-GIT_COMMIT=$(git rev-parse --short HEAD 2>/dev/null || echo "")
+BUILD_VERSION=$(jq -r '.version' "$VERSION_FILE")
+BUILD_ID=$(jq -r '.buildId' "$VERSION_FILE")
+GIT_COMMIT=$(jq -r '.commit' "$VERSION_FILE")
 
-info "Version: $VERSION"
-info "Build Date: $BUILD_DATE"
-info "Build ID: $BUILD_TIMESTAMP"
+info "Version: $BUILD_VERSION"
+info "Build ID: $BUILD_ID"
 info "Git Commit: $GIT_COMMIT"
 
-# Create version string for footer
+if [ "$BUILD_VERSION" = "$VERSION" ]; then
+    check_pass "version.json matches manifest.yaml version ($VERSION)"
+else
+    check_fail "version.json is version $BUILD_VERSION, manifest.yaml is $VERSION (rebuild dist/)"
+fi
+
+# Footer version string, as formatVersionString() in tools/lib/build-info.ts writes it
 if [ -n "$GIT_COMMIT" ]; then
-    VERSION_STRING="v${VERSION} | Build ${BUILD_TIMESTAMP} | ${GIT_COMMIT}"
+    VERSION_STRING="v${BUILD_VERSION} | Build ${BUILD_ID} | ${GIT_COMMIT}"
 else
-    VERSION_STRING="v${VERSION} | Build ${BUILD_TIMESTAMP}"
+    VERSION_STRING="v${BUILD_VERSION} | Build ${BUILD_ID}"
 fi
 
 # Read manifest data
@@ -85,7 +105,7 @@ section "Reading Manifest Configuration"
 SITE_TITLE=$(yq eval '.site_title' "$MANIFEST_FILE")
 SITE_HEADER=$(yq eval '.header' "$MANIFEST_FILE")
 SITE_FOOTER=$(yq eval '.footer' "$MANIFEST_FILE")
-SITE_DESCRIPTION=$(yq eval '.site_description' "$MANIFEST_FILE")
+SITE_DESCRIPTION=$(yq eval '.default_description' "$MANIFEST_FILE")
 
 info "Site Title: $SITE_TITLE"
 info "Header: $SITE_HEADER"
@@ -100,10 +120,32 @@ info "Social Links: $SOCIAL_COUNT"
 # Validate HTML files
 section "Validating HTML Files"
 
-HTML_FILES=("index.html" "about_us.html" "products.html" "services.html" "contact_us.html" "error.html")
+# Menu pages from manifest.yaml, their translations for every catalog in
+# content/locales/ but English, the 404 page and the generated blog pages
+mapfile -t MENU_PAGES < <(yq eval '.menu_items[].link' "$MANIFEST_FILE")
+HTML_FILES=("${MENU_PAGES[@]}" "error.html")
+
+for catalog in "$LOCALES_DIR"/*.yaml; do
+    locale=$(basename "$catalog" .yaml)
+    if [ "$locale" = "en" ]; then
+        continue
+    fi
+    for page in "${MENU_PAGES[@]}"; do
+        if [ "$page" != "$BLOG_PAGE" ]; then
+            HTML_FILES+=("$locale/$page")
+        fi
+    done
+done
+
+if printf '%s\n' "${MENU_PAGES[@]}" | grep -qx "$BLOG_PAGE"; then
+    mapfile -t BLOG_PAGES < <(jq -r '.files | keys[] | select(test("^blog-.*\\.html$"))' "$VERSION_FILE")
+    HTML_FILES+=("${BLOG_PAGES[@]}")
+fi
+
+info "Pages: ${#HTML_FILES[@]}"
 
 for file in "${HTML_FILES[@]}"; do
-    if [ -f "$SRC_DIR/$file" ]; then
+    if [ -f "$SITE_DIR/$file" ]; then
         check_pass "$file exists"
     else
         check_fail "$file missing"
@@ -118,10 +160,10 @@ for i in $(seq 0 $((MENU_COUNT - 1))); do
     PAGE_DESC=$(yq eval ".menu_items[$i].description" "$MANIFEST_FILE")
     PAGE_TITLE=$(yq eval ".menu_items[$i].title" "$MANIFEST_FILE")
 
-    if [ -f "$SRC_DIR/$PAGE_LINK" ]; then
+    if [ -f "$SITE_DIR/$PAGE_LINK" ]; then
         # Check if description exists in HTML
-        if grep -q "meta name=\"description\"" "$SRC_DIR/$PAGE_LINK"; then
-            CURRENT_DESC=$(grep "meta name=\"description\"" "$SRC_DIR/$PAGE_LINK" | sed 's/.*content="\([^"]*\)".*/\1/')
+        if grep -q "meta name=\"description\"" "$SITE_DIR/$PAGE_LINK"; then
+            CURRENT_DESC=$(grep "meta name=\"description\"" "$SITE_DIR/$PAGE_LINK" | sed 's/.*content="\([^"]*\)".*/\1/')
 
             if [ "$CURRENT_DESC" = "$PAGE_DESC" ]; then
                 check_pass "$PAGE_LINK: Meta description matches"
@@ -135,8 +177,8 @@ for i in $(seq 0 $((MENU_COUNT - 1))); do
         fi
 
         # Check title
-        if grep -q "<title>" "$SRC_DIR/$PAGE_LINK"; then
-            CURRENT_TITLE=$(grep "<title>" "$SRC_DIR/$PAGE_LINK" | sed 's/.*<title>\([^<]*\)<\/title>.*/\1/')
+        if grep -q "<title>" "$SITE_DIR/$PAGE_LINK"; then
+            CURRENT_TITLE=$(grep "<title>" "$SITE_DIR/$PAGE_LINK" | sed 's/.*<title>\([^<]*\)<\/title>.*/\1/')
 
             if [ "$CURRENT_TITLE" = "$PAGE_TITLE" ]; then
                 check_pass "$PAGE_LINK: Title matches"
@@ -158,7 +200,7 @@ for platform in $SOCIAL_PLATFORMS; do
     PLATFORM_URL=$(yq eval ".social_links[] | select(.platform == \"$platform\") | .url" "$MANIFEST_FILE")
 
     # Check if social link exists in index.html
-    if grep -q "$PLATFORM_URL" "$SRC_DIR/index.html"; then
+    if grep -q "$PLATFORM_URL" "$SITE_DIR/index.html"; then
         check_pass "Social link found: $platform"
     else
         check_fail "Social link missing: $platform"
@@ -172,13 +214,14 @@ section "Checking Navigation Consistency"
 NAV_ISSUES=0
 
 for file in "${HTML_FILES[@]}"; do
-    if [ -f "$SRC_DIR/$file" ] && [ "$file" != "error.html" ]; then
+    if [ -f "$SITE_DIR/$file" ] && [ "$file" != "error.html" ]; then
         # Check if all menu items are present
         for i in $(seq 0 $((MENU_COUNT - 1))); do
             MENU_LINK=$(yq eval ".menu_items[$i].link" "$MANIFEST_FILE")
             MENU_TEXT=$(yq eval ".menu_items[$i].text" "$MANIFEST_FILE")
 
-            if ! grep -q "href=\"$MENU_LINK\"" "$SRC_DIR/$file"; then
+            # Pages in a locale directory link untranslated pages from the site root
+            if ! grep -q -e "href=\"$MENU_LINK\"" -e "href=\"../$MENU_LINK\"" "$SITE_DIR/$file"; then
                 warn "$file: Navigation link missing: $MENU_TEXT ($MENU_LINK)"
                 NAV_ISSUES=$((NAV_ISSUES+1))
             fi
@@ -192,71 +235,48 @@ else
     check_fail "Found $NAV_ISSUES navigation inconsistencies"
 fi
 
-# Update version and build info in HTML footers
-section "Updating Version and Build Information"
-
-if [ "$APPLY_CHANGES" = true ]; then
-    info "Applying version and build info to HTML files..."
-    echo ""
+# Check that every footer carries the build recorded in version.json
+section "Checking Version and Build Information"
 
-    for file in "${HTML_FILES[@]}"; do
-        if [ -f "$SRC_DIR/$file" ]; then
-            # Check if footer has version info
-            if grep -q "class=\"version-info\"" "$SRC_DIR/$file"; then
-                # Update existing version info using awk
-                awk -v version="$VERSION_STRING" '
-                    /<div class="version-info">/ {
-                        print "        <div class=\"version-info\">" version "</div>"
-                        next
-                    }
-                    { print }
-                ' "$SRC_DIR/$file" > "$SRC_DIR/$file.tmp"
-                mv "$SRC_DIR/$file.tmp" "$SRC_DIR/$file"
-                success "$file: Version info updated"
-            else
-                # Add version info before closing footer tag using awk
-                if grep -q "</footer>" "$SRC_DIR/$file"; then
-                    awk -v version="$VERSION_STRING" '
-                        /<\/footer>/ {
-                            print "        <div class=\"version-info\">" version "</div>"
-                        }
-                        { print }
-                    ' "$SRC_DIR/$file" > "$SRC_DIR/$file.tmp"
-                    mv "$SRC_DIR/$file.tmp" "$SRC_DIR/$file"
-                    success "$file: Version info added"
-                else
-                    warn "$file: No footer tag found, skipping version info"
-                fi
-            fi
+for file in "${HTML_FILES[@]}"; do
+    # error.html is a standalone page without the shared footer
+    if [ -f "$SITE_DIR/$file" ] && [ "$file" != "error.html" ]; then
+        if grep -qF "$VERSION_STRING</div>" "$SITE_DIR/$file"; then
+            check_pass "$file: Version info matches version.json"
+        elif grep -q "class=\"version-info\"" "$SITE_DIR/$file"; then
+            check_fail "$file: Version info differs from version.json"
+            info "  Expected: $VERSION_STRING"
+        else
+            check_fail "$file: Version info missing"
         fi
-    done
+    fi
+done
 
-    echo ""
-    success "Version and build info applied to all HTML files"
-    info "Version String: $VERSION_STRING"
+# Files changed after the build no longer match their recorded hashes
+HASH_LENGTH=$(jq -r '.files | to_entries[0].value | length' "$VERSION_FILE")
+HASH_ISSUES=0
+
+while IFS=$'\t' read -r file hash; do
+    actual=$(sha256sum "$SITE_DIR/$file" 2>/dev/null | cut -c1-"$HASH_LENGTH")
+    if [ "$actual" != "$hash" ]; then
+        warn "$file: content does not match version.json"
+        HASH_ISSUES=$((HASH_ISSUES+1))
+    fi
+done < <(jq -r '.files | to_entries[] | "\(.key)\t\(.value)"' "$VERSION_FILE")
+
+if [ $HASH_ISSUES -eq 0 ]; then
+    check_pass "Every file matches its version.json hash"
 else
-    info "Skipping version updates (use --apply to apply changes)"
-
-    # Check if version info exists
-    for file in "${HTML_FILES[@]}"; do
-        if [ -f "$SRC_DIR/$file" ]; then
-            if grep -q "class=\"version-info\"" "$SRC_DIR/$file"; then
-                CURRENT_VERSION=$(grep -A 1 "class=\"version-info\"" "$SRC_DIR/$file" | tail -1 | sed 's/.*>\(.*\)<.*/\1/' | xargs)
-                check_pass "$file: Version info exists ($CURRENT_VERSION)"
-            else
-                check_fail "$file: Version info missing"
-            fi
-        fi
-    done
+    check_fail "$HASH_ISSUES files changed since the build (rebuild dist/)"
 fi
 
 # Check footer consistency (basic footer text, not version)
 section "Checking Footer Content"
 
 for file in "${HTML_FILES[@]}"; do
-    if [ -f "$SRC_DIR/$file" ]; then
+    if [ -f "$SITE_DIR/$file" ] && [ "$file" != "error.html" ]; then
         # Check for basic footer structure
-        if grep -q "<footer" "$SRC_DIR/$file"; then
+        if grep -q "<footer" "$SITE_DIR/$file"; then
             check_pass "$file: Footer element exists"
         else
             check_fail "$file: Footer element missing"
@@ -274,32 +294,16 @@ echo "Passed: $CHECKS_PASSED"
 echo "Failed: $CHECKS_FAILED"
 echo ""
 
-if [ "$APPLY_CHANGES" = true ]; then
-    echo "Version Information Applied:"
-    echo "  Version: $VERSION"
-    echo "  Build: $BUILD_TIMESTAMP"
-    echo "  Commit: $GIT_COMMIT"
-    echo ""
-fi
-
 if [ $CHECKS_FAILED -eq 0 ]; then
     success "All manifest validation checks passed!"
     echo ""
-    info "HTML files are consistent with manifest.yaml"
-    if [ "$APPLY_CHANGES" = true ]; then
-        info "Version and build information has been applied"
-    else
-        info "Run with --apply to update version and build information"
-    fi
+    info "HTML files are consistent with manifest.yaml and version.json"
     echo ""
     exit 0
 else
     warn "Some validation checks failed"
     echo ""
-    info "Review the issues above and update HTML files to match manifest.yaml"
-    if [ "$APPLY_CHANGES" = false ]; then
-        info "Run with --apply to update version and build information"
-    fi
+    info "Review the issues above; fix the sources and rebuild (npm run build) rather than editing dist/"
     echo ""
     exit 1
 fi
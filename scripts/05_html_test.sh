@@ -1,6 +1,6 @@
 #!/bin/bash
 # HTML Validation and Testing Script
-# Tests HTML files for structure, links, and required elements
+# Tests the built HTML files in dist/ for structure, links, and required elements
 # Usage: ./scripts/05_html_test.sh
 
 set -e
@@ -21,7 +21,7 @@ section() { echo -e "\n${CYAN}▶ $1${NC}\n"; }
 
 SCRIPT_DIR="$(cd "$(dirname "$0")" && pwd)"
 ROOT_DIR="$(dirname "$SCRIPT_DIR")"
-SRC_DIR="$ROOT_DIR/src"
+SITE_DIR="$ROOT_DIR/dist"
 
 TESTS_PASSED=0
 TESTS_FAILED=0
@@ -39,16 +39,16 @@ echo ""
 # Check prerequisites
 section "Checking Prerequisites"
 
-[ -d "$SRC_DIR" ] || error "src directory not found"
-test_pass "src directory exists"
+[ -d "$SITE_DIR" ] || error "dist directory not found (run: npm run build -- --env stg)"
+test_pass "dist directory exists"
 
 # Test HTML file existence
 section "Testing HTML Files"
 
-HTML_FILES=("index.html" "about_us.html" "products.html" "services.html" "contact_us.html" "error.html")
+HTML_FILES=("index.html" "about_us.html" "products.html" "services.html" "blog.html" "contact_us.html" "error.html")
 
 for file in "${HTML_FILES[@]}"; do
-    if [ -f "$SRC_DIR/$file" ]; then
+    if [ -f "$SITE_DIR/$file" ]; then
         test_pass "$file exists"
     else
         test_fail "$file not found"
@@ -59,58 +59,58 @@ done
 section "Testing HTML Structure"
 
 for file in "${HTML_FILES[@]}"; do
-    if [ -f "$SRC_DIR/$file" ]; then
+    if [ -f "$SITE_DIR/$file" ]; then
         # Check DOCTYPE
-        if head -1 "$SRC_DIR/$file" | grep -qi "<!DOCTYPE html>"; then
+        if head -1 "$SITE_DIR/$file" | grep -qi "<!DOCTYPE html>"; then
             test_pass "$file: DOCTYPE declared"
         else
             test_warn "$file: DOCTYPE missing or incorrect"
         fi
 
         # Check html tag
-        if grep -q "<html" "$SRC_DIR/$file"; then
+        if grep -q "<html" "$SITE_DIR/$file"; then
             test_pass "$file: <html> tag present"
         else
             test_fail "$file: <html> tag missing"
         fi
 
         # Check head tag
-        if grep -q "<head>" "$SRC_DIR/$file"; then
+        if grep -q "<head>" "$SITE_DIR/$file"; then
             test_pass "$file: <head> tag present"
         else
             test_fail "$file: <head> tag missing"
         fi
 
         # Check body tag
-        if grep -q "<body>" "$SRC_DIR/$file"; then
+        if grep -q "<body>" "$SITE_DIR/$file"; then
             test_pass "$file: <body> tag present"
         else
             test_fail "$file: <body> tag missing"
         fi
 
         # Check title tag
-        if grep -q "<title>" "$SRC_DIR/$file"; then
+        if grep -q "<title>" "$SITE_DIR/$file"; then
             test_pass "$file: <title> tag present"
         else
             test_warn "$file: <title> tag missing"
         fi
 
         # Check meta charset
-        if grep -q 'meta charset="UTF-8"' "$SRC_DIR/$file"; then
+        if grep -q 'meta charset="UTF-8"' "$SITE_DIR/$file"; then
             test_pass "$file: UTF-8 charset declared"
         else
             test_warn "$file: UTF-8 charset not declared"
         fi
 
         # Check viewport meta
-        if grep -q 'meta name="viewport"' "$SRC_DIR/$file"; then
+        if grep -q 'meta name="viewport"' "$SITE_DIR/$file"; then
             test_pass "$file: Viewport meta tag present"
         else
             test_warn "$file: Viewport meta tag missing"
         fi
 
         # Check meta description
-        if grep -q 'meta name="description"' "$SRC_DIR/$file"; then
+        if grep -q 'meta name="description"' "$SITE_DIR/$file"; then
             test_pass "$file: Meta description present"
         else
             test_warn "$file: Meta description missing"
@@ -121,48 +121,44 @@ done
 # Test CSS references
 section "Testing CSS References"
 
-CSS_FILES=("css/styles.css")
-
+# Stylesheets are fingerprinted by the build, e.g. css/styles.1a2b3c4d5e.css
 for file in "${HTML_FILES[@]}"; do
-    if [ -f "$SRC_DIR/$file" ]; then
-        for css in "${CSS_FILES[@]}"; do
-            if grep -q "href=\"$css\"" "$SRC_DIR/$file"; then
-                test_pass "$file: $css referenced"
-
-                # Check if CSS file exists
-                if [ -f "$SRC_DIR/$css" ]; then
-                    test_pass "$file: $css file exists"
-                else
-                    test_fail "$file: $css file not found"
-                fi
+    if [ -f "$SITE_DIR/$file" ]; then
+        css=$(grep -o 'href="css/styles\.[0-9a-f]\{10\}\.css"' "$SITE_DIR/$file" | head -1 | sed 's/href="//; s/"$//')
+        if [ -n "$css" ]; then
+            test_pass "$file: $css referenced"
+
+            # Check if CSS file exists
+            if [ -f "$SITE_DIR/$css" ]; then
+                test_pass "$file: $css file exists"
             else
-                test_warn "$file: $css not referenced"
+                test_fail "$file: $css file not found"
             fi
-        done
+        else
+            test_warn "$file: fingerprinted css/styles.[hash].css not referenced"
+        fi
     fi
 done
 
 # Test JavaScript references
 section "Testing JavaScript References"
 
-JS_FILES=("js/main.js")
-
+# Scripts are fingerprinted by the build, e.g. js/main.1a2b3c4d5e.js
 for file in "${HTML_FILES[@]}"; do
-    if [ -f "$SRC_DIR/$file" ]; then
-        for js in "${JS_FILES[@]}"; do
-            if grep -q "src=\"$js\"" "$SRC_DIR/$file"; then
-                test_pass "$file: $js referenced"
-
-                # Check if JS file exists
-                if [ -f "$SRC_DIR/$js" ]; then
-                    test_pass "$file: $js file exists"
-                else
-                    test_fail "$file: $js file not found"
-                fi
+    if [ -f "$SITE_DIR/$file" ]; then
+        js=$(grep -o 'src="js/main\.[0-9a-f]\{10\}\.js"' "$SITE_DIR/$file" | head -1 | sed 's/src="//; s/"$//')
+        if [ -n "$js" ]; then
+            test_pass "$file: $js referenced"
+
+            # Check if JS file exists
+            if [ -f "$SITE_DIR/$js" ]; then
+                test_pass "$file: $js file exists"
             else
-                test_warn "$file: $js not referenced"
+                test_fail "$file: $js file not found"
             fi
-        done
+        else
+            test_warn "$file: fingerprinted js/main.[hash].js not referenced"
+        fi
     fi
 done
 
@@ -170,9 +166,9 @@ done
 section "Testing Navigation Links"
 
 for file in "${HTML_FILES[@]}"; do
-    if [ -f "$SRC_DIR/$file" ]; then
+    if [ -f "$SITE_DIR/$file" ]; then
         # Check for nav element
-        if grep -q "<nav" "$SRC_DIR/$file"; then
+        if grep -q "<nav" "$SITE_DIR/$file"; then
             test_pass "$file: <nav> element present"
         else
             test_warn "$file: <nav> element missing"
@@ -182,7 +178,7 @@ for file in "${HTML_FILES[@]}"; do
         NAV_LINKS=0
         for target in "${HTML_FILES[@]}"; do
             if [ "$target" != "error.html" ]; then
-                if grep -q "href=\"$target\"" "$SRC_DIR/$file"; then
+                if grep -q "href=\"$target\"" "$SITE_DIR/$file"; then
                     NAV_LINKS=$((NAV_LINKS+1))
                 fi
             fi
@@ -199,7 +195,7 @@ done
 # Test contact form (contact_us.html only)
 section "Testing Contact Form"
 
-CONTACT_FILE="$SRC_DIR/contact_us.html"
+CONTACT_FILE="$SITE_DIR/contact_us.html"
 
 if [ -f "$CONTACT_FILE" ]; then
     # Check form element
@@ -239,9 +235,9 @@ fi
 section "Testing Security Configuration"
 
 for file in "${HTML_FILES[@]}"; do
-    if [ -f "$SRC_DIR/$file" ]; then
+    if [ -f "$SITE_DIR/$file" ]; then
         # Check for CSP meta tag
-        if grep -q 'Content-Security-Policy' "$SRC_DIR/$file"; then
+        if grep -q 'Content-Security-Policy' "$SITE_DIR/$file"; then
             test_pass "$file: CSP header configured"
         else
             test_warn "$file: CSP header not found"
@@ -252,7 +248,7 @@ done
 # Test image references
 section "Testing Image References"
 
-IMAGE_DIR="$SRC_DIR/images"
+IMAGE_DIR="$SITE_DIR/images"
 
 if [ -d "$IMAGE_DIR" ]; then
     test_pass "Images directory exists"
@@ -276,9 +272,9 @@ section "Testing CSP Compliance"
 INLINE_SCRIPT_COUNT=0
 
 for file in "${HTML_FILES[@]}"; do
-    if [ -f "$SRC_DIR/$file" ]; then
+    if [ -f "$SITE_DIR/$file" ]; then
         # Check for inline scripts
-        if grep -q "<script>" "$SRC_DIR/$file" && ! grep -q 'src=' "$SRC_DIR/$file" | grep -q "<script"; then
+        if grep -q "<script>" "$SITE_DIR/$file" && ! grep -q 'src=' "$SITE_DIR/$file" | grep -q "<script"; then
             test_warn "$file: Inline script detected (CSP violation)"
             INLINE_SCRIPT_COUNT=$((INLINE_SCRIPT_COUNT+1))
         fi
@@ -294,19 +290,34 @@ fi
 # Test favicon
 section "Testing Favicon"
 
-if [ -f "$SRC_DIR/images/favicon.svg" ] || [ -f "$SRC_DIR/favicon.ico" ]; then
+if [ -f "$SITE_DIR/images/favicon.svg" ] || [ -f "$SITE_DIR/favicon.ico" ]; then
     test_pass "Favicon file exists"
 else
     test_warn "Favicon not found"
 fi
 
 # Check for favicon reference in HTML
-if grep -q "favicon" "$SRC_DIR/index.html"; then
+if grep -q "favicon" "$SITE_DIR/index.html"; then
     test_pass "Favicon referenced in HTML"
 else
     test_warn "Favicon not referenced in HTML"
 fi
 
+# Test release metadata (read by the deploy tool and post-deploy smoke tests)
+section "Testing Release Metadata"
+
+if [ -f "$SITE_DIR/version.json" ]; then
+    test_pass "version.json exists"
+    BUILD_ID=$(grep -o '"buildId": "[0-9]*"' "$SITE_DIR/version.json" | grep -o '[0-9]\{14\}' || true)
+    if [ -n "$BUILD_ID" ] && grep -q "Build $BUILD_ID" "$SITE_DIR/index.html"; then
+        test_pass "version.json and the footer agree on build $BUILD_ID"
+    else
+        test_warn "version.json build id does not match the footer"
+    fi
+else
+    test_fail "version.json not found"
+fi
+
 # Summary
 section "Test Summary"
 
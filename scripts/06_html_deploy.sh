@@ -1,6 +1,8 @@
 #!/bin/bash
 # HTML Deployment Script
 # Deploys website content to S3 and invalidates CloudFront
+# Only changed files are uploaded and only stale pages invalidated (tools/deploy.ts);
+# preview with: npm run deploy -- --env stg --dry-run
 # Usage: ./scripts/06_html_deploy.sh [stg|prd] [--skip-tests]
 
 set -e
@@ -21,7 +23,7 @@ section() { echo -e "\n${CYAN}▶ $1${NC}\n"; }
 
 SCRIPT_DIR="$(cd "$(dirname "$0")" && pwd)"
 ROOT_DIR="$(dirname "$SCRIPT_DIR")"
-SRC_DIR="$ROOT_DIR/src"
+SITE_DIR="$ROOT_DIR/dist"
 
 # Parse arguments
 ENV="${1:-prd}"
@@ -50,14 +52,26 @@ section "Checking Prerequisites"
 
 command -v aws &>/dev/null || error "AWS CLI not installed"
 command -v yq &>/dev/null || error "yq not installed"
+command -v npm &>/dev/null || error "npm not installed"
 
 CONFIG_FILE="$ROOT_DIR/environments/$ENV/config.yaml"
 [ -f "$CONFIG_FILE" ] || error "Config file not found: $CONFIG_FILE"
 
-[ -d "$SRC_DIR" ] || error "Source directory not found: $SRC_DIR"
-
 success "All prerequisites met"
 
+# Validate manifest.yaml and this environment's config.yaml
+section "Validating Configuration"
+
+(cd "$ROOT_DIR" && npm run --silent validate -- --env "$ENV") || error "Configuration validation failed"
+
+# Build site from src/ and manifest.yaml with this environment's values injected
+section "Building Site"
+
+(cd "$ROOT_DIR" && npm run build -- --env "$ENV") || error "Site build failed"
+[ -d "$SITE_DIR" ] || error "Build directory not found: $SITE_DIR"
+
+success "Site built into dist/"
+
 # Read configuration
 section "Reading Configuration"
 
@@ -124,92 +138,11 @@ if [ "$ENV" = "prd" ]; then
     fi
 fi
 
-# Sync assets (CSS, JS, images) with long cache
-section "Deploying Assets (CSS, JS, Images)"
-
-info "Uploading with ${CACHE_ASSETS}s cache..."
-
-aws s3 sync "$SRC_DIR/" "s3://$S3_BUCKET/" \
-    --profile "$AWS_PROFILE" \
-    --region "$AWS_REGION" \
-    --cache-control "max-age=$CACHE_ASSETS" \
-    --exclude "*.html" \
-    --delete
-
-success "Assets deployed"
-
-# Count uploaded files
-CSS_COUNT=$(find "$SRC_DIR" -name "*.css" | wc -l | tr -d ' ')
-JS_COUNT=$(find "$SRC_DIR" -name "*.js" | wc -l | tr -d ' ')
-IMAGE_COUNT=$(find "$SRC_DIR/images" -type f 2>/dev/null | wc -l | tr -d ' ')
-
-info "Uploaded: $CSS_COUNT CSS, $JS_COUNT JS, $IMAGE_COUNT images"
-
-# Prepare HTML files with config injection
-section "Preparing HTML Files"
-
-BUILD_DIR="$ROOT_DIR/.build"
-rm -rf "$BUILD_DIR"
-mkdir -p "$BUILD_DIR"
-
-info "Processing HTML files with config injection..."
-
-# Process each HTML file
-for html_file in "$SRC_DIR"/*.html; do
-    if [ -f "$html_file" ]; then
-        filename=$(basename "$html_file")
-        # Replace {{FORMS_HOST_NAME}} placeholder
-        sed "s|{{FORMS_HOST_NAME}}|$FORMS_HOST_NAME|g" "$html_file" > "$BUILD_DIR/$filename"
-        info "Processed: $filename"
-    fi
-done
-
-success "HTML files prepared"
+# Upload changed files and invalidate stale pages (tools/deploy.ts)
+section "Deploying Changed Files"
 
-# Sync HTML files with short cache
-section "Deploying HTML Files"
-
-info "Uploading with ${CACHE_HTML}s cache..."
-
-aws s3 sync "$BUILD_DIR/" "s3://$S3_BUCKET/" \
-    --profile "$AWS_PROFILE" \
-    --region "$AWS_REGION" \
-    --cache-control "max-age=$CACHE_HTML" \
-    --exclude "*" \
-    --include "*.html" \
-    --delete
-
-success "HTML files deployed"
-
-# Count HTML files
-HTML_COUNT=$(find "$SRC_DIR" -maxdepth 1 -name "*.html" | wc -l | tr -d ' ')
-info "Uploaded: $HTML_COUNT HTML files"
-
-# Create CloudFront invalidation
-section "Invalidating CloudFront Cache"
-
-info "Creating invalidation for all files..."
-
-INVALIDATION_ID=$(aws cloudfront create-invalidation \
-    --distribution-id "$CLOUDFRONT_ID" \
-    --paths "/*" \
-    --profile "$AWS_PROFILE" \
-    --query 'Invalidation.Id' \
-    --output text)
-
-success "Invalidation created: $INVALIDATION_ID"
-
-info "Invalidation typically takes 10-15 minutes to complete"
-
-# Check invalidation status
-INVALIDATION_STATUS=$(aws cloudfront get-invalidation \
-    --distribution-id "$CLOUDFRONT_ID" \
-    --id "$INVALIDATION_ID" \
-    --profile "$AWS_PROFILE" \
-    --query 'Invalidation.Status' \
-    --output text)
-
-info "Status: $INVALIDATION_STATUS"
+(cd "$ROOT_DIR" && npm run --silent deploy -- --env "$ENV") || error "Deployment failed"
+BUILD_ID=$(yq eval '.buildId' "$SITE_DIR/version.json")
 
 # Get CloudFront domain
 CF_DOMAIN=$(aws cloudfront get-distribution \
@@ -226,29 +159,25 @@ echo "S3 Bucket: $S3_BUCKET"
 echo "CloudFront: $CLOUDFRONT_ID"
 echo "Domain: $HOSTNAME"
 echo "CloudFront Domain: $CF_DOMAIN"
+echo "Build: $BUILD_ID"
 echo ""
-echo "Files Deployed:"
-echo "  - HTML: $HTML_COUNT files (${CACHE_HTML}s cache)"
-echo "  - CSS: $CSS_COUNT files (${CACHE_ASSETS}s cache)"
-echo "  - JS: $JS_COUNT files (${CACHE_ASSETS}s cache)"
-echo "  - Images: $IMAGE_COUNT files (${CACHE_ASSETS}s cache)"
-echo ""
-echo "Invalidation: $INVALIDATION_ID ($INVALIDATION_STATUS)"
+echo "Cache: pages ${CACHE_HTML}s, assets ${CACHE_ASSETS}s"
 echo ""
 
 success "Deployment completed successfully!"
 
 section "Next Steps"
 
-info "1. Wait for CloudFront invalidation to complete (~10-15 minutes)"
-echo "   Check status: aws cloudfront get-invalidation --distribution-id $CLOUDFRONT_ID --id $INVALIDATION_ID --profile $AWS_PROFILE"
+info "1. Wait for the CloudFront invalidation above, if any, to complete (~10-15 minutes)"
+echo "   Check status: aws cloudfront list-invalidations --distribution-id $CLOUDFRONT_ID --profile $AWS_PROFILE"
 
 info "2. Test the website:"
 echo "   https://$HOSTNAME"
 echo "   https://$CF_DOMAIN"
 
-info "3. Verify deployment:"
-echo "   curl -I https://$HOSTNAME"
+info "3. Run the smoke tests; they confirm the build is live (reads /version.json):"
+echo "   EXPECTED_BUILD_ID=$BUILD_ID ./scripts/07_html_playwright_tests.sh $ENV smoke"
+echo "   Roll back if needed: npm run deploy -- --env $ENV releases, then rollback <build id>"
 
 if [ "$ENV" = "stg" ]; then
     info "4. After staging validation, deploy to production:"
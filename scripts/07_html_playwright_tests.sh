@@ -1,7 +1,7 @@
 #!/bin/bash
 # Playwright E2E Testing Script
 # Runs Playwright tests against local or deployed environments
-# Usage: ./scripts/07_html_playwright_tests.sh [local|stg|prd] [options]
+# Usage: ./scripts/07_html_playwright_tests.sh [local|stg|prd] [smoke|visual] [options]
 
 set -e
 
@@ -26,8 +26,8 @@ ROOT_DIR="$(dirname "$SCRIPT_DIR")"
 ENV="${1:-local}"
 TEST_MODE="all"
 EXTRA_ARGS=""
-LOCAL_SERVER_PID=""
 LOCAL_PORT="8000"
+MOCK_API_PORT="8787"
 
 # Normalize environment
 case "$ENV" in
@@ -68,6 +68,16 @@ while [[ $# -gt 0 ]]; do
             EXTRA_ARGS="$EXTRA_ARGS $1"
             shift
             ;;
+        smoke)
+            TEST_MODE="smoke"
+            EXTRA_ARGS="$EXTRA_ARGS --project=smoke"
+            shift
+            ;;
+        visual)
+            TEST_MODE="visual"
+            EXTRA_ARGS="$EXTRA_ARGS --grep @visual --update-snapshots=missing"
+            shift
+            ;;
         pages|navigation|contact-form)
             TEST_FILE="$1"
             EXTRA_ARGS="$EXTRA_ARGS $TEST_FILE"
@@ -185,31 +195,22 @@ fi
 
 info "Found $TEST_COUNT test files"
 
-# Start local server if testing locally
+# Local runs leave the servers to playwright.config.ts: the mock forms API
+# and a build that posts to it, so no test submits to a real API
 if [ "$ENV" = "local" ]; then
-    section "Starting Local Server"
-
-    # Check if port is already in use
-    if lsof -Pi :$LOCAL_PORT -sTCP:LISTEN -t >/dev/null 2>&1; then
-        warn "Port $LOCAL_PORT is already in use"
-        info "Using existing server on port $LOCAL_PORT"
-        USING_EXISTING_SERVER=true
-    else
-        info "Starting HTTP server on port $LOCAL_PORT..."
-        cd "$ROOT_DIR/src"
-        python3 -m http.server $LOCAL_PORT >/dev/null 2>&1 &
-        LOCAL_SERVER_PID=$!
-        USING_EXISTING_SERVER=false
-
-        # Wait for server to start
-        sleep 2
-
-        if kill -0 $LOCAL_SERVER_PID 2>/dev/null; then
-            success "Local server started (PID: $LOCAL_SERVER_PID)"
+    section "Checking Local Ports"
+
+    for PORT in $LOCAL_PORT $MOCK_API_PORT; do
+        if lsof -Pi :$PORT -sTCP:LISTEN -t >/dev/null 2>&1; then
+            if [ -n "$CI" ]; then
+                error "Port $PORT is already in use; stop the server on it first"
+            fi
+            warn "Port $PORT is already in use; Playwright reuses that server"
         else
-            error "Failed to start local server"
+            success "Port $PORT is free"
         fi
-    fi
+    done
+    info "Playwright starts the mock forms API and a build posting to it (see playwright.config.ts)"
 else
     # Check if remote site is accessible
     section "Testing Site Accessibility"
@@ -242,8 +243,10 @@ section "Running Playwright Tests"
 
 cd "$ROOT_DIR"
 
-# Set base URL for tests
-export BASE_URL="$BASE_URL"
+# Set base URL for tests; without it Playwright starts the local servers
+if [ "$ENV" != "local" ]; then
+    export BASE_URL="$BASE_URL"
+fi
 
 info "Base URL: $BASE_URL"
 info "Test mode: $TEST_MODE"
@@ -254,18 +257,6 @@ fi
 
 echo ""
 
-# Cleanup function for local server
-cleanup_local_server() {
-    if [ "$ENV" = "local" ] && [ -n "$LOCAL_SERVER_PID" ] && [ "$USING_EXISTING_SERVER" = "false" ]; then
-        info "Stopping local server (PID: $LOCAL_SERVER_PID)..."
-        kill $LOCAL_SERVER_PID 2>/dev/null || true
-        success "Local server stopped"
-    fi
-}
-
-# Set trap to cleanup on exit
-trap cleanup_local_server EXIT INT TERM
-
 # Run tests based on mode
 case "$TEST_MODE" in
     headed)
@@ -280,16 +271,26 @@ case "$TEST_MODE" in
         info "Running tests in UI mode..."
         npx playwright test $EXTRA_ARGS
         ;;
+    smoke)
+        info "Running read-only smoke tests on one browser..."
+        SMOKE=1 npx playwright test $EXTRA_ARGS
+        ;;
+    visual)
+        # A missing baseline is written and its test fails, so new screenshots get reviewed
+        info "Running screenshot comparisons; missing baselines are written..."
+        VISUAL=1 npx playwright test $EXTRA_ARGS || VISUAL_EXIT_CODE=$?
+        NEW_BASELINES=$(git -C "$ROOT_DIR" ls-files --others --exclude-standard tests/__screenshots__ | wc -l)
+        if [ "$NEW_BASELINES" -gt 0 ]; then
+            warn "$NEW_BASELINES new baselines written to tests/__screenshots__/; review and commit them"
+        fi
+        ;;
     *)
         info "Running all tests..."
         npx playwright test $EXTRA_ARGS
         ;;
 esac
 
-TEST_EXIT_CODE=$?
-
-# Cleanup local server
-cleanup_local_server
+TEST_EXIT_CODE=${VISUAL_EXIT_CODE:-$?}
 
 echo ""
 
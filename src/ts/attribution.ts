@@ -0,0 +1,227 @@
+/**
+ * Visitor attribution attached to form submissions: where the visitor came
+ * from (`source`), which partner referred them (`referredBy`) and the
+ * campaign that brought them in. Campaign visits are recorded as touches in
+ * localStorage so they survive navigation to the page with the form; the
+ * first and the most recent touch are kept until they expire.
+ *
+ * Attribution is marketing data: touches are only recorded with marketing
+ * consent, and are deleted when it is withdrawn.
+ */
+
+import { hasConsent, onConsentChange } from './consent';
+
+export const ATTRIBUTION_KEY = 'gc_attribution';
+export const ATTRIBUTION_MAX_AGE_MS = 90 * 24 * 60 * 60 * 1000; // 90 days
+
+const CLICK_ID_PARAMS = ['gclid', 'fbclid'] as const;
+
+export interface PageContext {
+  href: string;
+  search: string;
+  hostname: string;
+  referrer: string;
+}
+
+export function currentPageContext(): PageContext {
+  return {
+    href: window.location.href,
+    search: window.location.search,
+    hostname: window.location.hostname,
+    referrer: document.referrer,
+  };
+}
+
+/** One visit that brought the visitor to the site. */
+export interface Touch {
+  source: string;
+  /** Every `utm_*` parameter on the landing page. */
+  utm: Record<string, string>;
+  gclid?: string;
+  fbclid?: string;
+  referredBy?: string;
+  referrer: string;
+  landingPage: string;
+  capturedAt: number;
+  expiresAt: number;
+}
+
+export interface StoredAttribution {
+  firstTouch?: Touch;
+  lastTouch?: Touch;
+}
+
+// Referrer hostname fragments mapped to a normalized source name
+const KNOWN_REFERRERS: ReadonlyArray<[string, ReadonlyArray<string>]> = [
+  ['google', ['google']],
+  ['facebook', ['facebook', 'fb.com']],
+  ['twitter', ['twitter', 't.co']],
+  ['linkedin', ['linkedin']],
+  ['instagram', ['instagram']],
+];
+
+/**
+ * Resolves the traffic source, preferring explicit URL parameters
+ * (`utm_source`, `ref`, `source`) over the referrer hostname.
+ */
+export function getSource(context: PageContext = currentPageContext()): string {
+  const params = new URLSearchParams(context.search);
+
+  for (const key of ['utm_source', 'ref', 'source']) {
+    const value = params.get(key);
+    if (value) {
+      return value;
+    }
+  }
+
+  if (!context.referrer) {
+    return 'direct';
+  }
+
+  try {
+    const referrerHost = new URL(context.referrer).hostname;
+
+    if (referrerHost === context.hostname) {
+      return 'internal';
+    }
+
+    for (const [source, fragments] of KNOWN_REFERRERS) {
+      if (fragments.some((fragment) => referrerHost.includes(fragment))) {
+        return source;
+      }
+    }
+
+    return referrerHost;
+  } catch {
+    return 'unknown';
+  }
+}
+
+export function getReferredBy(search: string = window.location.search): string | null {
+  return new URLSearchParams(search).get('referredBy') || null;
+}
+
+function isExternalReferrer(context: PageContext): boolean {
+  try {
+    return new URL(context.referrer).hostname !== context.hostname;
+  } catch {
+    return false;
+  }
+}
+
+function campaignParams(params: URLSearchParams): Record<string, string> {
+  const utm: Record<string, string> = {};
+  params.forEach((value, key) => {
+    if (key.startsWith('utm_') && value) {
+      utm[key] = value;
+    }
+  });
+  return utm;
+}
+
+/**
+ * Whether the page view starts a new visit: it carries campaign parameters
+ * or click IDs, or comes from another site. Navigation within the site and
+ * direct visits do not.
+ */
+export function startsNewTouch(context: PageContext): boolean {
+  const params = new URLSearchParams(context.search);
+  const tagged = ['ref', 'source', 'referredBy', ...CLICK_ID_PARAMS].some((key) => params.get(key));
+  return tagged || Object.keys(campaignParams(params)).length > 0 || isExternalReferrer(context);
+}
+
+export function touchFromPage(context: PageContext, now: number = Date.now()): Touch {
+  const params = new URLSearchParams(context.search);
+  const touch: Touch = {
+    source: getSource(context),
+    utm: campaignParams(params),
+    referrer: context.referrer || 'direct',
+    landingPage: context.href,
+    capturedAt: now,
+    expiresAt: now + ATTRIBUTION_MAX_AGE_MS,
+  };
+
+  for (const key of CLICK_ID_PARAMS) {
+    const value = params.get(key);
+    if (value) {
+      touch[key] = value;
+    }
+  }
+  const referredBy = getReferredBy(context.search);
+  if (referredBy) {
+    touch.referredBy = referredBy;
+  }
+  return touch;
+}
+
+function isLive(touch: Touch | undefined, now: number): touch is Touch {
+  return touch !== undefined && touch.expiresAt > now;
+}
+
+/** First and last touch from storage, without expired ones. */
+export function readAttribution(storage?: Storage, now: number = Date.now()): StoredAttribution {
+  try {
+    const stored = (storage ?? window.localStorage).getItem(ATTRIBUTION_KEY);
+    const parsed: StoredAttribution = stored ? JSON.parse(stored) : {};
+
+    const attribution: StoredAttribution = {};
+    if (isLive(parsed.firstTouch, now)) {
+      attribution.firstTouch = parsed.firstTouch;
+    }
+    if (isLive(parsed.lastTouch, now)) {
+      attribution.lastTouch = parsed.lastTouch;
+    }
+    return attribution;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Records the current page view. A new visit (see startsNewTouch) becomes
+ * the last touch, and the first touch too if there is none. Other views are
+ * only recorded when nothing is stored, so typing the URL later does not
+ * hide the campaign that brought the visitor in.
+ */
+export function recordTouch(context: PageContext, storage?: Storage, now: number = Date.now()): StoredAttribution {
+  const attribution = readAttribution(storage, now);
+
+  if (startsNewTouch(context) || !attribution.lastTouch) {
+    attribution.lastTouch = touchFromPage(context, now);
+  }
+  attribution.firstTouch ??= attribution.lastTouch;
+
+  try {
+    (storage ?? window.localStorage).setItem(ATTRIBUTION_KEY, JSON.stringify(attribution));
+  } catch {
+    // Attribution is best effort; the payload still describes the current page
+  }
+  return attribution;
+}
+
+export function clearAttribution(storage?: Storage): void {
+  try {
+    (storage ?? window.localStorage).removeItem(ATTRIBUTION_KEY);
+  } catch {
+    // Nothing was stored
+  }
+}
+
+/**
+ * Records this page view if the visitor has allowed marketing data, or as
+ * soon as they do while still on the page.
+ */
+export function initAttribution(): void {
+  const context = currentPageContext();
+  if (hasConsent('marketing')) {
+    recordTouch(context);
+  }
+
+  onConsentChange((consent) => {
+    if (consent.marketing) {
+      recordTouch(context);
+    } else {
+      clearAttribution();
+    }
+  });
+}
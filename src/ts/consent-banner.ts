@@ -0,0 +1,82 @@
+/**
+ * Consent banner rendered by tools/site/layout.ts. It is shown until the
+ * visitor makes a choice for the current CONSENT_VERSION, and reopened with
+ * the footer's "Privacy choices" button.
+ */
+
+import { ConsentChoice, currentConsent, readConsent, setConsent } from './consent';
+
+export function initConsentBanner(): void {
+  const banner = document.getElementById('consentBanner');
+  const form = document.querySelector<HTMLFormElement>('#consentForm');
+  const preferences = document.getElementById('consentPreferences');
+  const customize = form?.querySelector<HTMLButtonElement>('[data-consent-action="customize"]');
+  const save = form?.querySelector<HTMLButtonElement>('[data-consent-action="save"]');
+
+  if (!banner || !form || !preferences || !customize || !save) {
+    return;
+  }
+
+  const checkbox = (name: keyof ConsentChoice): HTMLInputElement | null =>
+    form.querySelector<HTMLInputElement>(`input[name="${name}"]`);
+
+  // Button that reopened the banner, to get focus back after a choice
+  let opener: HTMLElement | null = null;
+
+  const showPreferences = (): void => {
+    preferences.hidden = false;
+    save.hidden = false;
+    customize.hidden = true;
+    customize.setAttribute('aria-expanded', 'true');
+  };
+
+  const open = (withPreferences: boolean): void => {
+    const consent = currentConsent();
+    for (const name of ['analytics', 'marketing'] as const) {
+      const input = checkbox(name);
+      if (input) {
+        input.checked = consent[name];
+      }
+    }
+    banner.hidden = false;
+    if (withPreferences) {
+      showPreferences();
+    }
+  };
+
+  const choose = (choice: ConsentChoice): void => {
+    setConsent(choice);
+    banner.hidden = true;
+    opener?.focus();
+    opener = null;
+  };
+
+  form.addEventListener('click', (e) => {
+    const action = (e.target as Element).closest<HTMLElement>('[data-consent-action]')?.dataset.consentAction;
+    if (action === 'accept') {
+      choose({ analytics: true, marketing: true });
+    } else if (action === 'reject') {
+      choose({ analytics: false, marketing: false });
+    } else if (action === 'customize') {
+      showPreferences();
+      checkbox('analytics')?.focus();
+    }
+  });
+
+  form.addEventListener('submit', (e) => {
+    e.preventDefault();
+    choose({ analytics: !!checkbox('analytics')?.checked, marketing: !!checkbox('marketing')?.checked });
+  });
+
+  document.querySelectorAll<HTMLElement>('[data-consent-open]').forEach((button) => {
+    button.addEventListener('click', () => {
+      opener = button;
+      open(true);
+      checkbox('analytics')?.focus();
+    });
+  });
+
+  if (!readConsent()) {
+    open(false);
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Privacy consent. Essential storage (consent itself, the language choice,
+ * form rate limiting and the offline queue) is always allowed; analytics
+ * and marketing need the visitor's opt-in. Code that collects optional data
+ * must check hasConsent() first and follow onConsentChange() to stop when
+ * consent is withdrawn.
+ *
+ * The choice is stored with CONSENT_VERSION; bump it when the categories or
+ * their meaning change, so every visitor is asked again.
+ */
+
+export const CONSENT_KEY = 'gc_consent';
+export const CONSENT_VERSION = 1;
+export const CONSENT_EVENT = 'gc:consent-change';
+
+export type ConsentCategory = 'essential' | 'analytics' | 'marketing';
+
+export interface ConsentChoice {
+  analytics: boolean;
+  marketing: boolean;
+}
+
+export interface ConsentState extends ConsentChoice {
+  version: number;
+  essential: true;
+  /** ISO time of the visitor's choice, or null if they have not chosen. */
+  updatedAt: string | null;
+}
+
+/** Until the visitor chooses, only essential storage is used. */
+export const DEFAULT_CONSENT: ConsentState = {
+  version: CONSENT_VERSION,
+  essential: true,
+  analytics: false,
+  marketing: false,
+  updatedAt: null,
+};
+
+/** The stored choice, or null when there is none for the current version. */
+export function readConsent(storage?: Storage): ConsentState | null {
+  try {
+    const stored = (storage ?? window.localStorage).getItem(CONSENT_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    if (
+      parsed?.version !== CONSENT_VERSION ||
+      typeof parsed.analytics !== 'boolean' ||
+      typeof parsed.marketing !== 'boolean' ||
+      typeof parsed.updatedAt !== 'string'
+    ) {
+      return null;
+    }
+    return {
+      version: CONSENT_VERSION,
+      essential: true,
+      analytics: parsed.analytics,
+      marketing: parsed.marketing,
+      updatedAt: parsed.updatedAt,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function currentConsent(storage?: Storage): ConsentState {
+  return readConsent(storage) ?? DEFAULT_CONSENT;
+}
+
+export function hasConsent(category: ConsentCategory, storage?: Storage): boolean {
+  return category === 'essential' || currentConsent(storage)[category];
+}
+
+/**
+ * Stores a choice and returns it. If storage fails, optional data stays off
+ * and the banner is shown again on the next page.
+ */
+export function saveConsent(choice: ConsentChoice, storage?: Storage, now: number = Date.now()): ConsentState {
+  const state: ConsentState = {
+    version: CONSENT_VERSION,
+    essential: true,
+    analytics: choice.analytics,
+    marketing: choice.marketing,
+    updatedAt: new Date(now).toISOString(),
+  };
+
+  try {
+    (storage ?? window.localStorage).setItem(CONSENT_KEY, JSON.stringify(state));
+  } catch {
+    // Without storage the banner is shown again on the next page
+  }
+  return state;
+}
+
+/** Saves the visitor's choice and notifies onConsentChange() listeners. */
+export function setConsent(choice: ConsentChoice): ConsentState {
+  const state = saveConsent(choice);
+  window.dispatchEvent(new CustomEvent<ConsentState>(CONSENT_EVENT, { detail: state }));
+  return state;
+}
+
+export function onConsentChange(listener: (state: ConsentState) => void): void {
+  window.addEventListener(CONSENT_EVENT, (e) => listener((e as CustomEvent<ConsentState>).detail));
+}
@@ -0,0 +1,58 @@
+/**
+ * Inline, accessible field errors. Each message is rendered right after its
+ * control and linked to it with `aria-describedby`; the control is marked
+ * `aria-invalid` until the error is cleared.
+ */
+
+import type { FieldControl } from './form-controls';
+
+export const FIELD_ERROR_CLASS = 'field-error';
+
+export function fieldErrorId(control: FieldControl): string {
+  return `${control.id || control.name}-error`;
+}
+
+function describedBy(control: FieldControl): string[] {
+  return (control.getAttribute('aria-describedby') ?? '').split(/\s+/).filter(Boolean);
+}
+
+export function setFieldError(control: FieldControl, message: string): void {
+  const id = fieldErrorId(control);
+  let error = document.getElementById(id);
+
+  if (!error) {
+    error = document.createElement('p');
+    error.id = id;
+    error.className = FIELD_ERROR_CLASS;
+    control.insertAdjacentElement('afterend', error);
+  }
+  error.textContent = message;
+
+  control.setAttribute('aria-invalid', 'true');
+  const ids = describedBy(control);
+  if (!ids.includes(id)) {
+    control.setAttribute('aria-describedby', [...ids, id].join(' '));
+  }
+}
+
+export function clearFieldError(control: FieldControl): void {
+  const id = fieldErrorId(control);
+  document.getElementById(id)?.remove();
+
+  control.removeAttribute('aria-invalid');
+  const ids = describedBy(control).filter((value) => value !== id);
+  if (ids.length > 0) {
+    control.setAttribute('aria-describedby', ids.join(' '));
+  } else {
+    control.removeAttribute('aria-describedby');
+  }
+}
+
+export function clearFieldErrors(form: HTMLFormElement): void {
+  form.querySelectorAll<FieldControl>('[aria-invalid="true"]').forEach(clearFieldError);
+}
+
+/** Focuses the first control, in document order, that has an error. */
+export function focusFirstInvalid(form: HTMLFormElement): void {
+  form.querySelector<FieldControl>('[aria-invalid="true"]')?.focus();
+}
@@ -0,0 +1,62 @@
+/**
+ * Named controls of a declarative form and how they map to payload fields.
+ */
+
+import type { FormFields } from './forms-client';
+
+export const HONEYPOT_NAME = '_gotcha';
+
+export type FieldControl = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+export function isFieldControl(element: Element): element is FieldControl {
+  return (
+    element instanceof HTMLInputElement ||
+    element instanceof HTMLSelectElement ||
+    element instanceof HTMLTextAreaElement
+  );
+}
+
+/** Payload key of a control: `data-field` when set, otherwise `name`. */
+export function fieldKey(control: FieldControl): string {
+  return control.dataset.field || control.name;
+}
+
+export function findFieldControl(form: HTMLFormElement, key: string): FieldControl | null {
+  for (const element of Array.from(form.elements)) {
+    if (isFieldControl(element) && element.name !== HONEYPOT_NAME && fieldKey(element) === key) {
+      return element;
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads the form's named controls into payload fields, skipping the
+ * honeypot, disabled controls, buttons and unchecked radios.
+ */
+export function collectFields(form: HTMLFormElement): FormFields {
+  const fields: FormFields = {};
+
+  for (const element of Array.from(form.elements)) {
+    if (!isFieldControl(element) || !element.name || element.name === HONEYPOT_NAME || element.disabled) {
+      continue;
+    }
+
+    const key = fieldKey(element);
+    if (element instanceof HTMLInputElement) {
+      if (['submit', 'button', 'reset', 'file'].includes(element.type)) {
+        continue;
+      }
+      if (element.type === 'checkbox') {
+        fields[key] = element.checked;
+        continue;
+      }
+      if (element.type === 'radio' && !element.checked) {
+        continue;
+      }
+    }
+    fields[key] = element.value;
+  }
+
+  return fields;
+}
@@ -0,0 +1,233 @@
+/**
+ * Declarative forms. Every `<form data-form="<type>">` is posted to the
+ * forms API as `?type=<type>`; its named controls become payload fields
+ * (renamed by `data-field` where the payload key differs from `name`) and
+ * attribution is added by collectAttribution(). Fields are validated live
+ * against FORM_RULES for the form type, and the submit button stays
+ * disabled until they pass. Honeypot, rate limiting, status messages and
+ * the offline queue are shared by all forms:
+ *
+ *   <form data-form="newsletter" data-success-message="Thanks for subscribing!">
+ *     <input type="email" name="email" required>
+ *     <input type="text" name="_gotcha" class="honeypot" tabindex="-1" autocomplete="off">
+ *     <div class="form-status" data-form-status></div>
+ *     <button type="submit">Subscribe</button>
+ *   </form>
+ */
+
+import { currentConsent } from './consent';
+import { clearFieldErrors, focusFirstInvalid, setFieldError } from './field-errors';
+import { collectFields, findFieldControl, HONEYPOT_NAME } from './form-controls';
+import { attachValidation, isFormValid, resetValidation, validateForm } from './form-validation';
+import {
+  buildPayload,
+  collectAttribution,
+  FieldErrors,
+  FormFields,
+  pageFormsEndpoint,
+  retryAfterMessage,
+  submitForm,
+} from './forms-client';
+import { t } from './messages';
+import { checkRateLimit, recordSubmission } from './rate-limiter';
+import {
+  createIdempotencyKey,
+  enqueueSubmission,
+  processQueue,
+  QUEUE_EVENT,
+  QueueEventDetail,
+} from './submission-queue';
+import { FORM_RULES, FormRules } from './validation-rules';
+
+export const FORM_SELECTOR = 'form[data-form]';
+
+export interface FormDefinition {
+  /** Forms API type, sent as `?type=`. */
+  type: string;
+  successMessage: string;
+}
+
+export function readFormDefinition(form: HTMLFormElement): FormDefinition | null {
+  const type = form.dataset.form?.trim();
+  if (!type) {
+    return null;
+  }
+  return { type, successMessage: form.dataset.successMessage || t('form.success') };
+}
+
+function rulesFor(definition: FormDefinition): FormRules {
+  return FORM_RULES[definition.type] ?? {};
+}
+
+/**
+ * Enables the submit button only when the form is valid, not being sent and
+ * not waiting out a 429 Retry-After.
+ */
+function updateSubmitState(form: HTMLFormElement, rules: FormRules): void {
+  const submitBtn = form.querySelector<HTMLButtonElement>('button[type="submit"]');
+  if (!submitBtn) {
+    return;
+  }
+  const busy = form.dataset.busy === 'true';
+  const waiting = Number(form.dataset.retryAfterUntil ?? 0) > Date.now();
+  submitBtn.disabled = busy || waiting || !isFormValid(form, rules);
+}
+
+function successText(definition: FormDefinition, submissionId: string): string {
+  return submissionId ? `${definition.successMessage} ${t('form.confirmation', { id: submissionId })}` : definition.successMessage;
+}
+
+function showStatus(formStatus: HTMLElement, text: string, kind: 'success' | 'error' | 'queued'): void {
+  formStatus.textContent = text;
+  formStatus.className = `form-status ${kind}`;
+  formStatus.style.display = 'block';
+}
+
+/**
+ * Shows API validation errors next to their fields and focuses the first
+ * one. Errors for fields the form does not have go to the status area.
+ */
+function showApiErrors(form: HTMLFormElement, formStatus: HTMLElement, message: string, fieldErrors: FieldErrors): void {
+  const unmatched: string[] = [];
+  for (const [key, fieldMessage] of Object.entries(fieldErrors)) {
+    const control = findFieldControl(form, key);
+    if (control) {
+      setFieldError(control, fieldMessage);
+    } else {
+      unmatched.push(`${key}: ${fieldMessage}`);
+    }
+  }
+
+  if (unmatched.length === Object.keys(fieldErrors).length) {
+    showStatus(formStatus, message, 'error');
+    return;
+  }
+
+  showStatus(formStatus, [t('form.fieldErrors'), ...unmatched].join(' '), 'error');
+  focusFirstInvalid(form);
+}
+
+export async function handleFormSubmit(form: HTMLFormElement, event: Event): Promise<void> {
+  event.preventDefault();
+
+  const definition = readFormDefinition(form);
+  const submitBtn = form.querySelector<HTMLButtonElement>('button[type="submit"]');
+  const formStatus = form.querySelector<HTMLElement>('[data-form-status]');
+  const honeypot = form.querySelector<HTMLInputElement>(`input[name="${HONEYPOT_NAME}"]`);
+
+  if (!definition || !submitBtn || !formStatus) {
+    return;
+  }
+
+  // Honeypot check
+  if (honeypot && honeypot.value) {
+    return;
+  }
+
+  const rules = rulesFor(definition);
+  if (!validateForm(form, rules)) {
+    updateSubmitState(form, rules);
+    return;
+  }
+
+  const apiUrl = pageFormsEndpoint();
+  if (!apiUrl) {
+    showStatus(formStatus, t('form.genericError'), 'error');
+    return;
+  }
+
+  const rateCheck = checkRateLimit();
+  if (!rateCheck.allowed) {
+    showStatus(formStatus, rateCheck.message, 'error');
+    return;
+  }
+
+  const submitText = submitBtn.textContent;
+  form.dataset.busy = 'true';
+  submitBtn.disabled = true;
+  submitBtn.textContent = t('form.sending');
+  formStatus.textContent = '';
+  formStatus.className = 'form-status';
+  clearFieldErrors(form);
+
+  const payload = buildPayload(collectFields(form), collectAttribution(), currentConsent());
+
+  let retryAfterSeconds = 0;
+
+  try {
+    const outcome = await submitForm(apiUrl, definition.type, payload);
+
+    if (outcome.status === 'success') {
+      recordSubmission(); // Track successful submission for rate limiting
+      showStatus(formStatus, successText(definition, outcome.submissionId), 'success');
+      form.reset();
+      resetValidation(form, rules);
+    } else if (outcome.status === 'error') {
+      showApiErrors(form, formStatus, outcome.message, outcome.fieldErrors);
+    } else if (outcome.status === 'rate-limited') {
+      retryAfterSeconds = outcome.retryAfterSeconds;
+      showStatus(formStatus, retryAfterMessage(retryAfterSeconds), 'error');
+    } else {
+      // Keep the message and send it once the connection is back
+      const idempotencyKey = createIdempotencyKey();
+      if (enqueueSubmission({ id: idempotencyKey, type: definition.type, payload })) {
+        form.dataset.queuedSubmission = idempotencyKey;
+        showStatus(formStatus, t('form.queued'), 'queued');
+        form.reset();
+        resetValidation(form, rules);
+        processQueue(apiUrl);
+      } else {
+        showStatus(formStatus, t('form.networkError'), 'error');
+      }
+    }
+  } finally {
+    submitBtn.textContent = submitText;
+    delete form.dataset.busy;
+    // After a 429, keep the button disabled until Retry-After has passed
+    if (retryAfterSeconds > 0) {
+      form.dataset.retryAfterUntil = String(Date.now() + retryAfterSeconds * 1000);
+      setTimeout(() => {
+        delete form.dataset.retryAfterUntil;
+        updateSubmitState(form, rules);
+      }, retryAfterSeconds * 1000);
+    }
+    updateSubmitState(form, rules);
+  }
+}
+
+/**
+ * Updates the status of a form whose queued submission has now been sent
+ * or rejected, if that form is still on the page.
+ */
+function handleQueuedOutcome(root: ParentNode, detail: QueueEventDetail): void {
+  root.querySelectorAll<HTMLFormElement>(FORM_SELECTOR).forEach((form) => {
+    const definition = readFormDefinition(form);
+    const formStatus = form.querySelector<HTMLElement>('[data-form-status]');
+    if (form.dataset.queuedSubmission !== detail.id || !definition || !formStatus) {
+      return;
+    }
+
+    delete form.dataset.queuedSubmission;
+    if (detail.outcome.status === 'success') {
+      showStatus(formStatus, successText(definition, detail.outcome.submissionId), 'success');
+    } else {
+      showStatus(formStatus, detail.outcome.message, 'error');
+    }
+  });
+}
+
+export function initForms(root: ParentNode = document): void {
+  root.querySelectorAll<HTMLFormElement>(FORM_SELECTOR).forEach((form) => {
+    form.addEventListener('submit', (e) => handleFormSubmit(form, e));
+
+    const definition = readFormDefinition(form);
+    if (definition) {
+      const rules = rulesFor(definition);
+      attachValidation(form, rules, () => updateSubmitState(form, rules));
+    }
+  });
+
+  window.addEventListener(QUEUE_EVENT, (e) => {
+    handleQueuedOutcome(root, (e as CustomEvent<QueueEventDetail>).detail);
+  });
+}
@@ -0,0 +1,142 @@
+/**
+ * Live validation for declarative forms using the rules in
+ * validation-rules.ts. A field is checked when it loses focus and, once it
+ * has been visited or shown an error, on every input. Text areas with a
+ * maximum length get a character counter.
+ */
+
+import { clearFieldError, focusFirstInvalid, setFieldError } from './field-errors';
+import { collectFields, fieldKey, findFieldControl, FieldControl, isFieldControl } from './form-controls';
+import { FieldRule, FormRules, validateFields, validateValue } from './validation-rules';
+
+const COUNTER_CLASS = 'char-counter';
+
+function counterId(control: FieldControl): string {
+  return `${control.id || control.name}-counter`;
+}
+
+function controlValue(control: FieldControl): string | boolean {
+  return control instanceof HTMLInputElement && control.type === 'checkbox' ? control.checked : control.value;
+}
+
+function updateCounter(control: FieldControl, rule: FieldRule): void {
+  const counter = document.getElementById(counterId(control));
+  if (counter && rule.maxLength !== undefined) {
+    const length = control.value.length;
+    counter.textContent = `${length} / ${rule.maxLength}`;
+    counter.classList.toggle('over-limit', control.value.trim().length > rule.maxLength);
+  }
+}
+
+function addCounter(control: HTMLTextAreaElement, rule: FieldRule): void {
+  const counter = document.createElement('p');
+  counter.id = counterId(control);
+  counter.className = COUNTER_CLASS;
+  // The counter goes after any error message, which sits right after the field
+  control.parentElement?.appendChild(counter);
+
+  const ids = (control.getAttribute('aria-describedby') ?? '').split(/\s+/).filter(Boolean);
+  control.setAttribute('aria-describedby', [...ids, counter.id].join(' '));
+  updateCounter(control, rule);
+}
+
+/**
+ * Validates one field and shows or clears its message. Returns whether it
+ * is valid.
+ */
+export function checkField(control: FieldControl, rule: FieldRule): boolean {
+  const problem = validateValue(controlValue(control), rule);
+  if (problem) {
+    setFieldError(control, problem);
+  } else {
+    clearFieldError(control);
+  }
+  return problem === null;
+}
+
+export function isFormValid(form: HTMLFormElement, rules: FormRules): boolean {
+  return Object.keys(validateFields(collectFields(form), rules)).length === 0;
+}
+
+/**
+ * Shows every field error at once and focuses the first invalid field, as
+ * on submit. Returns whether the form is valid.
+ */
+export function validateForm(form: HTMLFormElement, rules: FormRules): boolean {
+  let valid = true;
+  for (const [key, rule] of Object.entries(rules)) {
+    const control = findFieldControl(form, key);
+    if (control) {
+      control.dataset.touched = 'true';
+      valid = checkField(control, rule) && valid;
+    }
+  }
+
+  if (!valid) {
+    focusFirstInvalid(form);
+  }
+  return valid;
+}
+
+/** Clears messages, visited state and counters, e.g. after form.reset(). */
+export function resetValidation(form: HTMLFormElement, rules: FormRules): void {
+  for (const [key, rule] of Object.entries(rules)) {
+    const control = findFieldControl(form, key);
+    if (control) {
+      delete control.dataset.touched;
+      clearFieldError(control);
+      updateCounter(control, rule);
+    }
+  }
+}
+
+/**
+ * Wires blur/input validation and counters into a form. `onChange` runs
+ * after every check so the caller can update the submit button.
+ */
+export function attachValidation(form: HTMLFormElement, rules: FormRules, onChange: () => void): void {
+  // Inline messages replace the browser's validation tooltips
+  form.noValidate = true;
+
+  for (const [key, rule] of Object.entries(rules)) {
+    const control = findFieldControl(form, key);
+    if (control instanceof HTMLTextAreaElement && rule.maxLength !== undefined) {
+      addCounter(control, rule);
+    }
+  }
+
+  const ruleFor = (target: EventTarget | null): [FieldControl, FieldRule] | null => {
+    if (!(target instanceof Element) || !isFieldControl(target)) {
+      return null;
+    }
+    const rule = rules[fieldKey(target)];
+    return rule ? [target, rule] : null;
+  };
+
+  form.addEventListener('focusout', (e) => {
+    const match = ruleFor(e.target);
+    if (match) {
+      match[0].dataset.touched = 'true';
+      checkField(...match);
+    }
+    onChange();
+  });
+
+  form.addEventListener('input', (e) => {
+    const match = ruleFor(e.target);
+    if (match) {
+      const [control, rule] = match;
+      updateCounter(control, rule);
+      if (control.dataset.touched || control.getAttribute('aria-invalid') === 'true') {
+        checkField(control, rule);
+      }
+    } else if (e.target instanceof Element && isFieldControl(e.target) && e.target.getAttribute('aria-invalid') === 'true') {
+      // An API error on a field without a rule stays until it is edited
+      clearFieldError(e.target);
+    }
+    onChange();
+  });
+
+  form.addEventListener('change', onChange);
+  onChange();
+}
@@ -0,0 +1,209 @@
+/**
+ * Client for the GadgetCloud forms API (`POST {endpoint}?type=<formType>`).
+ * The payload is flat: form fields plus attribution metadata, which is the
+ * shape the backend validates against.
+ */
+
+import { getReferredBy, getSource, readAttribution, Touch } from './attribution';
+import { ConsentState, hasConsent } from './consent';
+import { plural, t } from './messages';
+
+/** Used when a 429 response has no usable Retry-After header. */
+export const DEFAULT_RETRY_AFTER_SECONDS = 60;
+
+/** Sent in place of `source` and `referrer` without marketing consent. */
+export const UNATTRIBUTED = 'unknown';
+
+/** Form values keyed by payload field; checkboxes map to booleans. */
+export type FormFields = Record<string, string | boolean>;
+
+export interface AttributionFields {
+  source: string;
+  referrer: string;
+  pageUrl: string;
+  referredBy?: string;
+  /** Stored touches, see attribution.ts. */
+  firstTouch?: Touch;
+  lastTouch?: Touch;
+}
+
+/** Form fields plus attribution and the visitor's consent choice. */
+export type FormPayload = AttributionFields & {
+  privacyConsent: ConsentState;
+  [field: string]: string | boolean | Touch | ConsentState | undefined;
+};
+
+/** API validation messages keyed by payload field. */
+export type FieldErrors = Record<string, string>;
+
+export type SubmitOutcome =
+  | { status: 'success'; submissionId: string }
+  | { status: 'error'; httpStatus: number; message: string; fieldErrors: FieldErrors }
+  | { status: 'rate-limited'; retryAfterSeconds: number }
+  | { status: 'network-error' };
+
+// `firstName: Must be at least 2 characters`
+const FIELD_ERROR = /^\s*([A-Za-z_][\w.-]*)\s*:\s*(.+?)\s*$/;
+
+/**
+ * Turns the `forms-api-endpoint` meta value, injected per environment at
+ * build time, into an absolute URL. Returns null when the page has none.
+ */
+export function resolveFormsEndpoint(metaContent: string | null): string | null {
+  const endpoint = metaContent?.trim();
+  if (!endpoint) {
+    return null;
+  }
+  return endpoint.startsWith('http') ? endpoint : `https://${endpoint}`;
+}
+
+/** Forms API URL from the page's `forms-api-endpoint` meta, or null. */
+export function pageFormsEndpoint(): string | null {
+  const endpointMeta = document.querySelector('meta[name="forms-api-endpoint"]');
+  return resolveFormsEndpoint(endpointMeta ? endpointMeta.getAttribute('content') : null);
+}
+
+/**
+ * Attribution for a submission from this page. `source` and `referredBy`
+ * come from the last touch when there is one, so the campaign is not lost
+ * by the time the visitor reaches the form. Without marketing consent only
+ * the page address, minus its query string, is sent.
+ */
+export function collectAttribution(storage?: Storage): AttributionFields {
+  if (!hasConsent('marketing', storage)) {
+    return {
+      source: UNATTRIBUTED,
+      referrer: UNATTRIBUTED,
+      pageUrl: window.location.origin + window.location.pathname,
+    };
+  }
+
+  const { firstTouch, lastTouch } = readAttribution(storage);
+  const attribution: AttributionFields = {
+    source: lastTouch?.source ?? getSource(),
+    referrer: document.referrer || 'direct',
+    pageUrl: window.location.href,
+  };
+
+  const referredBy = getReferredBy() ?? lastTouch?.referredBy;
+  if (referredBy) {
+    attribution.referredBy = referredBy;
+  }
+  if (firstTouch) {
+    attribution.firstTouch = firstTouch;
+  }
+  if (lastTouch) {
+    attribution.lastTouch = lastTouch;
+  }
+
+  return attribution;
+}
+
+export function buildPayload(fields: FormFields, attribution: AttributionFields, consent: ConsentState): FormPayload {
+  const trimmed: FormFields = {};
+  for (const [key, value] of Object.entries(fields)) {
+    trimmed[key] = typeof value === 'string' ? value.trim() : value;
+  }
+  return { ...trimmed, ...attribution, privacyConsent: consent };
+}
+
+export interface SubmitOptions {
+  /**
+   * Sent as `Idempotency-Key` so the backend can discard repeated
+   * deliveries. Only queued retries send one, see submission-queue.ts.
+   */
+  idempotencyKey?: string;
+  fetchImpl?: typeof fetch;
+}
+
+export async function submitForm(
+  apiUrl: string,
+  formType: string,
+  payload: object,
+  options: SubmitOptions = {},
+): Promise<SubmitOutcome> {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (options.idempotencyKey) {
+    headers['Idempotency-Key'] = options.idempotencyKey;
+  }
+
+  let response: Response;
+  try {
+    response = await fetchImpl(`${apiUrl}?type=${encodeURIComponent(formType)}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(payload),
+    });
+  } catch {
+    return { status: 'network-error' };
+  }
+
+  if (response.status === 429) {
+    return { status: 'rate-limited', retryAfterSeconds: parseRetryAfter(response.headers.get('Retry-After')) };
+  }
+
+  const body = await response.json().catch(() => ({}));
+
+  if (response.ok) {
+    return { status: 'success', submissionId: body.submission_id || '' };
+  }
+
+  return { status: 'error', httpStatus: response.status, ...parseErrorBody(body) };
+}
+
+/**
+ * Reads an error response. Field errors come either from an
+ * `errors: {field: message}` object or from `field: message` entries in
+ * `error`/`message`, separated by semicolons or new lines.
+ */
+export function parseErrorBody(body: unknown): { message: string; fieldErrors: FieldErrors } {
+  const data = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const text = [data.error, data.message].find((value): value is string => typeof value === 'string' && value.trim() !== '');
+  const fieldErrors: FieldErrors = {};
+
+  if (data.errors && typeof data.errors === 'object' && !Array.isArray(data.errors)) {
+    for (const [field, value] of Object.entries(data.errors)) {
+      const messages = Array.isArray(value) ? value : [value];
+      const message = messages.filter((item) => typeof item === 'string').join(' ');
+      if (message) {
+        fieldErrors[field] = message;
+      }
+    }
+  } else if (text) {
+    for (const part of text.split(/[;\n]/)) {
+      const match = part.match(FIELD_ERROR);
+      if (match) {
+        fieldErrors[match[1]] = match[2];
+      }
+    }
+  }
+
+  return { message: text ?? t('form.genericError'), fieldErrors };
+}
+
+/**
+ * Seconds to wait from a Retry-After header, given either as seconds or as
+ * an HTTP date.
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number {
+  const value = header?.trim();
+  if (!value) {
+    return DEFAULT_RETRY_AFTER_SECONDS;
+  }
+  if (/^\d+$/.test(value)) {
+    return Number(value);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? DEFAULT_RETRY_AFTER_SECONDS : Math.max(Math.ceil((date - now) / 1000), 0);
+}
+
+export function retryAfterMessage(seconds: number): string {
+  if (seconds < 60) {
+    return plural('form.retrySeconds', seconds);
+  }
+  return plural('form.retryMinutes', Math.ceil(seconds / 60));
+}
@@ -0,0 +1,77 @@
+/**
+ * The header's language switcher. A language picked there is remembered,
+ * and pages reached by following a link on the site open in it when they
+ * have a translation: switcher links to a translation of the current page
+ * carry `hreflang`, the ones that fall back to another locale's home page
+ * do not. A page opened from outside the site, such as a shared link or a
+ * search result, stays in the language of its URL.
+ */
+
+export const LOCALE_KEY = 'gc_locale';
+
+/** The language the visitor last picked, or null. */
+export function readLocale(storage?: Storage): string | null {
+  try {
+    return (storage ?? window.localStorage).getItem(LOCALE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function saveLocale(locale: string, storage?: Storage): void {
+  try {
+    (storage ?? window.localStorage).setItem(LOCALE_KEY, locale);
+  } catch {
+    // Without storage the choice only lasts for the page it leads to
+  }
+}
+
+/** How the visitor reached the page. */
+export interface PageVisit {
+  /** Language of the page. */
+  locale: string;
+  /** `document.referrer`: empty when the URL was typed, bookmarked or opened from an app. */
+  referrer: string;
+  /** `location.origin` of the page. */
+  origin: string;
+}
+
+/** Whether the visitor came from another page of this site. */
+export function isInternalVisit(visit: PageVisit): boolean {
+  try {
+    return visit.referrer !== '' && new URL(visit.referrer).origin === visit.origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Where to send a visitor who picked `preferred`: the translation's link,
+ * or null to stay. Only visits from within the site move, so a URL the
+ * visitor opened on purpose is always shown in its own language.
+ */
+export function preferredPageLink(root: ParentNode, visit: PageVisit, preferred: string | null): string | null {
+  if (!preferred || preferred === visit.locale || !isInternalVisit(visit)) {
+    return null;
+  }
+  const link = Array.from(root.querySelectorAll<HTMLAnchorElement>('a[data-locale][hreflang]')).find(
+    (candidate) => candidate.dataset.locale === preferred,
+  );
+  return link ? link.href : null;
+}
+
+/**
+ * Called as soon as the script runs rather than on DOMContentLoaded, so a
+ * remembered language replaces the page as early as possible.
+ */
+export function initLanguageSwitcher(): void {
+  document.querySelectorAll<HTMLAnchorElement>('a[data-locale]').forEach((link) => {
+    link.addEventListener('click', () => saveLocale(link.dataset.locale!));
+  });
+
+  const visit = { locale: document.documentElement.lang, referrer: document.referrer, origin: window.location.origin };
+  const target = preferredPageLink(document, visit, readLocale());
+  if (target) {
+    window.location.replace(target);
+  }
+}
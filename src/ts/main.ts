@@ -0,0 +1,25 @@
+/**
+ * Site entry point, bundled to js/main.js by tools/build.ts.
+ */
+
+import { initAttribution } from './attribution';
+import { initConsentBanner } from './consent-banner';
+import { initForms } from './form-engine';
+import { pageFormsEndpoint } from './forms-client';
+import { initLanguageSwitcher } from './language';
+import { initHeaderScroll, initMobileNav, initSmoothScroll } from './navigation';
+import { initPricing } from './pricing';
+import { initSubmissionQueue } from './submission-queue';
+
+initAttribution();
+initLanguageSwitcher();
+
+document.addEventListener('DOMContentLoaded', () => {
+  initConsentBanner();
+  initMobileNav();
+  initPricing();
+  initSmoothScroll();
+  initHeaderScroll();
+  initForms();
+  initSubmissionQueue(pageFormsEndpoint());
+});
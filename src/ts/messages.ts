@@ -0,0 +1,79 @@
+/**
+ * Text the scripts show: form status and validation messages and pricing
+ * labels. English is built in; translated pages carry their locale's
+ * messages from content/locales/ in a JSON block that tools/build.ts writes
+ * before the script, and anything missing there falls back to English.
+ */
+
+/** Id of the `<script type="application/json">` block with the page's messages. */
+export const PAGE_MESSAGES_ID = 'pageMessages';
+
+export const MESSAGES = {
+  'form.sending': 'Sending...',
+  'form.success': 'Thank you for your message! We will get back to you soon.',
+  'form.confirmation': 'Confirmation: {id}',
+  'form.genericError': 'Something went wrong. Please try again.',
+  'form.networkError': 'Unable to send message. Please check your connection and try again.',
+  'form.queued': "You appear to be offline. Your message has been saved and will be sent automatically once you're back online.",
+  'form.fieldErrors': 'Please correct the highlighted fields.',
+  'form.retrySeconds.one': 'Too many submissions. Please try again in {count} second.',
+  'form.retrySeconds.other': 'Too many submissions. Please try again in {count} seconds.',
+  'form.retryMinutes.one': 'Too many submissions. Please try again in {count} minute.',
+  'form.retryMinutes.other': 'Too many submissions. Please try again in {count} minutes.',
+  'validation.required': '{label} is required.',
+  'validation.minLength': '{label} must be at least {min} characters.',
+  'validation.maxLength': '{label} must be at most {max} characters.',
+  'validation.email': 'Please enter a valid email address.',
+  'validation.disposableEmail': 'Please use a permanent email address, not a disposable one.',
+  'validation.integer': '{label} must be a whole number.',
+  'validation.integerRange': '{label} must be a whole number from {min} to {max}.',
+  'validation.option': 'Please choose a valid {label} option.',
+  'pricing.perMonth': '/month',
+  'pricing.perYear': '/year',
+  'pricing.savings': 'Save {amount} a year ({percent}%)',
+} as const;
+
+export type MessageKey = keyof typeof MESSAGES;
+
+/** Keys with `.one` and `.other` forms, see plural(). */
+export type PluralKey = 'form.retrySeconds' | 'form.retryMinutes';
+
+/** Prefix of the translated form field labels, e.g. `label.First name`. */
+export const LABEL_PREFIX = 'label.';
+
+export type Messages = Record<string, string>;
+
+let page: { messages: Messages; locale: string } | undefined;
+
+function pageCatalog(): { messages: Messages; locale: string } {
+  if (page === undefined) {
+    const block = typeof document === 'undefined' ? null : document.getElementById(PAGE_MESSAGES_ID);
+    page = {
+      messages: block?.textContent ? (JSON.parse(block.textContent) as Messages) : {},
+      locale: block ? document.documentElement.lang : 'en',
+    };
+  }
+  return page;
+}
+
+/** Replaces the page's messages and locale, e.g. in tests. */
+export function useMessages(messages: Messages, locale: string): void {
+  page = { messages, locale };
+}
+
+/** The message in the page's locale, with `{name}` placeholders filled in. */
+export function t(key: MessageKey, params: Record<string, string | number> = {}): string {
+  const template = pageCatalog().messages[key] ?? MESSAGES[key];
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in params ? String(params[name]) : placeholder));
+}
+
+/** The `.one` or `.other` form of a message for `count`; `{count}` is filled in. */
+export function plural(key: PluralKey, count: number): string {
+  const form = new Intl.PluralRules(pageCatalog().locale).select(count) === 'one' ? 'one' : 'other';
+  return t(`${key}.${form}`, { count });
+}
+
+/** A form field label (FieldRule.label) in the page's locale. */
+export function fieldLabel(label: string): string {
+  return pageCatalog().messages[`${LABEL_PREFIX}${label}`] ?? label;
+}
@@ -0,0 +1,105 @@
+/**
+ * Header navigation behavior: mobile menu toggle (keyboard accessible),
+ * smooth scrolling for in-page anchors and the header background once the
+ * page is scrolled.
+ */
+
+const HEADER_SCROLL_OFFSET = 50;
+
+export function initMobileNav(): void {
+  const navToggle = document.querySelector<HTMLButtonElement>('.nav-toggle');
+  const navMenu = document.querySelector<HTMLElement>('.nav-menu');
+
+  if (!navToggle || !navMenu) {
+    return;
+  }
+
+  const isOpen = (): boolean => navMenu.classList.contains('active');
+
+  const setOpen = (open: boolean): void => {
+    navMenu.classList.toggle('active', open);
+    navToggle.classList.toggle('active', open);
+    navToggle.setAttribute('aria-expanded', String(open));
+  };
+
+  const closeMenu = (): void => {
+    setOpen(false);
+  };
+
+  navToggle.addEventListener('click', () => {
+    const open = !isOpen();
+    setOpen(open);
+    // Keyboard users continue in the menu they just opened
+    if (open) {
+      navMenu.querySelector<HTMLElement>('a')?.focus();
+    }
+  });
+
+  // Escape closes the menu and returns focus to the toggle
+  document.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape' && isOpen()) {
+      closeMenu();
+      navToggle.focus();
+    }
+  });
+
+  // Close menu when clicking outside
+  document.addEventListener('click', (e) => {
+    const target = e.target as Node;
+    if (!navToggle.contains(target) && !navMenu.contains(target)) {
+      closeMenu();
+    }
+  });
+
+  // Close menu when focus moves elsewhere, e.g. tabbing past the last link
+  navMenu.addEventListener('focusout', (e) => {
+    const next = e.relatedTarget as Node | null;
+    if (next && !navMenu.contains(next) && next !== navToggle) {
+      closeMenu();
+    }
+  });
+
+  // Close menu when clicking a link
+  navMenu.querySelectorAll('a').forEach((link) => {
+    link.addEventListener('click', closeMenu);
+  });
+}
+
+/**
+ * Moves keyboard focus to an in-page link target, as following the link
+ * without the smooth scroll would, e.g. for the "Skip to content" link.
+ */
+function focusTarget(target: HTMLElement): void {
+  if (target.tabIndex < 0 && !target.hasAttribute('tabindex')) {
+    target.setAttribute('tabindex', '-1');
+  }
+  target.focus({ preventScroll: true });
+}
+
+export function initSmoothScroll(): void {
+  document.querySelectorAll<HTMLAnchorElement>('a[href^="#"]').forEach((anchor) => {
+    anchor.addEventListener('click', (e) => {
+      e.preventDefault();
+      const href = anchor.getAttribute('href');
+      const target = href ? document.querySelector(href) : null;
+      if (target instanceof HTMLElement) {
+        target.scrollIntoView({
+          behavior: 'smooth',
+          block: 'start',
+        });
+        focusTarget(target);
+      }
+    });
+  });
+}
+
+export function initHeaderScroll(): void {
+  const header = document.querySelector('.header');
+  if (!header) {
+    return;
+  }
+
+  window.addEventListener('scroll', () => {
+    header.classList.toggle('scrolled', window.scrollY > HEADER_SCROLL_OFFSET);
+  });
+}
@@ -0,0 +1,171 @@
+/**
+ * Plan pricing on the products page: switches the plan cards between
+ * monthly and annual billing and between currencies, and keeps each signup
+ * button's deep link in step with the choice and the visitor's attribution.
+ * tools/site/pricing.ts renders the markup, showing monthly prices in the
+ * first currency, with the same helpers.
+ */
+
+import { readAttribution, Touch } from './attribution';
+import { hasConsent } from './consent';
+import { t } from './messages';
+
+export type BillingPeriod = 'monthly' | 'annual';
+
+/** Price per currency for each billing period; annual prices are per year. */
+export type PlanPrices = Record<BillingPeriod, Record<string, number>>;
+
+/** `/month` or `/year` after a price, in the page's locale. */
+export function periodLabel(billing: BillingPeriod): string {
+  return billing === 'monthly' ? t('pricing.perMonth') : t('pricing.perYear');
+}
+
+/** What a visitor picked, sent to signup as `plan`, `billing` and `currency`. */
+export interface PlanChoice {
+  plan: string;
+  billing: BillingPeriod;
+  currency: string;
+}
+
+// Each currency reads best in its home format, e.g. ₹2,990 and $40
+const CURRENCY_LOCALES: Readonly<Record<string, string>> = {
+  INR: 'en-IN',
+  USD: 'en-US',
+};
+
+export function formatPrice(amount: number, currency: string): string {
+  const fractionDigits = Number.isInteger(amount) ? 0 : 2;
+  return new Intl.NumberFormat(CURRENCY_LOCALES[currency] ?? 'en', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(amount);
+}
+
+/** What annual billing saves over twelve monthly payments. */
+export function annualSavings(prices: PlanPrices, currency: string): number {
+  return Math.max(0, prices.monthly[currency] * 12 - prices.annual[currency]);
+}
+
+/** Annual savings as a whole percentage of twelve monthly payments. */
+export function annualSavingsPercent(prices: PlanPrices, currency: string): number {
+  const monthlyTotal = prices.monthly[currency] * 12;
+  return monthlyTotal > 0 ? Math.round((annualSavings(prices, currency) / monthlyTotal) * 100) : 0;
+}
+
+/** Shown under an annual price; empty when annual billing saves nothing. */
+export function savingsText(prices: PlanPrices, currency: string): string {
+  const savings = annualSavings(prices, currency);
+  return savings > 0 ? t('pricing.savings', { amount: formatPrice(savings, currency), percent: annualSavingsPercent(prices, currency) }) : '';
+}
+
+/**
+ * Signup deep link for a plan. The campaign of the visitor's last touch is
+ * passed on so the account is attributed like a form submission; without
+ * a touch only the choice is sent.
+ */
+export function signupUrl(base: string, choice: PlanChoice, touch?: Touch): string {
+  const url = new URL(base);
+  url.searchParams.set('plan', choice.plan);
+  url.searchParams.set('billing', choice.billing);
+  url.searchParams.set('currency', choice.currency);
+
+  if (touch) {
+    url.searchParams.set('source', touch.source);
+    for (const [key, value] of Object.entries(touch.utm)) {
+      url.searchParams.set(key, value);
+    }
+    for (const key of ['referredBy', 'gclid', 'fbclid'] as const) {
+      const value = touch[key];
+      if (value) {
+        url.searchParams.set(key, value);
+      }
+    }
+  }
+  return url.toString();
+}
+
+/** Attribution is marketing data, so it is only passed on with consent. */
+function currentTouch(): Touch | undefined {
+  return hasConsent('marketing') ? readAttribution().lastTouch : undefined;
+}
+
+/**
+ * A quote button opens the quote form, which stays collapsed until then
+ * unless the page was opened at the form, e.g. from a plan's quote_link.
+ */
+function initQuoteButtons(root: HTMLElement): void {
+  root.querySelectorAll<HTMLAnchorElement>('a[data-quote]').forEach((link) => {
+    const form = document.getElementById(link.getAttribute('aria-controls') ?? '');
+    if (!form) {
+      return;
+    }
+
+    const setOpen = (open: boolean): void => {
+      form.hidden = !open;
+      link.setAttribute('aria-expanded', String(open));
+    };
+
+    setOpen(window.location.hash === `#${form.id}`);
+    link.addEventListener('click', () => setOpen(true));
+  });
+}
+
+/**
+ * Wires the billing and currency switches of the `[data-pricing]` section.
+ * Must run before initSmoothScroll so a quote form is open before it is
+ * scrolled to.
+ */
+export function initPricing(): void {
+  const root = document.querySelector<HTMLElement>('[data-pricing]');
+  if (!root) {
+    return;
+  }
+
+  const billingButtons = Array.from(root.querySelectorAll<HTMLButtonElement>('button[data-billing]'));
+  const currencyButtons = Array.from(root.querySelectorAll<HTMLButtonElement>('button[data-currency]'));
+  const signupLinks = Array.from(root.querySelectorAll<HTMLAnchorElement>('a[data-signup]'));
+  let billing: BillingPeriod = 'monthly';
+  let currency = currencyButtons[0]?.dataset.currency ?? '';
+
+  const updateLink = (link: HTMLAnchorElement): void => {
+    link.href = signupUrl(link.dataset.signup!, { plan: link.dataset.plan!, billing, currency }, currentTouch());
+  };
+
+  const render = (): void => {
+    billingButtons.forEach((button) => button.setAttribute('aria-pressed', String(button.dataset.billing === billing)));
+    currencyButtons.forEach((button) => button.setAttribute('aria-pressed', String(button.dataset.currency === currency)));
+
+    root.querySelectorAll<HTMLElement>('[data-prices]').forEach((card) => {
+      const prices: PlanPrices = JSON.parse(card.dataset.prices!);
+      const savings = card.querySelector<HTMLElement>('.pricing-savings');
+      card.querySelector('.pricing-amount')!.textContent = formatPrice(prices[billing][currency], currency);
+      card.querySelector('.pricing-period')!.textContent = periodLabel(billing);
+      if (savings) {
+        savings.textContent = billing === 'annual' ? savingsText(prices, currency) : '';
+        savings.hidden = savings.textContent === '';
+      }
+    });
+    signupLinks.forEach(updateLink);
+  };
+
+  billingButtons.forEach((button) =>
+    button.addEventListener('click', () => {
+      billing = button.dataset.billing as BillingPeriod;
+      render();
+    }),
+  );
+  currencyButtons.forEach((button) =>
+    button.addEventListener('click', () => {
+      currency = button.dataset.currency!;
+      render();
+    }),
+  );
+  // Consent may have changed since the last render
+  signupLinks.forEach((link) => link.addEventListener('click', () => updateLink(link)));
+
+  initQuoteButtons(root);
+  root.querySelector<HTMLElement>('.pricing-controls')?.removeAttribute('hidden');
+  render();
+}
@@ -0,0 +1,55 @@
+/**
+ * Client-side rate limiting for form submissions. Timestamps of successful
+ * submissions are kept in localStorage; the server enforces its own limit,
+ * so any storage failure allows the request through.
+ */
+
+import { plural } from './messages';
+
+export const RATE_LIMIT_KEY = 'gc_form_submissions';
+export const RATE_LIMIT_MAX = 10;
+export const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+
+export type RateLimitResult =
+  | { allowed: true; submissions: number[] }
+  | { allowed: false; message: string };
+
+function readSubmissions(storage: Storage, now: number): number[] {
+  const stored = storage.getItem(RATE_LIMIT_KEY);
+  const submissions: number[] = stored ? JSON.parse(stored) : [];
+
+  // Remove expired entries
+  return submissions.filter((ts) => now - ts < RATE_LIMIT_WINDOW_MS);
+}
+
+export function checkRateLimit(storage?: Storage, now: number = Date.now()): RateLimitResult {
+  try {
+    const submissions = readSubmissions(storage ?? window.localStorage, now);
+
+    if (submissions.length >= RATE_LIMIT_MAX) {
+      const oldestSubmission = Math.min(...submissions);
+      const resetTime = oldestSubmission + RATE_LIMIT_WINDOW_MS;
+      const minutes = Math.ceil((resetTime - now) / 60000);
+      return {
+        allowed: false,
+        message: plural('form.retryMinutes', minutes),
+      };
+    }
+
+    return { allowed: true, submissions };
+  } catch {
+    // If localStorage fails, allow the request (server will still rate limit)
+    return { allowed: true, submissions: [] };
+  }
+}
+
+export function recordSubmission(storage?: Storage, now: number = Date.now()): void {
+  try {
+    const store = storage ?? window.localStorage;
+    const submissions = readSubmissions(store, now);
+    submissions.push(now);
+    store.setItem(RATE_LIMIT_KEY, JSON.stringify(submissions));
+  } catch {
+    // Ignore localStorage errors
+  }
+}
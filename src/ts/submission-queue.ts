@@ -0,0 +1,203 @@
+/**
+ * Offline queue for form submissions. A submission that fails with a
+ * network error is kept in localStorage and retried with exponential
+ * backoff on the `online` event and on the next page load. An entry gets an
+ * idempotency key when it is queued and every retry sends it, so the
+ * backend can discard duplicates if an earlier retry did reach it. First
+ * attempts go without the header, so only retries depend on the forms API
+ * allowing it in `Access-Control-Allow-Headers`.
+ */
+
+import { FormPayload, submitForm } from './forms-client';
+import { recordSubmission } from './rate-limiter';
+
+export const QUEUE_KEY = 'gc_form_queue';
+export const QUEUE_MAX_ENTRIES = 20;
+export const QUEUE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+export const RETRY_BASE_MS = 2000;
+export const RETRY_MAX_MS = 5 * 60 * 1000; // 5 minutes
+
+/** Dispatched on window when a queued submission is sent or rejected. */
+export const QUEUE_EVENT = 'gc:queued-submission';
+
+export interface QueuedSubmission {
+  /** Idempotency key, also used to identify the entry. */
+  id: string;
+  type: string;
+  payload: FormPayload;
+  queuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+export interface QueueEventDetail {
+  id: string;
+  type: string;
+  outcome: { status: 'success'; submissionId: string } | { status: 'error'; message: string };
+}
+
+export interface FlushResult {
+  sent: Array<{ entry: QueuedSubmission; submissionId: string }>;
+  rejected: Array<{ entry: QueuedSubmission; message: string }>;
+  pending: QueuedSubmission[];
+}
+
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed retries:
+ * 2s, 4s, 8s, ... capped at 5 minutes.
+ */
+export function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** attempts, RETRY_MAX_MS);
+}
+
+function writeQueue(store: Storage, entries: QueuedSubmission[]): void {
+  if (entries.length === 0) {
+    store.removeItem(QUEUE_KEY);
+  } else {
+    store.setItem(QUEUE_KEY, JSON.stringify(entries));
+  }
+}
+
+export function readQueue(storage?: Storage, now: number = Date.now()): QueuedSubmission[] {
+  try {
+    const stored = (storage ?? window.localStorage).getItem(QUEUE_KEY);
+    const entries: QueuedSubmission[] = stored ? JSON.parse(stored) : [];
+
+    // Remove expired entries
+    return entries.filter((entry) => now - entry.queuedAt < QUEUE_MAX_AGE_MS);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Saves a submission for later delivery. Returns false when storage is
+ * unavailable, in which case the submission cannot be kept.
+ */
+export function enqueueSubmission(
+  submission: Pick<QueuedSubmission, 'id' | 'type' | 'payload'>,
+  storage?: Storage,
+  now: number = Date.now(),
+): boolean {
+  try {
+    const store = storage ?? window.localStorage;
+    const entries = readQueue(store, now).filter((entry) => entry.id !== submission.id);
+    entries.push({ ...submission, queuedAt: now, attempts: 0, nextAttemptAt: now + retryDelay(0) });
+    writeQueue(store, entries.slice(-QUEUE_MAX_ENTRIES));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export interface FlushOptions {
+  /** Also retry entries whose backoff has not elapsed, e.g. once back online. */
+  force?: boolean;
+  storage?: Storage;
+  now?: number;
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Sends every entry that is due, or all of them with `force`. Sent entries
+ * and 4xx rejections leave the queue; network failures and 5xx responses,
+ * such as while the API recovers from an outage, are rescheduled, and so
+ * are 429 responses, no earlier than their Retry-After.
+ */
+export async function flushQueue(apiUrl: string, options: FlushOptions = {}): Promise<FlushResult> {
+  const store = options.storage ?? window.localStorage;
+  const now = options.now ?? Date.now();
+  const result: FlushResult = { sent: [], rejected: [], pending: [] };
+
+  for (const entry of readQueue(store, now)) {
+    if (!options.force && entry.nextAttemptAt > now) {
+      result.pending.push(entry);
+      continue;
+    }
+
+    const outcome = await submitForm(apiUrl, entry.type, entry.payload, {
+      idempotencyKey: entry.id,
+      fetchImpl: options.fetchImpl,
+    });
+
+    if (outcome.status === 'success') {
+      result.sent.push({ entry, submissionId: outcome.submissionId });
+    } else if (outcome.status === 'error' && outcome.httpStatus < 500) {
+      result.rejected.push({ entry, message: outcome.message });
+    } else if (outcome.status === 'rate-limited') {
+      const attempts = entry.attempts + 1;
+      const delay = Math.max(outcome.retryAfterSeconds * 1000, retryDelay(attempts));
+      result.pending.push({ ...entry, attempts, nextAttemptAt: now + delay });
+    } else {
+      const attempts = entry.attempts + 1;
+      result.pending.push({ ...entry, attempts, nextAttemptAt: now + retryDelay(attempts) });
+    }
+  }
+
+  try {
+    // Re-read so that entries queued while this flush was running are kept
+    const done = new Set([...result.sent, ...result.rejected].map(({ entry }) => entry.id));
+    const updated = new Map(result.pending.map((entry) => [entry.id, entry]));
+    const entries = readQueue(store, now)
+      .filter((entry) => !done.has(entry.id))
+      .map((entry) => updated.get(entry.id) ?? entry);
+    writeQueue(store, entries);
+  } catch {
+    // Ignore localStorage errors
+  }
+
+  return result;
+}
+
+let flushing = false;
+let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+function announce(detail: QueueEventDetail): void {
+  window.dispatchEvent(new CustomEvent<QueueEventDetail>(QUEUE_EVENT, { detail }));
+}
+
+/**
+ * Flushes the queue now and schedules a retry for whatever is left,
+ * including entries queued while an earlier call was still flushing.
+ */
+export async function processQueue(apiUrl: string, force = false): Promise<void> {
+  if (flushing) {
+    return;
+  }
+
+  flushing = true;
+  try {
+    const result = await flushQueue(apiUrl, { force });
+    for (const { entry, submissionId } of result.sent) {
+      recordSubmission(); // Track successful submission for rate limiting
+      announce({ id: entry.id, type: entry.type, outcome: { status: 'success', submissionId } });
+    }
+    for (const { entry, message } of result.rejected) {
+      announce({ id: entry.id, type: entry.type, outcome: { status: 'error', message } });
+    }
+  } finally {
+    flushing = false;
+  }
+
+  clearTimeout(retryTimer);
+  const pending = readQueue();
+  if (pending.length > 0) {
+    const nextAttemptAt = Math.min(...pending.map((entry) => entry.nextAttemptAt));
+    retryTimer = setTimeout(() => processQueue(apiUrl), Math.max(nextAttemptAt - Date.now(), 0));
+  }
+}
+
+export function initSubmissionQueue(apiUrl: string | null): void {
+  if (!apiUrl) {
+    return;
+  }
+  window.addEventListener('online', () => processQueue(apiUrl, true));
+  processQueue(apiUrl);
+}
@@ -0,0 +1,125 @@
+/**
+ * Validation rules for every form type, keyed by payload field. They mirror
+ * the constraints in the form markup (tests/unit/validation-rules.spec.ts
+ * checks that they agree) and have no DOM dependency, so the same
+ * definitions can validate payloads outside the browser.
+ */
+
+import { DISPOSABLE_EMAIL_DOMAINS } from './disposable-domains';
+import type { FieldErrors, FormFields } from './forms-client';
+import { fieldLabel, t } from './messages';
+
+export interface FieldRule {
+  /** Used in messages, e.g. "First name is required." */
+  label: string;
+  required?: boolean;
+  /** Length limits apply to the trimmed value. */
+  minLength?: number;
+  maxLength?: number;
+  email?: boolean;
+  /** Rejects addresses at DISPOSABLE_EMAIL_DOMAINS; implies `email`. */
+  blockDisposable?: boolean;
+  /** Whole number between min and max. */
+  integer?: boolean;
+  min?: number;
+  max?: number;
+  /** Allowed values, for selects. */
+  oneOf?: readonly string[];
+}
+
+export type FormRules = Readonly<Record<string, FieldRule>>;
+
+const EMAIL = /^[A-Za-z0-9.!#$%&'*+/=?^_`{|}~-]+@[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?)*\.[A-Za-z]{2,63}$/;
+
+const workEmail: FieldRule = { label: 'Email', required: true, maxLength: 255, email: true, blockDisposable: true };
+
+export const FORM_RULES: Readonly<Record<string, FormRules>> = {
+  contacts: {
+    firstName: { label: 'First name', required: true, minLength: 2, maxLength: 50 },
+    lastName: { label: 'Last name', required: true, minLength: 2, maxLength: 50 },
+    email: workEmail,
+    subject: { label: 'Subject', required: true, minLength: 5, maxLength: 100 },
+    message: { label: 'Message', required: true, minLength: 10, maxLength: 1000 },
+  },
+  'demo-requests': {
+    name: { label: 'Name', required: true, minLength: 2, maxLength: 100 },
+    email: workEmail,
+    company: { label: 'Company', required: true, minLength: 2, maxLength: 100 },
+    devices: { label: 'Devices', required: true, oneOf: ['1-10', '11-50', '51-200', '200+'] },
+    message: { label: 'Notes', maxLength: 1000 },
+  },
+  'enterprise-quotes': {
+    name: { label: 'Name', required: true, minLength: 2, maxLength: 100 },
+    email: workEmail,
+    company: { label: 'Company', required: true, minLength: 2, maxLength: 100 },
+    seats: { label: 'Team members', required: true, integer: true, min: 1, max: 100000 },
+    message: { label: 'Requirements', required: true, minLength: 10, maxLength: 1000 },
+  },
+  newsletter: {
+    email: workEmail,
+  },
+};
+
+export function isValidEmail(value: string): boolean {
+  return value.length <= 254 && EMAIL.test(value);
+}
+
+export function isDisposableEmail(value: string): boolean {
+  const domain = value.slice(value.lastIndexOf('@') + 1).toLowerCase();
+  const labels = domain.split('.');
+  return labels.some((_, index) => DISPOSABLE_EMAIL_DOMAINS.has(labels.slice(index).join('.')));
+}
+
+/**
+ * Checks one value against its rule and returns the first problem, or null.
+ * Empty optional fields are valid.
+ */
+export function validateValue(value: string | boolean | undefined, rule: FieldRule): string | null {
+  const label = fieldLabel(rule.label);
+  if (typeof value === 'boolean') {
+    return rule.required && !value ? t('validation.required', { label }) : null;
+  }
+
+  const text = (value ?? '').trim();
+  if (text === '') {
+    return rule.required ? t('validation.required', { label }) : null;
+  }
+
+  if (rule.minLength !== undefined && text.length < rule.minLength) {
+    return t('validation.minLength', { label, min: rule.minLength });
+  }
+  if (rule.maxLength !== undefined && text.length > rule.maxLength) {
+    return t('validation.maxLength', { label, max: rule.maxLength });
+  }
+  if ((rule.email || rule.blockDisposable) && !isValidEmail(text)) {
+    return t('validation.email');
+  }
+  if (rule.blockDisposable && isDisposableEmail(text)) {
+    return t('validation.disposableEmail');
+  }
+  if (rule.integer) {
+    const number = Number(text);
+    const inRange = (rule.min === undefined || number >= rule.min) && (rule.max === undefined || number <= rule.max);
+    if (!/^\d+$/.test(text) || !inRange) {
+      return rule.min !== undefined && rule.max !== undefined
+        ? t('validation.integerRange', { label, min: rule.min, max: rule.max })
+        : t('validation.integer', { label });
+    }
+  }
+  if (rule.oneOf && !rule.oneOf.includes(text)) {
+    return t('validation.option', { label: label.toLowerCase() });
+  }
+
+  return null;
+}
+
+export function validateFields(fields: FormFields, rules: FormRules): FieldErrors {
+  const errors: FieldErrors = {};
+  for (const [key, rule] of Object.entries(rules)) {
+    const problem = validateValue(fields[key], rule);
+    if (problem) {
+      errors[key] = problem;
+    }
+  }
+  return errors;
+}
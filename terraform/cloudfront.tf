@@ -63,6 +63,10 @@ resource "aws_cloudfront_cache_policy" "assets_cache" {
 }
 
 # Response Headers Policy for Security Headers
+# Shared by all distributions. The Content-Security-Policy differs per
+# environment (forms API host), so it is rendered into each page by the
+# build (tools/site/csp.ts); keep the headers below in step with
+# SECURITY_HEADERS there, which tests/unit/csp.spec.ts checks.
 resource "aws_cloudfront_response_headers_policy" "security_headers" {
   name    = "gc-security-headers"
   comment = "Security headers for GadgetCloud site"
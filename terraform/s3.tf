@@ -55,6 +55,19 @@ resource "aws_s3_bucket_policy" "production" {
             "AWS:SourceArn" = aws_cloudfront_distribution.production.arn
           }
         }
+      },
+      {
+        # Kept releases and deploy records (PRIVATE_PREFIXES in tools/deploy/plan.ts)
+        Sid    = "DenyCloudFrontDeployFiles"
+        Effect = "Deny"
+        Principal = {
+          Service = "cloudfront.amazonaws.com"
+        }
+        Action   = "s3:GetObject"
+        Resource = [
+          "${aws_s3_bucket.production.arn}/_deploy/*",
+          "${aws_s3_bucket.production.arn}/releases/*",
+        ]
       }
     ]
   })
@@ -117,6 +130,19 @@ resource "aws_s3_bucket_policy" "staging" {
             "AWS:SourceArn" = aws_cloudfront_distribution.staging.arn
           }
         }
+      },
+      {
+        # Kept releases and deploy records (PRIVATE_PREFIXES in tools/deploy/plan.ts)
+        Sid    = "DenyCloudFrontDeployFiles"
+        Effect = "Deny"
+        Principal = {
+          Service = "cloudfront.amazonaws.com"
+        }
+        Action   = "s3:GetObject"
+        Resource = [
+          "${aws_s3_bucket.staging.arn}/_deploy/*",
+          "${aws_s3_bucket.staging.arn}/releases/*",
+        ]
       }
     ]
   })
@@ -0,0 +1,100 @@
+import { test, expect, Page } from '@playwright/test';
+import AxeBuilder from '@axe-core/playwright';
+import { manifestPages } from './manifest-pages';
+
+/** WCAG 2.1 A and AA, plus axe best practices such as landmarks and heading order. */
+const AXE_TAGS = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa', 'best-practice'];
+
+/** One line per violation with the selectors of the offending nodes. */
+async function auditPage(page: Page): Promise<string[]> {
+  const results = await new AxeBuilder({ page }).withTags(AXE_TAGS).analyze();
+  return results.violations.map((violation) => {
+    const targets = violation.nodes.map((node) => `    ${node.target.join(' ')}`);
+    return [`${violation.id} (${violation.impact}): ${violation.help}`, ...targets].join('\n');
+  });
+}
+
+test.describe('Accessibility audit', () => {
+  for (const item of manifestPages) {
+    test(`${item.link} has no axe violations`, async ({ page }) => {
+      await page.goto(`/${item.link}`);
+      expect(await auditPage(page)).toEqual([]);
+    });
+  }
+
+  test('the error page has no axe violations', async ({ page }) => {
+    await page.goto('/error.html');
+    expect(await auditPage(page)).toEqual([]);
+  });
+});
+
+test.describe('Keyboard navigation', () => {
+  test('the first Tab reaches the skip link, which moves focus to the main content', async ({ page, browserName }) => {
+    test.skip(browserName === 'webkit', 'WebKit only tabs to links with Option+Tab');
+    await page.goto('/');
+
+    await page.keyboard.press('Tab');
+    const skipLink = page.locator('.skip-link');
+    await expect(skipLink).toBeFocused();
+    await expect(skipLink).toBeInViewport();
+
+    await page.keyboard.press('Enter');
+    await expect(page.locator('main#main')).toBeFocused();
+  });
+
+  test('the desktop navigation is reachable with Tab', async ({ page, isMobile, browserName }) => {
+    test.skip(isMobile, 'The mobile menu is covered below');
+    test.skip(browserName === 'webkit', 'WebKit only tabs to links with Option+Tab');
+    await page.goto('/');
+
+    const links = page.locator('.nav-menu a');
+    await page.locator('.logo').focus();
+    for (let i = 0; i < (await links.count()); i++) {
+      await page.keyboard.press('Tab');
+      await expect(links.nth(i)).toBeFocused();
+    }
+  });
+
+  test('the mobile menu toggle announces its state and manages focus', async ({ page, isMobile }) => {
+    test.skip(!isMobile, 'The toggle is only shown on mobile viewports');
+    await page.goto('/');
+
+    const toggle = page.locator('.nav-toggle');
+    const menu = page.locator('#navMenu');
+    await expect(toggle).toHaveAttribute('aria-controls', 'navMenu');
+    await expect(toggle).toHaveAttribute('aria-expanded', 'false');
+
+    await toggle.focus();
+    await page.keyboard.press('Enter');
+    await expect(toggle).toHaveAttribute('aria-expanded', 'true');
+    await expect(menu).toHaveClass(/active/);
+    await expect(menu.locator('a').first()).toBeFocused();
+
+    await page.keyboard.press('Escape');
+    await expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    await expect(menu).not.toHaveClass(/active/);
+    await expect(toggle).toBeFocused();
+  });
+});
+
+test.describe('Forms', () => {
+  for (const item of manifestPages) {
+    test(`${item.link} labels every form control and announces status`, async ({ page }) => {
+      await page.goto(`/${item.link}`);
+
+      const unlabelled = await page.locator('form :is(input, select, textarea):not([type="hidden"])').evaluateAll((controls) =>
+        controls
+          .filter((control) => !control.closest('[aria-hidden="true"]'))
+          .filter((control) => (control as HTMLInputElement).labels?.length === 0 && !control.getAttribute('aria-label'))
+          .map((control) => `${control.tagName.toLowerCase()}#${control.id || '?'} in form.${control.closest('form')!.className}`),
+      );
+      expect(unlabelled).toEqual([]);
+
+      const statuses = page.locator('[data-form-status]');
+      for (let i = 0; i < (await statuses.count()); i++) {
+        await expect(statuses.nth(i)).toHaveAttribute('role', 'status');
+        await expect(statuses.nth(i)).toHaveAttribute('aria-live', 'polite');
+      }
+    });
+  }
+});
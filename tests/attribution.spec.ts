@@ -0,0 +1,38 @@
+import { test, expect } from '@playwright/test';
+import { useMockFormsApi } from './forms-api';
+
+type CapturedTouch = { utm: Record<string, string>; gclid?: string; landingPage: string; expiresAt: number };
+
+test.describe('Attribution', () => {
+  test('campaign from the landing page reaches the contact form', async ({ page }) => {
+    const api = await useMockFormsApi(page);
+    await page.goto('/?utm_source=newsletter&utm_medium=email&utm_campaign=spring-launch&utm_content=hero&gclid=TEST-GCLID');
+    await page.evaluate(() => localStorage.removeItem('gc_form_submissions'));
+    await page.locator('a[href="contact_us.html"]').first().click();
+    await expect(page).toHaveURL(/contact_us\.html$/);
+
+    await page.fill('#firstName', 'Campaign');
+    await page.fill('#lastName', 'Visitor');
+    await page.fill('#email', 'campaign@example.com');
+    await page.fill('#subject', 'Spring launch');
+    await page.fill('#message', 'I found you through the newsletter.');
+    await page.click('#contactForm button[type="submit"]');
+    await expect(page.locator('#formStatus')).toHaveClass(/success/, { timeout: 10000 });
+
+    const [submission] = await api.submissions();
+    const captured = submission.payload as { source: string; pageUrl: string; firstTouch: CapturedTouch; lastTouch: CapturedTouch };
+    expect(captured.source).toBe('newsletter');
+    expect(captured.pageUrl).toContain('/contact_us.html');
+    for (const touch of [captured.firstTouch, captured.lastTouch]) {
+      expect(touch.utm).toEqual({
+        utm_source: 'newsletter',
+        utm_medium: 'email',
+        utm_campaign: 'spring-launch',
+        utm_content: 'hero',
+      });
+      expect(touch.gclid).toBe('TEST-GCLID');
+      expect(touch.landingPage).toContain('utm_campaign=spring-launch');
+      expect(touch.expiresAt).toBeGreaterThan(Date.now());
+    }
+  });
+});
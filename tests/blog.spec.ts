@@ -0,0 +1,67 @@
+import { test, expect } from '@playwright/test';
+import { indexLink, loadPosts, Post, POSTS_PER_PAGE, tagLink } from '../tools/lib/blog';
+import type { SiteEnvironment } from '../tools/lib/env-config';
+import { FEED_SIZE } from '../tools/site/feeds';
+import { canonicalUrl } from '../tools/site/urls';
+import { targetSite } from './target-site';
+
+let site: SiteEnvironment;
+let posts: Post[];
+
+test.beforeAll(async ({ baseURL }) => {
+  site = await targetSite(baseURL!);
+  posts = await loadPosts({ drafts: site.drafts });
+});
+
+test.describe('Blog', () => {
+  test('the index lists the newest posts first', async ({ page }) => {
+    await page.goto(`/${indexLink()}`);
+
+    await expect(page.locator('.nav-menu a[href="blog.html"]')).toHaveClass('active');
+    await expect(page.locator('.blog-card h2')).toHaveText(posts.slice(0, POSTS_PER_PAGE).map((post) => post.title));
+  });
+
+  test('articles render with the shared layout', async ({ page }) => {
+    for (const post of posts) {
+      await page.goto(`/${post.link}`);
+
+      await expect(page.locator('h1'), post.link).toHaveText(post.title);
+      await expect(page.locator('link[rel="canonical"]'), post.link).toHaveAttribute('href', canonicalUrl(site, post.link));
+      await expect(page.locator('.blog-meta time'), post.link).toHaveAttribute('datetime', post.date);
+      await expect(page.locator('.nav-menu a[href="blog.html"]'), post.link).toHaveClass('active');
+    }
+  });
+
+  test('tag pages only list posts with the tag', async ({ page }) => {
+    const tag = posts.find((post) => post.tags.length > 0)?.tags[0];
+    test.skip(!tag, 'No post has a tag');
+
+    await page.goto(`/${tagLink(tag!)}`);
+    const tagged = posts.filter((post) => post.tags.includes(tag!)).slice(0, POSTS_PER_PAGE);
+    await expect(page.locator('.blog-card h2')).toHaveText(tagged.map((post) => post.title));
+    await expect(page.locator('.blog-tag-list a[aria-current="page"]')).toHaveText(tag!);
+  });
+
+  test('drafts are only published to staging', async ({ request }) => {
+    const drafts = (await loadPosts({ drafts: true })).filter((post) => post.draft);
+    test.skip(drafts.length === 0, 'content/blog/ has no drafts');
+
+    for (const draft of drafts) {
+      const response = await request.get(`/${draft.link}`);
+      expect(response.ok(), draft.link).toBe(site.drafts);
+    }
+  });
+});
+
+test.describe('Blog feeds @smoke', () => {
+  test('RSS and Atom list the posts on the canonical host', async ({ request }) => {
+    const rss = await request.get('/feed.xml');
+    expect(rss.status()).toBe(200);
+    const items = Array.from((await rss.text()).matchAll(/<item>\s*<title>[^<]*<\/title>\s*<link>([^<]+)<\/link>/g), (match) => match[1]);
+    expect(items).toEqual(posts.slice(0, FEED_SIZE).map((post) => canonicalUrl(site, post.link)));
+
+    const atom = await request.get('/atom.xml');
+    expect(atom.status()).toBe(200);
+    expect((await atom.text()).match(/<entry>/g) ?? []).toHaveLength(Math.min(posts.length, FEED_SIZE));
+  });
+});
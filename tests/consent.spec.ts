@@ -0,0 +1,98 @@
+import { test, expect, Page } from '@playwright/test';
+import { MockFormsApi, useMockFormsApi } from './forms-api';
+
+// Start without the consent that playwright.config.ts gives other tests
+test.use({ storageState: { cookies: [], origins: [] } });
+
+const storedItem = (page: Page, key: string) => page.evaluate((name) => localStorage.getItem(name), key);
+
+let api: MockFormsApi;
+
+async function submitNewsletter(page: Page): Promise<Record<string, unknown>> {
+  await page.fill('#newsletterEmail', 'consent@example.com');
+  await page.click('#newsletterForm button[type="submit"]');
+  await expect(page.locator('#newsletterStatus')).toHaveClass(/success/, { timeout: 10000 });
+  const [submission] = await api.submissions();
+  return submission.payload;
+}
+
+test.describe('Consent banner', () => {
+  test.beforeEach(async ({ page }) => {
+    api = await useMockFormsApi(page);
+  });
+
+  test('is shown until the visitor chooses', async ({ page }) => {
+    await page.goto('/');
+    const banner = page.locator('#consentBanner');
+    await expect(banner).toBeVisible();
+
+    await page.click('[data-consent-action="accept"]');
+    await expect(banner).toBeHidden();
+    expect(JSON.parse((await storedItem(page, 'gc_consent'))!)).toMatchObject({
+      version: 1,
+      essential: true,
+      analytics: true,
+      marketing: true,
+    });
+
+    await page.goto('/about_us.html');
+    await expect(banner).toBeHidden();
+  });
+
+  test('asks again when the stored choice is for another version', async ({ page }) => {
+    await page.goto('/');
+    await page.evaluate(() =>
+      localStorage.setItem('gc_consent', JSON.stringify({ version: 0, essential: true, analytics: true, marketing: true, updatedAt: '2024-01-01T00:00:00.000Z' })),
+    );
+    await page.reload();
+
+    await expect(page.locator('#consentBanner')).toBeVisible();
+  });
+
+  test('records the landing campaign once marketing is accepted', async ({ page }) => {
+    await page.goto('/?utm_source=partner-mail&utm_campaign=launch');
+    expect(await storedItem(page, 'gc_attribution')).toBeNull();
+
+    await page.click('[data-consent-action="accept"]');
+    const attribution = JSON.parse((await storedItem(page, 'gc_attribution'))!);
+    expect(attribution.lastTouch.utm).toEqual({ utm_source: 'partner-mail', utm_campaign: 'launch' });
+
+    const payload = await submitNewsletter(page);
+    expect(payload.source).toBe('partner-mail');
+    expect(payload.privacyConsent).toMatchObject({ analytics: true, marketing: true });
+  });
+
+  test('keeps attribution out of storage and payloads when rejected', async ({ page }) => {
+    await page.goto('/?utm_source=partner-mail&referredBy=partner-7');
+    await page.click('[data-consent-action="reject"]');
+    await expect(page.locator('#consentBanner')).toBeHidden();
+    expect(await storedItem(page, 'gc_attribution')).toBeNull();
+
+    const payload = await submitNewsletter(page);
+    expect(payload.source).toBe('unknown');
+    expect(payload.referrer).toBe('unknown');
+    expect(payload.referredBy).toBeUndefined();
+    expect(payload.lastTouch).toBeUndefined();
+    expect(payload.pageUrl).not.toContain('utm_source');
+    expect(payload.privacyConsent).toMatchObject({ version: 1, analytics: false, marketing: false });
+  });
+
+  test('can be reopened from the footer to withdraw marketing consent', async ({ page }) => {
+    await page.goto('/?utm_source=partner-mail');
+    await page.click('[data-consent-action="accept"]');
+    expect(await storedItem(page, 'gc_attribution')).not.toBeNull();
+
+    const reopen = page.locator('[data-consent-open]');
+    await reopen.click();
+    await expect(page.locator('#consentPreferences')).toBeVisible();
+    await expect(page.locator('#consentForm input[name="marketing"]')).toBeChecked();
+
+    await page.uncheck('#consentForm input[name="marketing"]');
+    await page.click('[data-consent-action="save"]');
+
+    await expect(page.locator('#consentBanner')).toBeHidden();
+    await expect(reopen).toBeFocused();
+    expect(await storedItem(page, 'gc_attribution')).toBeNull();
+    expect(JSON.parse((await storedItem(page, 'gc_consent'))!)).toMatchObject({ analytics: true, marketing: false });
+  });
+});
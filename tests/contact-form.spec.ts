@@ -1,4 +1,5 @@
 import { test, expect } from '@playwright/test';
+import { MockFormsApi, useMockFormsApi } from './forms-api';
 
 test.describe('Contact Form', () => {
   test.beforeEach(async ({ page }) => {
@@ -11,14 +12,19 @@ test.describe('Contact Form', () => {
     await expect(page.locator('#email')).toBeVisible();
     await expect(page.locator('#subject')).toBeVisible();
     await expect(page.locator('#message')).toBeVisible();
-    await expect(page.locator('button[type="submit"]')).toBeVisible();
+    await expect(page.locator('#contactForm button[type="submit"]')).toBeVisible();
   });
 
   test('form has required field validation', async ({ page }) => {
-    await page.click('button[type="submit"]');
-    const firstName = page.locator('#firstName');
-    const isInvalid = await firstName.evaluate((el: HTMLInputElement) => !el.validity.valid);
-    expect(isInvalid).toBe(true);
+    const submit = page.locator('#contactForm button[type="submit"]');
+    await expect(submit).toBeDisabled();
+
+    // Leaving an empty required field shows its message inline
+    await page.focus('#firstName');
+    await page.focus('#lastName');
+    await expect(page.locator('#firstName-error')).toHaveText('First name is required.');
+    await expect(page.locator('#firstName')).toHaveAttribute('aria-invalid', 'true');
+    await expect(page.locator('#firstName')).toHaveAttribute('aria-describedby', 'firstName-error');
   });
 
   test('email field validates email format', async ({ page }) => {
@@ -27,11 +33,13 @@ test.describe('Contact Form', () => {
     await page.fill('#email', 'invalid-email');
     await page.fill('#subject', 'Test Subject');
     await page.fill('#message', 'Test message content');
-    await page.click('button[type="submit"]');
 
-    const email = page.locator('#email');
-    const isInvalid = await email.evaluate((el: HTMLInputElement) => !el.validity.valid);
-    expect(isInvalid).toBe(true);
+    await expect(page.locator('#email-error')).toHaveText('Please enter a valid email address.');
+    await expect(page.locator('#contactForm button[type="submit"]')).toBeDisabled();
+
+    await page.fill('#email', 'john@example.com');
+    await expect(page.locator('#email-error')).toHaveCount(0);
+    await expect(page.locator('#contactForm button[type="submit"]')).toBeEnabled();
   });
 
   test('form fields have proper placeholders', async ({ page }) => {
@@ -51,22 +59,16 @@ test.describe('Contact Form', () => {
 });
 
 test.describe('Contact Form Submission', () => {
+  let api: MockFormsApi;
+
   test.beforeEach(async ({ page }) => {
+    api = await useMockFormsApi(page);
     // Clear rate limit from localStorage before each test
     await page.goto('/contact_us.html');
     await page.evaluate(() => localStorage.removeItem('gc_form_submissions'));
   });
 
   test('successful form submission shows success message', async ({ page }) => {
-    // Mock successful API response (match backend pattern with query param)
-    await page.route((url) => url.hostname.includes('rest.gadgetcloud.io') || url.hostname.includes('rest-stg.gadgetcloud.io'), async (route) => {
-      await route.fulfill({
-        status: 200,
-        contentType: 'application/json',
-        body: JSON.stringify({ success: true, submission_id: 'FSM-TEST123', message: 'Form submitted successfully' }),
-      });
-    });
-
     // Fill in the form
     await page.fill('#firstName', 'Playwright');
     await page.fill('#lastName', 'Test');
@@ -75,16 +77,17 @@ test.describe('Contact Form Submission', () => {
     await page.fill('#message', 'This is an automated E2E test submission from Playwright. Please ignore.');
 
     // Submit the form
-    await page.click('button[type="submit"]');
+    await page.click('#contactForm button[type="submit"]');
 
     // Wait for success message with submission ID
     const formStatus = page.locator('#formStatus');
     await expect(formStatus).toContainText('Thank you for your message! We will get back to you soon.', { timeout: 10000 });
-    await expect(formStatus).toContainText('Confirmation: FSM-TEST123');
+    const [submission] = await api.submissions();
+    await expect(formStatus).toContainText(`Confirmation: ${submission.submissionId}`);
     await expect(formStatus).toHaveClass(/success/);
 
     // Verify button returns to normal state
-    await expect(page.locator('button[type="submit"]')).toHaveText('Send Message');
+    await expect(page.locator('#contactForm button[type="submit"]')).toHaveText('Send Message');
 
     // Verify form is reset
     await expect(page.locator('#firstName')).toHaveValue('');
@@ -95,14 +98,8 @@ test.describe('Contact Form Submission', () => {
   });
 
   test('form submission handles API errors gracefully', async ({ page }) => {
-    // Mock API to return an error
-    await page.route((url) => url.hostname.includes('rest.gadgetcloud.io') || url.hostname.includes('rest-stg.gadgetcloud.io'), async (route) => {
-      await route.fulfill({
-        status: 400,
-        contentType: 'application/json',
-        body: JSON.stringify({ error: 'firstName: Must be at least 2 characters' }),
-      });
-    });
+    // API rejects the submission
+    await api.fail({ mode: '400', body: { error: 'firstName: Must be at least 2 characters' } });
 
     // Fill in the form
     await page.fill('#firstName', 'Test');
@@ -112,11 +109,13 @@ test.describe('Contact Form Submission', () => {
     await page.fill('#message', 'Test message for error handling.');
 
     // Submit the form
-    await page.click('button[type="submit"]');
+    await page.click('#contactForm button[type="submit"]');
 
-    // Wait for error message
+    // The field error is shown next to the field, the status asks for corrections
     const formStatus = page.locator('#formStatus');
-    await expect(formStatus).toContainText('firstName: Must be at least 2 characters', { timeout: 10000 });
+    await expect(page.locator('#firstName-error')).toHaveText('Must be at least 2 characters', { timeout: 10000 });
+    await expect(page.locator('#firstName')).toHaveAttribute('aria-invalid', 'true');
+    await expect(formStatus).toHaveText('Please correct the highlighted fields.');
     await expect(formStatus).toHaveClass(/error/);
 
     // Form should not be reset on error
@@ -124,10 +123,8 @@ test.describe('Contact Form Submission', () => {
   });
 
   test('form submission handles network errors', async ({ page }) => {
-    // Mock network failure
-    await page.route((url) => url.hostname.includes('rest.gadgetcloud.io') || url.hostname.includes('rest-stg.gadgetcloud.io'), async (route) => {
-      await route.abort('failed');
-    });
+    // The connection drops on every attempt
+    await api.fail({ mode: 'drop', times: 100 });
 
     // Fill in the form
     await page.fill('#firstName', 'Test');
@@ -137,40 +134,15 @@ test.describe('Contact Form Submission', () => {
     await page.fill('#message', 'Test message for network error.');
 
     // Submit the form
-    await page.click('button[type="submit"]');
+    await page.click('#contactForm button[type="submit"]');
 
-    // Wait for error message
+    // The message is queued for retry instead of being lost
     const formStatus = page.locator('#formStatus');
-    await expect(formStatus).toHaveText('Unable to send message. Please check your connection and try again.', { timeout: 10000 });
-    await expect(formStatus).toHaveClass(/error/);
+    await expect(formStatus).toContainText('Your message has been saved and will be sent automatically', { timeout: 10000 });
+    await expect(formStatus).toHaveClass(/queued/);
   });
 
   test('form submission sends correct data to API', async ({ page }) => {
-    let capturedRequest: {
-      firstName: string;
-      lastName: string;
-      email: string;
-      subject: string;
-      message: string;
-      source?: string;
-      referrer?: string;
-      pageUrl?: string;
-      referredBy?: string;
-    } | null = null;
-
-    // Intercept and capture the request, then mock response
-    await page.route((url) => url.hostname.includes('rest.gadgetcloud.io') || url.hostname.includes('rest-stg.gadgetcloud.io'), async (route) => {
-      const request = route.request();
-      capturedRequest = JSON.parse(request.postData() || '{}');
-
-      // Mock successful response
-      await route.fulfill({
-        status: 200,
-        contentType: 'application/json',
-        body: JSON.stringify({ success: true, submission_id: 'FSM-TEST456', message: 'Form submitted successfully' }),
-      });
-    });
-
     // Fill in the form
     await page.fill('#firstName', 'DataTest');
     await page.fill('#lastName', 'Verify');
@@ -179,53 +151,31 @@ test.describe('Contact Form Submission', () => {
     await page.fill('#message', 'Testing data submission to API endpoint.');
 
     // Submit the form
-    await page.click('button[type="submit"]');
+    await page.click('#contactForm button[type="submit"]');
 
     // Wait for submission to complete
     await expect(page.locator('#formStatus')).toHaveClass(/success/, { timeout: 10000 });
 
     // Verify request data matches backend expectations (flat structure)
-    expect(capturedRequest).not.toBeNull();
-    expect(capturedRequest!.firstName).toBe('DataTest');
-    expect(capturedRequest!.lastName).toBe('Verify');
-    expect(capturedRequest!.email).toBe('data-test@example.com');
-    expect(capturedRequest!.subject).toBe('Data Validation Test');
-    expect(capturedRequest!.message).toBe('Testing data submission to API endpoint.');
+    const submissions = await api.submissions();
+    expect(submissions).toHaveLength(1);
+    expect(submissions[0].type).toBe('contacts');
+    const payload = submissions[0].payload;
+    expect(payload.firstName).toBe('DataTest');
+    expect(payload.lastName).toBe('Verify');
+    expect(payload.email).toBe('data-test@example.com');
+    expect(payload.subject).toBe('Data Validation Test');
+    expect(payload.message).toBe('Testing data submission to API endpoint.');
     // Verify metadata fields (flat structure, not nested in tags)
-    expect(capturedRequest!.source).toBeDefined();
-    expect(capturedRequest!.referrer).toBeDefined();
-    expect(capturedRequest!.pageUrl).toBeDefined();
+    expect(payload.source).toBeDefined();
+    expect(payload.referrer).toBeDefined();
+    expect(payload.pageUrl).toBeDefined();
   });
 
   test('form submission includes referredBy from URL parameter', async ({ page }) => {
-    let capturedRequest: {
-      firstName: string;
-      lastName: string;
-      email: string;
-      subject: string;
-      message: string;
-      referredBy?: string;
-    } | null = null;
-
-    // Intercept and capture the request
-    await page.route((url) => url.hostname.includes('rest.gadgetcloud.io') || url.hostname.includes('rest-stg.gadgetcloud.io'), async (route) => {
-      const request = route.request();
-      capturedRequest = JSON.parse(request.postData() || '{}');
-
-      // Mock successful response
-      await route.fulfill({
-        status: 200,
-        contentType: 'application/json',
-        body: JSON.stringify({ success: true, submission_id: 'FSM-TEST789', message: 'Form submitted successfully' }),
-      });
-    });
-
     // Navigate to contact page with referredBy parameter
     await page.goto('/contact_us.html?referredBy=affiliate-partner-123');
 
-    // Clear rate limit
-    await page.evaluate(() => localStorage.removeItem('gc_form_submissions'));
-
     // Fill in the form
     await page.fill('#firstName', 'Referral');
     await page.fill('#lastName', 'Test');
@@ -234,16 +184,16 @@ test.describe('Contact Form Submission', () => {
     await page.fill('#message', 'Testing referredBy parameter capture from URL.');
 
     // Submit the form
-    await page.click('button[type="submit"]');
+    await page.click('#contactForm button[type="submit"]');
 
     // Wait for submission to complete
     const formStatus = page.locator('#formStatus');
     await expect(formStatus).toContainText('Thank you for your message!', { timeout: 10000 });
-    await expect(formStatus).toContainText('Confirmation: FSM-TEST789');
     await expect(formStatus).toHaveClass(/success/);
 
     // Verify referredBy was captured
-    expect(capturedRequest).not.toBeNull();
-    expect(capturedRequest!.referredBy).toBe('affiliate-partner-123');
+    const [submission] = await api.submissions();
+    await expect(formStatus).toContainText(`Confirmation: ${submission.submissionId}`);
+    expect(submission.payload.referredBy).toBe('affiliate-partner-123');
   });
 });
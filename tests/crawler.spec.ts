@@ -0,0 +1,184 @@
+import { test, expect, APIRequestContext } from '@playwright/test';
+import { readdirSync } from 'node:fs';
+import path from 'node:path';
+import { blogPageLinks, loadPosts } from '../tools/lib/blog';
+import { localePath, TRANSLATED_LOCALES } from '../tools/lib/i18n';
+import { loadManifest, SiteManifest } from '../tools/lib/manifest';
+import { PAGES_DIR, SRC_DIR } from '../tools/lib/paths';
+import { translatedPages } from '../tools/site/i18n';
+import { HOME_PAGE } from '../tools/site/urls';
+import { targetSite } from './target-site';
+
+/**
+ * Crawls the site from the home page, following every internal href, src,
+ * srcset and CSS url(). External links are only checked for being
+ * well-formed, as tests have no network.
+ */
+
+/** Files under src/images that are kept with the brand assets but not served. */
+const UNSERVED_IMAGES = [
+  // Logo concepts that lost to logo3-hexagon.svg
+  'images/logos/logo1-cloud-devices.svg',
+  'images/logos/logo2-shield.svg',
+  'images/logos/logo4-network.svg',
+  'images/logos/logo5-minimal.svg',
+];
+
+const NOT_FOLLOWED = /^(?:data|javascript|tel):/;
+const EMAIL_LINK = /^mailto:[^\s@]+@[^\s@]+\.[a-z]{2,}$/i;
+
+interface Reference {
+  from: string;
+  url: string;
+}
+
+interface CrawlResult {
+  /** Site path to response status. */
+  statuses: Map<string, number>;
+  /** Site path of each HTML page to its element ids. */
+  pageIds: Map<string, Set<string>>;
+  internal: Reference[];
+  external: Reference[];
+}
+
+function attributeValues(html: string, attribute: string): string[] {
+  return Array.from(html.matchAll(new RegExp(`\\s${attribute}="([^"]*)"`, 'g')), (match) => match[1]);
+}
+
+/** Targets referenced by an HTML page, including link preview URLs such as og:image. */
+function htmlReferences(html: string): string[] {
+  const srcset = attributeValues(html, 'srcset').flatMap((value) => value.split(',').map((candidate) => candidate.trim().split(/\s+/)[0]));
+  const metaUrls = Array.from(html.matchAll(/<meta (?:property|name)="(?:og|twitter):(?:url|image)" content="([^"]*)"/g), (match) => match[1]);
+  return [...attributeValues(html, 'href'), ...attributeValues(html, 'src'), ...srcset, ...metaUrls];
+}
+
+function cssReferences(css: string): string[] {
+  return Array.from(css.matchAll(/url\(\s*['"]?([^'")]+)['"]?\s*\)/g), (match) => match[1]);
+}
+
+/** Origin of the page's canonical URL; links to it are internal. */
+function canonicalOrigin(html: string): string | undefined {
+  const canonical = /<link rel="canonical" href="([^"]+)"/.exec(html);
+  return canonical ? new URL(canonical[1]).origin : undefined;
+}
+
+function sitePath(url: URL): string {
+  return url.pathname === '/' ? `/${HOME_PAGE}` : url.pathname;
+}
+
+async function crawl(request: APIRequestContext, baseURL: string): Promise<CrawlResult> {
+  const origin = new URL(baseURL).origin;
+  const result: CrawlResult = { statuses: new Map(), pageIds: new Map(), internal: [], external: [] };
+  const queue = [`/${HOME_PAGE}`];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const response = await request.get(current);
+    result.statuses.set(current, response.status());
+    if (!response.ok()) {
+      continue;
+    }
+
+    const type = response.headers()['content-type'] ?? '';
+    const body = type.includes('text/html') || type.includes('text/css') ? await response.text() : '';
+    const siteOrigins = new Set([origin, canonicalOrigin(body)]);
+    if (type.includes('text/html')) {
+      result.pageIds.set(current, new Set(attributeValues(body, 'id')));
+    }
+    const references = type.includes('text/html') ? htmlReferences(body) : type.includes('text/css') ? cssReferences(body) : [];
+
+    for (const reference of references) {
+      if (NOT_FOLLOWED.test(reference)) {
+        continue;
+      }
+      const url = new URL(reference, `${origin}${current}`);
+      if (!siteOrigins.has(url.origin)) {
+        result.external.push({ from: current, url: reference });
+        continue;
+      }
+
+      const target = sitePath(url);
+      result.internal.push({ from: current, url: `${target}${url.hash}` });
+      if (!result.statuses.has(target) && !queue.includes(target)) {
+        queue.push(target);
+      }
+    }
+  }
+  return result;
+}
+
+let manifest: SiteManifest;
+let site: CrawlResult;
+/** Generated blog listings and articles of the target environment. */
+let blogPages: string[];
+
+test.beforeAll(async ({ playwright, baseURL }) => {
+  manifest = await loadManifest();
+  blogPages = blogPageLinks(await loadPosts({ drafts: (await targetSite(baseURL!)).drafts }));
+  const request = await playwright.request.newContext({ baseURL });
+  site = await crawl(request, baseURL!);
+  await request.dispose();
+});
+
+test.describe('Site crawler', () => {
+  test('every internal link and asset returns 200', () => {
+    const broken = Array.from(site.statuses)
+      .filter(([, status]) => status !== 200)
+      .map(([target, status]) => {
+        const from = new Set(site.internal.filter((ref) => ref.url.split('#')[0] === target).map((ref) => ref.from));
+        return `${target} (${status}) linked from ${Array.from(from).join(', ')}`;
+      });
+    expect(broken).toEqual([]);
+  });
+
+  test('every link with a hash points at an existing element id', () => {
+    const missing = site.internal
+      .filter((ref) => ref.url.includes('#'))
+      .filter((ref) => {
+        const [target, id] = ref.url.split('#');
+        return id !== '' && !site.pageIds.get(target)?.has(decodeURIComponent(id));
+      })
+      .map((ref) => `${ref.url} linked from ${ref.from}`);
+    expect(Array.from(new Set(missing))).toEqual([]);
+  });
+
+  test('every image in src/images is referenced', () => {
+    const files = readdirSync(path.join(SRC_DIR, 'images'), { recursive: true, withFileTypes: true })
+      .filter((entry) => entry.isFile())
+      .map((entry) => path.relative(SRC_DIR, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'));
+    const orphans = files.filter((file) => !site.statuses.has(`/${file}`) && !UNSERVED_IMAGES.includes(file));
+    expect(orphans).toEqual([]);
+  });
+
+  test('every page reached is in manifest.yaml, a translation or the blog, and every such page is reached', () => {
+    const translations = TRANSLATED_LOCALES.flatMap((locale) => translatedPages(manifest).map((item) => localePath(locale, item.link)));
+    const knownPages = Array.from(new Set([...manifest.menu_items.map((item) => item.link), ...translations, ...blogPages]), (link) => `/${link}`);
+    const crawledPages = Array.from(site.pageIds.keys());
+
+    expect(crawledPages.filter((page) => !knownPages.includes(page))).toEqual([]);
+    expect(knownPages.filter((page) => !crawledPages.includes(page))).toEqual([]);
+  });
+
+  test('every page in src/pages is in manifest.yaml', () => {
+    const listed = manifest.menu_items.map((item) => item.link);
+    const unlisted = readdirSync(PAGES_DIR).filter((file) => file.endsWith('.html') && !listed.includes(file));
+    expect(unlisted).toEqual([]);
+  });
+
+  test('external links are well-formed', () => {
+    const malformed = site.external
+      .filter(({ url }) => {
+        if (url.startsWith('mailto:')) {
+          return !EMAIL_LINK.test(url);
+        }
+        try {
+          const parsed = new URL(url);
+          return parsed.protocol !== 'https:' || !parsed.hostname.includes('.') || /\s/.test(url);
+        } catch {
+          return true;
+        }
+      })
+      .map((ref) => `${ref.url} linked from ${ref.from}`);
+    expect(Array.from(new Set(malformed))).toEqual([]);
+  });
+});
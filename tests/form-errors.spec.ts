@@ -0,0 +1,89 @@
+import { test, expect, Page } from '@playwright/test';
+import { MockFormsApi, useMockFormsApi } from './forms-api';
+
+async function fillContactForm(page: Page) {
+  await page.fill('#firstName', 'Field');
+  await page.fill('#lastName', 'Errors');
+  await page.fill('#email', 'field-errors@example.com');
+  await page.fill('#subject', 'Validation test');
+  await page.fill('#message', 'Checking how API errors are shown.');
+}
+
+test.describe('Form API errors', () => {
+  let api: MockFormsApi;
+
+  test.beforeEach(async ({ page }) => {
+    api = await useMockFormsApi(page);
+    await page.goto('/contact_us.html');
+    await page.evaluate(() => localStorage.removeItem('gc_form_submissions'));
+  });
+
+  test('maps an errors object to inline field messages', async ({ page }) => {
+    await api.fail({ mode: '400', body: { message: 'Validation failed', errors: { subject: 'Subject is too vague', email: 'Email domain not accepted' } } });
+
+    await fillContactForm(page);
+    await page.click('#contactForm button[type="submit"]');
+
+    const email = page.locator('#email');
+    const subject = page.locator('#subject');
+    await expect(page.locator('#email-error')).toHaveText('Email domain not accepted', { timeout: 10000 });
+    await expect(page.locator('#subject-error')).toHaveText('Subject is too vague');
+    await expect(email).toHaveAttribute('aria-invalid', 'true');
+    await expect(email).toHaveAttribute('aria-describedby', 'email-error');
+    await expect(subject).toHaveAttribute('aria-describedby', 'subject-error');
+    await expect(page.locator('#firstName')).not.toHaveAttribute('aria-invalid', 'true');
+
+    // The first invalid field in document order gets focus
+    await expect(email).toBeFocused();
+    await expect(page.locator('#formStatus')).toHaveText('Please correct the highlighted fields.');
+
+    // Editing a field clears its error
+    await email.fill('field-errors@example.org');
+    await expect(email).not.toHaveAttribute('aria-invalid', 'true');
+    await expect(email).not.toHaveAttribute('aria-describedby', /email-error/);
+    await expect(page.locator('#email-error')).toHaveCount(0);
+    await expect(page.locator('#subject-error')).toHaveCount(1);
+  });
+
+  test('maps prefixed error strings using data-field keys', async ({ page }) => {
+    await api.fail({ mode: '400', body: { error: 'message: Must be at least 10 characters' } });
+
+    await page.fill('#demoName', 'Ada Lovelace');
+    await page.fill('#demoEmail', 'ada@example.com');
+    await page.fill('#demoCompany', 'Engines');
+    await page.selectOption('#demoDevices', '1-10');
+    await page.fill('#demoNotes', 'Short');
+    await page.click('#demoForm button[type="submit"]');
+
+    await expect(page.locator('#demoNotes-error')).toHaveText('Must be at least 10 characters', { timeout: 10000 });
+    await expect(page.locator('#demoNotes')).toBeFocused();
+    await expect(page.locator('#demoStatus')).toHaveText('Please correct the highlighted fields.');
+  });
+
+  test('shows errors for unknown fields in the status area', async ({ page }) => {
+    await api.fail({ mode: '400', body: { error: 'captcha: Verification required' } });
+
+    await fillContactForm(page);
+    await page.click('#contactForm button[type="submit"]');
+
+    await expect(page.locator('#formStatus')).toHaveText('captcha: Verification required', { timeout: 10000 });
+    await expect(page.locator('#contactForm [aria-invalid="true"]')).toHaveCount(0);
+  });
+
+  test('waits for Retry-After on 429 responses', async ({ page }) => {
+    await api.fail({ mode: '429', retryAfter: '3' });
+
+    await fillContactForm(page);
+    const submit = page.locator('#contactForm button[type="submit"]');
+    await submit.click();
+
+    await expect(page.locator('#formStatus')).toHaveText('Too many submissions. Please try again in 3 seconds.', { timeout: 10000 });
+    await expect(page.locator('#formStatus')).toHaveClass(/error/);
+    await expect(submit).toBeDisabled();
+    await expect(submit).toHaveText('Send Message');
+    await expect(submit).toBeEnabled({ timeout: 5000 });
+
+    // Nothing is queued for a rate-limited submission
+    expect(await page.evaluate(() => localStorage.getItem('gc_form_queue'))).toBeNull();
+  });
+});
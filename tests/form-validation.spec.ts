@@ -0,0 +1,58 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Form validation', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/contact_us.html');
+  });
+
+  test('shows inline errors on blur and updates them while typing', async ({ page }) => {
+    const firstName = page.locator('#firstName');
+    await firstName.fill('J');
+    await firstName.blur();
+
+    await expect(page.locator('#firstName-error')).toHaveText('First name must be at least 2 characters.');
+
+    await firstName.fill('Jo');
+    await expect(page.locator('#firstName-error')).toHaveCount(0);
+    await expect(firstName).not.toHaveAttribute('aria-invalid', 'true');
+  });
+
+  test('trims values before checking lengths', async ({ page }) => {
+    await page.fill('#subject', '   Hi   ');
+    await page.locator('#subject').blur();
+
+    await expect(page.locator('#subject-error')).toHaveText('Subject must be at least 5 characters.');
+  });
+
+  test('rejects disposable email addresses', async ({ page }) => {
+    await page.fill('#email', 'someone@mailinator.com');
+    await page.locator('#email').blur();
+
+    await expect(page.locator('#email-error')).toHaveText('Please use a permanent email address, not a disposable one.');
+  });
+
+  test('counts characters in text areas', async ({ page }) => {
+    const counter = page.locator('#message-counter');
+    await expect(counter).toHaveText('0 / 1000');
+    await expect(page.locator('#message')).toHaveAttribute('aria-describedby', 'message-counter');
+
+    await page.fill('#message', 'Hello there');
+    await expect(counter).toHaveText('11 / 1000');
+  });
+
+  test('enables submit only once every field is valid', async ({ page }) => {
+    const submit = page.locator('#demoForm button[type="submit"]');
+    await expect(submit).toBeDisabled();
+
+    await page.fill('#demoName', 'Ada Lovelace');
+    await page.fill('#demoEmail', 'ada@example.com');
+    await page.fill('#demoCompany', 'Engines');
+    await expect(submit).toBeDisabled();
+
+    await page.selectOption('#demoDevices', '1-10');
+    await expect(submit).toBeEnabled();
+
+    await page.fill('#demoCompany', '');
+    await expect(submit).toBeDisabled();
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Access to the mock forms API that playwright.config.ts starts next to the
+ * static server (tools/mock-api/server.ts). Each test gets its own scope,
+ * so parallel tests never see each other's submissions or failures.
+ */
+
+import { test, Page } from '@playwright/test';
+import { randomUUID } from 'node:crypto';
+import { MOCK_API_PORT, MockFailure, MockRequest, MockSubmission } from '../tools/mock-api/server';
+import { isRemoteTarget } from './target-site';
+
+const MOCK_API_URL = `http://localhost:${MOCK_API_PORT}`;
+
+export class MockFormsApi {
+  private readonly base = `${MOCK_API_URL}/scopes/${randomUUID()}`;
+
+  /** Forms API URL the page posts to. */
+  get endpoint(): string {
+    return `${this.base}/forms`;
+  }
+
+  /** Makes the next request(s) fail; failures are played in order. */
+  async fail(failure: MockFailure): Promise<void> {
+    const response = await fetch(`${this.base}/__mock/failures`, { method: 'POST', body: JSON.stringify(failure) });
+    if (!response.ok) {
+      throw new Error(`Mock forms API rejected failure ${JSON.stringify(failure)}: ${await response.text()}`);
+    }
+  }
+
+  /** Drops failures that have not been used yet, e.g. when the connection "comes back". */
+  async recover(): Promise<void> {
+    await fetch(`${this.base}/__mock/failures`, { method: 'DELETE' });
+  }
+
+  async submissions(): Promise<MockSubmission[]> {
+    return (await fetch(`${this.base}/__mock/submissions`)).json();
+  }
+
+  async requests(): Promise<MockRequest[]> {
+    return (await fetch(`${this.base}/__mock/requests`)).json();
+  }
+}
+
+/**
+ * Points every page the test opens at a fresh mock API scope. Call it
+ * before the first page.goto(). Skips the test when BASE_URL is a deployed
+ * site, whose CSP only allows the real API; a local BASE_URL must serve a
+ * build posting to the mock (playwright.config.ts starts one without it).
+ */
+export async function useMockFormsApi(page: Page): Promise<MockFormsApi> {
+  test.skip(isRemoteTarget(), 'Needs the local mock forms API');
+
+  const api = new MockFormsApi();
+  // Runs before main.js's own DOMContentLoaded handler
+  await page.addInitScript((endpoint) => {
+    document.addEventListener('DOMContentLoaded', () => {
+      document.querySelector('meta[name="forms-api-endpoint"]')?.setAttribute('content', endpoint);
+    });
+  }, api.endpoint);
+  return api;
+}
@@ -0,0 +1,107 @@
+import { test, expect } from '@playwright/test';
+import { MockFormsApi, useMockFormsApi } from './forms-api';
+
+test.describe('Form engine', () => {
+  let api: MockFormsApi;
+
+  test.beforeEach(async ({ page }) => {
+    api = await useMockFormsApi(page);
+    await page.goto('/');
+    await page.evaluate(() => localStorage.removeItem('gc_form_submissions'));
+  });
+
+  test('footer newsletter subscribes with attribution', async ({ page }) => {
+    await page.goto('/about_us.html?referredBy=partner-7');
+
+    await page.fill('#newsletterEmail', 'news@example.com');
+    await page.click('#newsletterForm button[type="submit"]');
+
+    await expect(page.locator('#newsletterStatus')).toHaveClass(/success/, { timeout: 10000 });
+    await expect(page.locator('#newsletterEmail')).toHaveValue('');
+
+    const submissions = await api.submissions();
+    expect(submissions).toHaveLength(1);
+    await expect(page.locator('#newsletterStatus')).toContainText(`Thanks for subscribing! Confirmation: ${submissions[0].submissionId}`);
+    expect(submissions[0].type).toBe('newsletter');
+    expect(submissions[0].payload).toMatchObject({ email: 'news@example.com', referredBy: 'partner-7' });
+    expect(submissions[0].payload.source).toBeDefined();
+    expect(submissions[0].payload.referrer).toBeDefined();
+    expect(submissions[0].payload.pageUrl).toContain('/about_us.html');
+    expect(submissions[0].payload._gotcha).toBeUndefined();
+  });
+
+  test('demo request maps fields into the payload', async ({ page }) => {
+    await page.goto('/contact_us.html');
+
+    await page.fill('#demoName', 'Ada Lovelace');
+    await page.fill('#demoEmail', 'ada@example.com');
+    await page.fill('#demoCompany', 'Analytical Engines');
+    await page.selectOption('#demoDevices', '11-50');
+    await page.fill('#demoNotes', 'Claims tracking for our team');
+    await page.click('#demoForm button[type="submit"]');
+
+    await expect(page.locator('#demoStatus')).toHaveClass(/success/, { timeout: 10000 });
+    await expect(page.locator('#demoForm button[type="submit"]')).toHaveText('Request Demo');
+    await expect(page.locator('#formStatus')).toBeEmpty();
+
+    const submissions = await api.submissions();
+    expect(submissions[0].type).toBe('demo-requests');
+    expect(submissions[0].payload).toMatchObject({
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      company: 'Analytical Engines',
+      devices: '11-50',
+      message: 'Claims tracking for our team',
+    });
+    expect(submissions[0].payload.notes).toBeUndefined();
+  });
+
+  test('enterprise quote is sent from the products page', async ({ page }) => {
+    await page.goto('/products.html');
+
+    await page.click('a[href="#enterprise-quote"]');
+    await page.fill('#quoteName', 'Grace Hopper');
+    await page.fill('#quoteEmail', 'grace@example.com');
+    await page.fill('#quoteCompany', 'Compilers Ltd');
+    await page.fill('#quoteSeats', '250');
+    await page.fill('#quoteNeeds', 'Custom SLA and insurance add-ons');
+    await page.click('#quoteForm button[type="submit"]');
+
+    await expect(page.locator('#quoteStatus')).toHaveClass(/success/, { timeout: 10000 });
+
+    const submissions = await api.submissions();
+    await expect(page.locator('#quoteStatus')).toContainText(`Confirmation: ${submissions[0].submissionId}`);
+    expect(submissions[0].type).toBe('enterprise-quotes');
+    expect(submissions[0].payload).toMatchObject({
+      plan: 'enterprise',
+      name: 'Grace Hopper',
+      seats: '250',
+      message: 'Custom SLA and insurance add-ons',
+    });
+  });
+
+  test('honeypot blocks submission on any form', async ({ page }) => {
+    await page.fill('#newsletterEmail', 'bot@example.com');
+    await page.locator('#newsletterForm input[name="_gotcha"]').evaluate((el: HTMLInputElement) => {
+      el.value = 'spam';
+    });
+    await page.click('#newsletterForm button[type="submit"]');
+
+    await page.waitForTimeout(500);
+    expect(await api.requests()).toHaveLength(0);
+  });
+
+  test('rate limit is shared between forms', async ({ page }) => {
+    await page.evaluate(() => {
+      const now = Date.now();
+      localStorage.setItem('gc_form_submissions', JSON.stringify(Array.from({ length: 10 }, (_, i) => now - i * 1000)));
+    });
+
+    await page.fill('#newsletterEmail', 'limit@example.com');
+    await page.click('#newsletterForm button[type="submit"]');
+
+    await expect(page.locator('#newsletterStatus')).toContainText('Too many submissions');
+    await expect(page.locator('#newsletterStatus')).toHaveClass(/error/);
+    expect(await api.requests()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,93 @@
+import { test, expect, Page } from '@playwright/test';
+import { useMockFormsApi } from './forms-api';
+
+// The switcher is in the navigation menu, collapsed on mobile
+async function clickMenu(page: Page, selector: string) {
+  const navToggle = page.locator('.nav-toggle');
+  if (await navToggle.isVisible()) {
+    await navToggle.click();
+    await expect(page.locator('.nav-menu')).toHaveClass(/active/);
+  }
+  await page.click(selector);
+}
+
+const pickLanguage = (page: Page, locale: string) => clickMenu(page, `.language-switcher a[data-locale="${locale}"]`);
+
+test.describe('Translations', () => {
+  test('translated pages declare their language and link every version', async ({ page, baseURL }) => {
+    await page.goto('/te/contact_us.html');
+
+    await expect(page.locator('html')).toHaveAttribute('lang', 'te');
+    await expect(page.locator('h1')).toHaveText('మమ్మల్ని సంప్రదించండి');
+    await expect(page.locator('link[rel="canonical"]')).toHaveAttribute('href', /\/te\/contact_us\.html$/);
+    for (const hreflang of ['en', 'te', 'hi', 'x-default']) {
+      await expect(page.locator(`link[rel="alternate"][hreflang="${hreflang}"]`)).toHaveCount(1);
+    }
+    await expect(page.locator('link[hreflang="x-default"]')).toHaveAttribute('href', /\/contact_us\.html$/);
+    await expect(page.locator('.language-switcher a[aria-current="true"]')).toHaveText('తెలుగు');
+
+    // Assets and untranslated pages are linked from the site root
+    const script = await page.locator('script[src]').getAttribute('src');
+    expect(new URL(script!, `${baseURL}/te/`).pathname).toMatch(/^\/js\/main\.[0-9a-f]+\.js$/);
+    await expect(page.locator('.nav-menu a[href="../blog.html"]')).toHaveCount(1);
+  });
+
+  test('the language switcher remembers the choice', async ({ page }) => {
+    await page.goto('/about_us.html');
+    await page.evaluate(() => localStorage.removeItem('gc_locale'));
+
+    await pickLanguage(page, 'hi');
+    await expect(page).toHaveURL(/\/hi\/about_us\.html$/);
+    expect(await page.evaluate(() => localStorage.getItem('gc_locale'))).toBe('hi');
+
+    // Pages linked from the site open in Hindi where they are translated
+    await clickMenu(page, '.nav-menu a[href$="blog.html"]');
+    await expect(page).toHaveURL(/\/blog\.html$/);
+    await expect(page.locator('html')).toHaveAttribute('lang', 'en');
+    await clickMenu(page, '.nav-menu a[href="products.html"]');
+    await expect(page).toHaveURL(/\/hi\/products\.html$/);
+    await expect(page.locator('html')).toHaveAttribute('lang', 'hi');
+
+    await page.goto('/hi/services.html');
+    await pickLanguage(page, 'en');
+    await expect(page).toHaveURL(/\/services\.html$/);
+    await clickMenu(page, '.nav-menu a[href="products.html"]');
+    await expect(page.locator('html')).toHaveAttribute('lang', 'en');
+  });
+
+  test('a page opened directly stays in the language of its URL', async ({ page }) => {
+    await page.goto('/te/index.html');
+    await page.evaluate(() => localStorage.setItem('gc_locale', 'te'));
+
+    // As from a shared link or a search result
+    await page.goto('/hi/about_us.html');
+    await expect(page).toHaveURL(/\/hi\/about_us\.html$/);
+    await page.goto('/about_us.html');
+    await expect(page).toHaveURL(/\/about_us\.html$/);
+    await expect(page.locator('html')).toHaveAttribute('lang', 'en');
+  });
+
+  test('form messages are shown in the page language', async ({ page }) => {
+    const api = await useMockFormsApi(page);
+    await page.goto('/te/contact_us.html');
+    await page.evaluate(() => localStorage.removeItem('gc_form_submissions'));
+
+    await page.fill('#firstName', 'J');
+    await page.locator('#firstName').blur();
+    await expect(page.locator('#firstName-error')).toHaveText('మొదటి పేరు కనీసం 2 అక్షరాలు ఉండాలి.');
+
+    await page.fill('#firstName', 'Telugu');
+    await page.fill('#lastName', 'Reader');
+    await page.fill('#email', 'telugu@example.com');
+    await page.fill('#subject', 'Translated form');
+    await page.fill('#message', 'Checking the form messages in Telugu.');
+
+    await api.fail({ mode: '429', retryAfter: '3' });
+    await page.click('#contactForm button[type="submit"]');
+    await expect(page.locator('#formStatus')).toHaveText('చాలా ఎక్కువ సమర్పణలు. దయచేసి 3 సెకన్ల తర్వాత మళ్లీ ప్రయత్నించండి.', { timeout: 10000 });
+
+    await expect(page.locator('#contactForm button[type="submit"]')).toBeEnabled({ timeout: 5000 });
+    await page.click('#contactForm button[type="submit"]');
+    await expect(page.locator('#formStatus')).toContainText('మీ సందేశానికి ధన్యవాదాలు!', { timeout: 10000 });
+  });
+});
@@ -0,0 +1,13 @@
+import { readFileSync } from 'node:fs';
+import { parse } from 'yaml';
+import type { MenuItem, SiteManifest } from '../tools/lib/manifest';
+import { MANIFEST_FILE } from '../tools/lib/manifest';
+
+/**
+ * manifest.yaml, read synchronously so specs can declare a test per page
+ * or plan; loadManifest() is async, so it only works in hooks and tests.
+ */
+export const testManifest: SiteManifest = parse(readFileSync(MANIFEST_FILE, 'utf8'));
+
+/** Every page in the menu. */
+export const manifestPages: MenuItem[] = testManifest.menu_items;
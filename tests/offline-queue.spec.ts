@@ -0,0 +1,143 @@
+import { test, expect, Page } from '@playwright/test';
+import { MockFormsApi, useMockFormsApi } from './forms-api';
+
+async function fillContactForm(page: Page) {
+  await page.fill('#firstName', 'Offline');
+  await page.fill('#lastName', 'Visitor');
+  await page.fill('#email', 'offline@example.com');
+  await page.fill('#subject', 'Queued message');
+  await page.fill('#message', 'Sent while the connection was down.');
+}
+
+const queue = (page: Page) => page.evaluate(() => JSON.parse(localStorage.getItem('gc_form_queue') || '[]'));
+
+/** Failed attempts; Chromium may retry a dropped request once by itself. */
+const dropped = async (api: MockFormsApi) => (await api.requests()).filter((request) => request.status === 'dropped').length;
+
+test.describe('Offline submission queue', () => {
+  let api: MockFormsApi;
+
+  test.beforeEach(async ({ page }) => {
+    api = await useMockFormsApi(page);
+    // The connection is down until a test recovers it
+    await api.fail({ mode: 'drop', times: 100 });
+    await page.goto('/contact_us.html');
+    await page.evaluate(() => {
+      localStorage.removeItem('gc_form_submissions');
+      localStorage.removeItem('gc_form_queue');
+    });
+  });
+
+  test('queues a failed submission and sends it when back online', async ({ page }) => {
+    await fillContactForm(page);
+    await page.click('#contactForm button[type="submit"]');
+
+    const formStatus = page.locator('#formStatus');
+    await expect(formStatus).toHaveClass(/queued/, { timeout: 10000 });
+    await expect(formStatus).toContainText('will be sent automatically');
+    await expect(page.locator('#firstName')).toHaveValue('');
+
+    const queued = await queue(page);
+    expect(queued).toHaveLength(1);
+    expect(queued[0]).toMatchObject({ type: 'contacts', payload: { firstName: 'Offline', message: 'Sent while the connection was down.' } });
+
+    // Connection recovers
+    await api.recover();
+    await page.evaluate(() => window.dispatchEvent(new Event('online')));
+
+    await expect(formStatus).toHaveClass(/success/, { timeout: 10000 });
+    expect(await queue(page)).toEqual([]);
+
+    const submissions = await api.submissions();
+    expect(submissions).toHaveLength(1);
+    await expect(formStatus).toContainText(`Confirmation: ${submissions[0].submissionId}`);
+    expect(submissions[0].type).toBe('contacts');
+    expect(submissions[0].idempotencyKey).toBe(queued[0].id);
+    expect(submissions[0].payload).toMatchObject({ firstName: 'Offline', email: 'offline@example.com' });
+  });
+
+  test('retries with backoff while the connection stays down', async ({ page }) => {
+    await fillContactForm(page);
+    await page.click('#contactForm button[type="submit"]');
+    await expect(page.locator('#formStatus')).toHaveClass(/queued/, { timeout: 10000 });
+
+    // First attempt plus the retry scheduled 2s later
+    await expect.poll(async () => (await queue(page))[0]?.attempts, { timeout: 10000 }).toBe(1);
+    expect(await dropped(api)).toBeGreaterThanOrEqual(2);
+
+    const [entry] = await queue(page);
+    expect(entry.nextAttemptAt - Date.now()).toBeGreaterThan(1000);
+    expect(await api.submissions()).toHaveLength(0);
+  });
+
+  test('sends queued submissions on the next page load', async ({ page }) => {
+    await fillContactForm(page);
+    await page.click('#contactForm button[type="submit"]');
+    await expect(page.locator('#formStatus')).toHaveClass(/queued/, { timeout: 10000 });
+    const [queued] = await queue(page);
+
+    // Make the entry due immediately, as if the visitor came back later
+    await api.recover();
+    await page.evaluate(() => {
+      const entries = JSON.parse(localStorage.getItem('gc_form_queue') || '[]');
+      entries[0].nextAttemptAt = 0;
+      localStorage.setItem('gc_form_queue', JSON.stringify(entries));
+    });
+    await page.goto('/index.html');
+
+    await expect.poll(async () => (await api.submissions()).length, { timeout: 10000 }).toBe(1);
+    expect((await api.submissions())[0].idempotencyKey).toBe(queued.id);
+    await expect.poll(() => queue(page)).toEqual([]);
+  });
+
+  test('queues while the browser cannot reach the API and sends once it can', async ({ page }) => {
+    // Requests fail in the browser itself, without reaching the API
+    await api.recover();
+    const toApi = (url: URL) => url.href.startsWith(api.endpoint);
+    await page.route(toApi, (route) => route.abort('internetdisconnected'));
+
+    await fillContactForm(page);
+    await page.click('#contactForm button[type="submit"]');
+    const formStatus = page.locator('#formStatus');
+    await expect(formStatus).toHaveClass(/queued/, { timeout: 10000 });
+    const [queued] = await queue(page);
+    expect(queued).toMatchObject({ type: 'contacts', payload: { email: 'offline@example.com' } });
+    expect(await api.requests()).toEqual([]);
+
+    // Connection recovers
+    await page.unroute(toApi);
+    await page.evaluate(() => window.dispatchEvent(new Event('online')));
+
+    await expect(formStatus).toHaveClass(/success/, { timeout: 10000 });
+    expect(await queue(page)).toEqual([]);
+    const submissions = await api.submissions();
+    expect(submissions).toHaveLength(1);
+    expect(submissions[0].idempotencyKey).toBe(queued.id);
+    await expect(formStatus).toContainText(`Confirmation: ${submissions[0].submissionId}`);
+  });
+
+  test('keeps the same idempotency key across retries', async ({ page }) => {
+    // Fail twice, then accept
+    await api.recover();
+    await api.fail({ mode: 'drop', times: 2 });
+
+    await page.fill('#newsletterEmail', 'retry@example.com');
+    await page.click('#newsletterForm button[type="submit"]');
+    await expect(page.locator('#newsletterStatus')).toHaveClass(/queued/, { timeout: 10000 });
+
+    await page.evaluate(() => window.dispatchEvent(new Event('online')));
+    await expect.poll(async () => (await api.requests()).length, { timeout: 10000 }).toBeGreaterThanOrEqual(2);
+    await page.evaluate(() => window.dispatchEvent(new Event('online')));
+
+    await expect(page.locator('#newsletterStatus')).toHaveClass(/success/, { timeout: 15000 });
+    const [submission] = await api.submissions();
+    await expect(page.locator('#newsletterStatus')).toContainText(`Confirmation: ${submission.submissionId}`);
+
+    // The first attempt goes without a key; every retry sends the queued one
+    const [first, ...retries] = (await api.requests()).map((request) => request.idempotencyKey);
+    expect(first).toBeNull();
+    const keys = new Set(retries.filter((key) => key !== null));
+    expect(keys.size).toBe(1);
+    expect(retries.at(-1)).toBe([...keys][0]);
+  });
+});
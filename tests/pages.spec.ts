@@ -1,4 +1,12 @@
 import { test, expect } from '@playwright/test';
+import { ContentCollections, loadContent } from '../tools/lib/content';
+import { loadManifest } from '../tools/lib/manifest';
+
+let content: ContentCollections;
+
+test.beforeAll(async () => {
+  content = await loadContent((await loadManifest()).plans);
+});
 
 test.describe('Page Loading', () => {
   test('homepage loads correctly', async ({ page }) => {
@@ -100,7 +108,14 @@ test.describe('Visual Elements', () => {
   test('feature cards are visible', async ({ page }) => {
     await page.goto('/');
     const featureCards = page.locator('.feature-card');
-    await expect(featureCards).toHaveCount(4);
+    await expect(featureCards).toHaveCount(content.features.length);
+    await expect(featureCards.locator('h3')).toHaveText(content.features.map((feature) => feature.title));
+  });
+
+  test('products page shows one card per pricing tier', async ({ page }) => {
+    await page.goto('/products.html');
+    const section = page.locator('section', { has: page.getByRole('heading', { name: 'Subscription Models' }) });
+    await expect(section.locator('.pricing-card h3')).toHaveText(content.pricing_tiers.map((tier) => tier.title ?? tier.plan));
   });
 
   test('footer is visible', async ({ page }) => {
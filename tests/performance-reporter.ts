@@ -0,0 +1,57 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { FullConfig, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { currentCommit, resolveBuildId } from '../tools/lib/build-info';
+import type { PerformanceReport, PerformanceResult } from '../tools/lib/performance-budget';
+import { ROOT_DIR } from '../tools/lib/paths';
+
+/** Name of the JSON attachment tests/performance.spec.ts adds per page. */
+export const PERFORMANCE_ATTACHMENT = 'performance';
+
+export const PERFORMANCE_REPORT_DIR = path.join(ROOT_DIR, 'performance-report');
+
+/**
+ * Collects the measurements of tests/performance.spec.ts into one JSON file
+ * per build, `performance-report/<build id>.json`, next to the HTML report.
+ * CI keeps these as artifacts to chart the metrics across builds.
+ */
+export default class PerformanceReporter implements Reporter {
+  private baseURL = '';
+  private readonly results: PerformanceResult[] = [];
+
+  onBegin(config: FullConfig): void {
+    this.baseURL = config.projects[0]?.use.baseURL ?? '';
+  }
+
+  onTestEnd(_test: TestCase, result: TestResult): void {
+    for (const attachment of result.attachments) {
+      if (attachment.name === PERFORMANCE_ATTACHMENT && attachment.body) {
+        this.results.push(JSON.parse(attachment.body.toString('utf8')));
+      }
+    }
+  }
+
+  async onEnd(): Promise<void> {
+    if (this.results.length === 0) {
+      return;
+    }
+
+    // Retries report the same page again; keep the last measurement
+    const latest = new Map(this.results.map((result) => [`${result.project} ${result.page}`, result]));
+    const report: PerformanceReport = {
+      buildId: resolveBuildId(),
+      commit: currentCommit(),
+      generatedAt: new Date().toISOString(),
+      baseURL: this.baseURL,
+      results: Array.from(latest.values()),
+    };
+
+    await mkdir(PERFORMANCE_REPORT_DIR, { recursive: true });
+    const file = path.join(PERFORMANCE_REPORT_DIR, `${report.buildId}.json`);
+    await writeFile(file, `${JSON.stringify(report, null, 2)}\n`);
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,84 @@
+import { test, expect, Page } from '@playwright/test';
+import {
+  budgetFor,
+  loadPerformanceBudget,
+  overBudget,
+  PageMetrics,
+  PerformanceBudget,
+  PerformanceResult,
+} from '../tools/lib/performance-budget';
+import { manifestPages } from './manifest-pages';
+import { PERFORMANCE_ATTACHMENT } from './performance-reporter';
+import { stubWebFonts } from './web-fonts';
+
+let budget: PerformanceBudget;
+
+test.beforeAll(async () => {
+  budget = await loadPerformanceBudget();
+});
+
+/**
+ * Web Vitals from the buffered performance entries, plus what the page and
+ * its subresources cost. Call once the page has loaded.
+ */
+async function measure(page: Page): Promise<PageMetrics> {
+  const metrics = await page.evaluate(
+    () =>
+      new Promise<PageMetrics>((resolve) => {
+        let lcp = 0;
+        let cls = 0;
+        new PerformanceObserver((list) => {
+          for (const entry of list.getEntries()) {
+            lcp = entry.startTime;
+          }
+        }).observe({ type: 'largest-contentful-paint', buffered: true });
+        new PerformanceObserver((list) => {
+          for (const entry of list.getEntries() as Array<PerformanceEntry & { value: number; hadRecentInput: boolean }>) {
+            if (!entry.hadRecentInput) {
+              cls += entry.value;
+            }
+          }
+        }).observe({ type: 'layout-shift', buffered: true });
+
+        const entries = [
+          ...performance.getEntriesByType('navigation'),
+          ...performance.getEntriesByType('resource'),
+        ] as PerformanceResourceTiming[];
+        const bytes = entries.reduce((total, entry) => total + entry.transferSize, 0);
+
+        // Buffered entries are delivered in a later task
+        setTimeout(() => resolve({ lcp_ms: lcp, cls, transfer_kb: bytes / 1024, requests: entries.length }), 100);
+      }),
+  );
+
+  return {
+    lcp_ms: Math.round(metrics.lcp_ms),
+    cls: Number(metrics.cls.toFixed(3)),
+    transfer_kb: Number(metrics.transfer_kb.toFixed(1)),
+    requests: metrics.requests,
+  };
+}
+
+test.describe('Performance budgets', () => {
+  for (const item of manifestPages) {
+    test(`${item.link} stays within its budget`, async ({ page, browserName }, testInfo) => {
+      test.skip(browserName !== 'chromium', 'LCP and CLS are only reported by Chromium');
+
+      await stubWebFonts(page);
+      await page.goto(`/${item.link}`, { waitUntil: 'networkidle' });
+
+      const metrics = await measure(page);
+      const pageBudget = budgetFor(budget, item.link);
+      const result: PerformanceResult = {
+        project: testInfo.project.name,
+        page: item.link,
+        metrics,
+        budget: pageBudget,
+        overBudget: overBudget(metrics, pageBudget),
+      };
+      await testInfo.attach(PERFORMANCE_ATTACHMENT, { body: JSON.stringify(result), contentType: 'application/json' });
+
+      expect(result.overBudget, `${item.link}: ${JSON.stringify(metrics)}`).toEqual([]);
+    });
+  }
+});
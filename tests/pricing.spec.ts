@@ -0,0 +1,91 @@
+import { test, expect, Page } from '@playwright/test';
+import { formatPrice, savingsText } from '../src/ts/pricing';
+import type { Plan } from '../tools/lib/manifest';
+import { testManifest as manifest } from './manifest-pages';
+
+const plans: Plan[] = manifest.plans ?? [];
+const pricedPlans = plans.filter((plan) => plan.price);
+const currencies = Object.keys(pricedPlans[0]?.price ?? {});
+
+const card = (page: Page, plan: Plan) => page.locator('.pricing-card', { has: page.locator('h3', { hasText: new RegExp(`^${plan.name}\\b`) }) });
+
+test.describe('Pricing', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/products.html');
+  });
+
+  test('shows a card per plan and a comparison column per plan', async ({ page }) => {
+    await expect(page.locator('.pricing-card')).toHaveCount(plans.length);
+    await expect(page.locator('.pricing-table thead th[scope="col"]')).toHaveText(['Feature', ...plans.map((plan) => plan.name)]);
+  });
+
+  test('starts with monthly prices in the first currency', async ({ page }) => {
+    await expect(page.locator('button[data-billing="monthly"]')).toHaveAttribute('aria-pressed', 'true');
+    for (const plan of pricedPlans) {
+      await expect(card(page, plan).locator('.pricing-amount')).toHaveText(formatPrice(plan.price![currencies[0]], currencies[0]));
+      await expect(card(page, plan).locator('.pricing-period')).toHaveText('/month');
+    }
+  });
+
+  for (const currency of currencies) {
+    test(`annual billing in ${currency} shows the yearly price and savings`, async ({ page }) => {
+      await page.click(`button[data-currency="${currency}"]`);
+      await page.click('button[data-billing="annual"]');
+      await expect(page.locator(`button[data-currency="${currency}"]`)).toHaveAttribute('aria-pressed', 'true');
+
+      for (const plan of pricedPlans) {
+        const annual = plan.annual_price?.[currency] ?? plan.price![currency] * 12;
+        const prices = { monthly: plan.price!, annual: { ...plan.price!, [currency]: annual } };
+        await expect(card(page, plan).locator('.pricing-amount')).toHaveText(formatPrice(annual, currency));
+        await expect(card(page, plan).locator('.pricing-period')).toHaveText('/year');
+
+        const savings = card(page, plan).locator('.pricing-savings');
+        const expected = savingsText(prices, currency);
+        if (expected) {
+          await expect(savings).toHaveText(expected);
+        } else {
+          await expect(savings).toBeHidden();
+        }
+      }
+    });
+  }
+
+  test('signup links carry the choice and the campaign', async ({ page }) => {
+    await page.goto('/products.html?utm_source=newsletter&utm_campaign=pricing&referredBy=partner-42');
+    await page.click(`button[data-currency="${currencies.at(-1)}"]`);
+    await page.click('button[data-billing="annual"]');
+
+    for (const plan of pricedPlans) {
+      const href = await card(page, plan).locator('a[data-signup]').getAttribute('href');
+      const url = new URL(href!);
+      expect(`${url.origin}${url.pathname}`).toBe(manifest.signup_url);
+      expect(Object.fromEntries(url.searchParams)).toMatchObject({
+        plan: plan.name.toLowerCase(),
+        billing: 'annual',
+        currency: currencies.at(-1),
+        source: 'newsletter',
+        utm_source: 'newsletter',
+        utm_campaign: 'pricing',
+        referredBy: 'partner-42',
+      });
+    }
+  });
+
+  test('the quote button opens the quote form', async ({ page }) => {
+    const quote = page.locator('a[data-quote]');
+    await expect(page.locator('#enterprise-quote')).toBeHidden();
+    await expect(quote).toHaveAttribute('aria-expanded', 'false');
+
+    await quote.click();
+    await expect(page.locator('#enterprise-quote')).toBeVisible();
+    await expect(quote).toHaveAttribute('aria-expanded', 'true');
+  });
+
+  test('the quote form is open when linked to directly', async ({ page }) => {
+    const quoteLink = plans.find((plan) => plan.quote_link)?.quote_link;
+    test.skip(!quoteLink, 'No plan is quoted');
+
+    await page.goto(`/${quoteLink}`);
+    await expect(page.locator(`#${quoteLink!.split('#')[1]}`)).toBeVisible();
+  });
+});
@@ -0,0 +1,57 @@
+import { test, expect } from '@playwright/test';
+import { resolveBuildId } from '../tools/lib/build-info';
+import { contentHash } from '../tools/lib/fingerprint';
+import { loadManifest } from '../tools/lib/manifest';
+import { ReleaseInfo, VERSION_FILE } from '../tools/site/release';
+import { targetSite } from './target-site';
+
+/**
+ * Post-deploy check that the expected build is live: EXPECTED_BUILD_ID
+ * (printed by `npm run deploy`) against a deployed BASE_URL, or the local
+ * build of this checkout. Part of the smoke profile (tests/smoke.spec.ts).
+ */
+const expectedBuildId = process.env.EXPECTED_BUILD_ID ?? (process.env.BASE_URL ? undefined : resolveBuildId());
+
+let release: ReleaseInfo;
+
+test.beforeAll(async ({ playwright, baseURL }) => {
+  const request = await playwright.request.newContext({ baseURL });
+  const response = await request.get(`/${VERSION_FILE}`);
+  expect(response.status(), `/${VERSION_FILE}`).toBe(200);
+  release = await response.json();
+  await request.dispose();
+});
+
+test.describe('Release metadata @smoke', () => {
+  test('version.json describes the expected build for this environment', async ({ baseURL }) => {
+    const manifest = await loadManifest();
+    const site = await targetSite(baseURL!);
+
+    expect(release.version).toBe(manifest.version);
+    expect(release.env).toBe(site.name);
+    expect(release.buildId).toMatch(/^\d{14}$/);
+    if (expectedBuildId) {
+      expect(release.buildId, 'live build').toBe(expectedBuildId);
+    }
+  });
+
+  test('pages show the same build in the footer', async ({ request }) => {
+    const html = await (await request.get('/index.html')).text();
+    expect(html).toContain(`Build ${release.buildId}`);
+  });
+
+  test('every file of the release is served with its recorded hash', async ({ request }) => {
+    const files = Object.entries(release.files);
+    expect(files.length).toBeGreaterThan(0);
+    expect(release.files).not.toHaveProperty(VERSION_FILE);
+
+    const stale: string[] = [];
+    for (const [file, hash] of files) {
+      const response = await request.get(`/${file}`);
+      if (!response.ok() || contentHash(await response.body()) !== hash) {
+        stale.push(`${file} (${response.status()})`);
+      }
+    }
+    expect(stale, 'files not matching version.json').toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import { test, expect } from '@playwright/test';
+import { loadPosts, Post } from '../tools/lib/blog';
+import type { SiteEnvironment } from '../tools/lib/env-config';
+import { localePath, TRANSLATED_LOCALES } from '../tools/lib/i18n';
+import { loadManifest, SiteManifest } from '../tools/lib/manifest';
+import { translatedPages } from '../tools/site/i18n';
+import { canonicalUrl } from '../tools/site/urls';
+import { targetSite } from './target-site';
+
+let manifest: SiteManifest;
+let site: SiteEnvironment;
+let posts: Post[];
+
+test.beforeAll(async ({ baseURL }) => {
+  manifest = await loadManifest();
+  site = await targetSite(baseURL!);
+  posts = await loadPosts({ drafts: site.drafts });
+});
+
+test.describe('Search engine files', () => {
+  test('sitemap.xml lists every manifest page, translation and blog article on the canonical host', async ({ request }) => {
+    const response = await request.get('/sitemap.xml');
+    expect(response.status()).toBe(200);
+
+    const sitemap = await response.text();
+    const locations = Array.from(sitemap.matchAll(/<loc>([^<]+)<\/loc>/g), (match) => match[1]);
+    const translations = TRANSLATED_LOCALES.flatMap((locale) => translatedPages(manifest).map((item) => ({ link: localePath(locale, item.link) })));
+    const pages = [...manifest.menu_items, ...translations, ...posts];
+    expect(locations).toEqual(pages.map((page) => canonicalUrl(site, page.link)));
+  });
+
+  test('robots.txt only invites crawlers in production', async ({ request }) => {
+    const response = await request.get('/robots.txt');
+    expect(response.status()).toBe(200);
+
+    const robots = await response.text();
+    if (site.indexable) {
+      expect(robots).toContain(`Sitemap: ${site.siteUrl}sitemap.xml`);
+      expect(robots).not.toContain('Disallow: /');
+    } else {
+      expect(robots).toContain('Disallow: /');
+    }
+  });
+});
+
+test.describe('Page metadata', () => {
+  test('every manifest page has canonical, Open Graph and Twitter tags', async ({ page }) => {
+    const meta = (selector: string) => page.locator(`meta[${selector}]`);
+
+    for (const item of manifest.menu_items) {
+      await page.goto(`/${item.link}`);
+      const url = canonicalUrl(site, item.link);
+
+      await expect(page.locator('link[rel="canonical"]'), item.link).toHaveAttribute('href', url);
+      await expect(meta('property="og:url"'), item.link).toHaveAttribute('content', url);
+      await expect(meta('property="og:title"'), item.link).toHaveAttribute('content', item.title);
+      await expect(meta('property="og:description"'), item.link).toHaveAttribute('content', item.description);
+      await expect(meta('property="og:site_name"'), item.link).toHaveAttribute('content', manifest.site_title);
+      await expect(meta('name="twitter:title"'), item.link).toHaveAttribute('content', item.title);
+      await expect(meta('name="twitter:description"'), item.link).toHaveAttribute('content', item.description);
+
+      if (site.indexable) {
+        await expect(meta('name="robots"'), item.link).toHaveCount(0);
+      } else {
+        await expect(meta('name="robots"'), item.link).toHaveAttribute('content', 'noindex, nofollow');
+      }
+    }
+  });
+
+  test('share image is served from the canonical host', async ({ page, request }) => {
+    test.skip(!manifest.share_image, 'manifest.yaml has no share_image');
+
+    await page.goto('/');
+    const image = `${site.siteUrl}${manifest.share_image}`;
+    await expect(page.locator('meta[property="og:image"]')).toHaveAttribute('content', image);
+    await expect(page.locator('meta[name="twitter:card"]')).toHaveAttribute('content', 'summary_large_image');
+    await expect(page.locator('meta[name="twitter:image"]')).toHaveAttribute('content', image);
+
+    // Fetched relative to the tested server, which may not be the canonical host
+    const response = await request.get(`/${manifest.share_image}`);
+    expect(response.status()).toBe(200);
+    expect(response.headers()['content-type']).toMatch(/^image\/(png|jpeg)/);
+  });
+});
@@ -0,0 +1,84 @@
+import { test, expect } from '@playwright/test';
+import { MOCK_FORMS_ENDPOINT } from '../tools/mock-api/server';
+import { parseCsp, SECURITY_HEADERS } from '../tools/site/csp';
+import { manifestPages } from './manifest-pages';
+import { targetSite } from './target-site';
+
+/**
+ * Read-only checks for a deployed environment, run on one browser with
+ * `BASE_URL=https://stg.gadgetcloud.io npm run test:smoke` (the `smoke`
+ * project also runs tests/release.spec.ts). Nothing is submitted: any
+ * request other than GET or HEAD is aborted.
+ */
+
+/** Sent by the CloudFront response headers policy in terraform/cloudfront.tf. */
+const CLOUDFRONT_HEADERS: Record<string, string> = {
+  'x-content-type-options': SECURITY_HEADERS.contentTypeOptions,
+  'x-frame-options': SECURITY_HEADERS.frameOptions,
+  'referrer-policy': SECURITY_HEADERS.referrerPolicy,
+  'strict-transport-security': 'max-age=31536000; includeSubDomains; preload',
+  'x-xss-protection': '1; mode=block',
+};
+
+/** The forms API the target's pages must post to; the local build uses the mock. */
+async function expectedFormsEndpoint(baseURL: string): Promise<string> {
+  return process.env.BASE_URL ? (await targetSite(baseURL)).formsEndpoint : MOCK_FORMS_ENDPOINT;
+}
+
+function metaContent(html: string, attribute: string, value: string): string | undefined {
+  const tag = html.match(new RegExp(`<meta ${attribute}="${value}"[^>]*>`))?.[0];
+  return tag?.match(/content="([^"]*)"/)?.[1].replace(/&amp;/g, '&');
+}
+
+test.describe('Smoke: pages @smoke', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.route('**/*', (route) =>
+      ['GET', 'HEAD'].includes(route.request().method()) ? route.fallback() : route.abort('blockedbyclient'),
+    );
+  });
+
+  for (const item of manifestPages) {
+    test(`${item.link} loads without script errors`, async ({ page }) => {
+      const errors: string[] = [];
+      page.on('pageerror', (error) => errors.push(error.message));
+
+      const response = await page.goto(`/${item.link}`);
+      expect(response?.status()).toBe(200);
+      await expect(page.locator('h1').first()).toBeVisible();
+      expect(errors).toEqual([]);
+    });
+  }
+});
+
+test.describe('Smoke: responses @smoke', () => {
+  test('the home page is served at /', async ({ request }) => {
+    expect((await request.get('/')).status()).toBe(200);
+  });
+
+  test('pages and assets carry the CloudFront security headers', async ({ request, baseURL }) => {
+    test.skip(new URL(baseURL!).protocol !== 'https:', 'Only CloudFront sends these headers');
+
+    const html = await (await request.get('/index.html')).text();
+    const assets = Array.from(html.matchAll(/(?:href|src)="\/?((?:css|js)\/[^"]+)"/g), (match) => `/${match[1]}`);
+    expect(assets.length).toBeGreaterThanOrEqual(2);
+
+    for (const url of ['/', '/index.html', ...assets]) {
+      const headers = (await request.get(url)).headers();
+      for (const [name, value] of Object.entries(CLOUDFRONT_HEADERS)) {
+        expect(headers[name], `${name} on ${url}`).toBe(value);
+      }
+    }
+  });
+
+  test('pages post forms to the environment forms API', async ({ request, baseURL }) => {
+    const endpoint = await expectedFormsEndpoint(baseURL!);
+
+    for (const item of manifestPages) {
+      const html = await (await request.get(`/${item.link}`)).text();
+      expect(metaContent(html, 'name', 'forms-api-endpoint'), item.link).toBe(endpoint);
+
+      const csp = parseCsp(metaContent(html, 'http-equiv', 'Content-Security-Policy') ?? '');
+      expect(csp['connect-src'], item.link).toContain(new URL(endpoint).origin);
+    }
+  });
+});
@@ -0,0 +1,87 @@
+import { test, expect, Page } from '@playwright/test';
+import { loadManifest, SiteManifest } from '../tools/lib/manifest';
+import type { StructuredDataDocument } from '../tools/site/structured-data';
+
+let manifest: SiteManifest;
+
+test.beforeAll(async () => {
+  manifest = await loadManifest();
+});
+
+async function structuredData(page: Page): Promise<StructuredDataDocument[]> {
+  const blocks = await page.locator('script[type="application/ld+json"]').allTextContents();
+  return blocks.map((block) => JSON.parse(block));
+}
+
+test.describe('Structured data', () => {
+  test('pages carry exactly the JSON-LD the manifest asks for', async ({ page }) => {
+    for (const item of manifest.menu_items) {
+      await page.goto(`/${item.link}`);
+      const documents = await structuredData(page);
+
+      if (!item.structured_data) {
+        expect(documents, item.link).toEqual([]);
+        continue;
+      }
+      expect(documents, item.link).toHaveLength(1);
+      expect(documents[0]['@context']).toBe('https://schema.org');
+
+      const types = documents[0]['@graph'].map((entry) => entry['@type']);
+      expect(types, item.link).toContain('Organization');
+      expect(types.includes('Product'), item.link).toBe(item.structured_data.includes('products'));
+    }
+  });
+
+  test('organization matches the footer and contact page', async ({ page }) => {
+    await page.goto('/contact_us.html');
+    const [document] = await structuredData(page);
+    const organization = document['@graph'].find((entry) => entry['@type'] === 'Organization');
+    expect(organization).toBeDefined();
+    if (organization?.['@type'] !== 'Organization') {
+      return;
+    }
+
+    const socialLinks = await page.locator('.footer-social a').evaluateAll((links) => links.map((link) => (link as HTMLAnchorElement).href));
+    expect(organization.sameAs).toEqual(socialLinks);
+    expect(organization.address.postalCode).toBe(manifest.address.zip);
+
+    // Every contact point is an email the page shows
+    for (const point of organization.contactPoint) {
+      await expect(page.locator(`main a[href="mailto:${point.email}"]`)).toHaveCount(1);
+    }
+  });
+
+  test('every plan on the products page is described with offers', async ({ page }) => {
+    await page.goto('/products.html');
+    const [document] = await structuredData(page);
+    const products = document['@graph'].filter((entry) => entry['@type'] === 'Product');
+
+    expect(products).toHaveLength(manifest.plans?.length ?? 0);
+    for (const product of products) {
+      if (product['@type'] !== 'Product') {
+        continue;
+      }
+      expect(product.offers.length, product.name).toBeGreaterThan(0);
+      for (const offer of product.offers) {
+        expect(offer.url.startsWith('https://'), product.name).toBe(true);
+        if (offer.price !== undefined) {
+          expect(offer.priceCurrency, product.name).toMatch(/^[A-Z]{3}$/);
+        }
+      }
+    }
+
+    // Plan names are the tier headings shown on the page
+    for (const plan of manifest.plans ?? []) {
+      await expect(page.locator('main h3', { hasText: new RegExp(`^${plan.name}\\b`) }).first()).toBeVisible();
+    }
+  });
+
+  test('translated pages describe themselves in their language', async ({ page }) => {
+    await page.goto('/te/contact_us.html');
+    const [document] = await structuredData(page);
+    const webPage = document['@graph'].find((entry) => entry['@type'] === 'WebPage');
+
+    expect(webPage).toMatchObject({ inLanguage: 'te', name: await page.title() });
+    expect(webPage?.['@type'] === 'WebPage' && webPage.url).toBe(await page.locator('link[rel="canonical"]').getAttribute('href'));
+  });
+});
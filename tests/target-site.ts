@@ -0,0 +1,15 @@
+import { ENVIRONMENTS, loadEnvConfig, SiteEnvironment, toSiteEnvironment } from '../tools/lib/env-config';
+
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+/** Whether BASE_URL points at a deployed site rather than a server on this machine. */
+export function isRemoteTarget(baseURL = process.env.BASE_URL): boolean {
+  return !!baseURL && !LOCAL_HOSTS.has(new URL(baseURL).hostname);
+}
+
+/** The deployed environment matching BASE_URL; local runs build stg. */
+export async function targetSite(baseURL: string): Promise<SiteEnvironment> {
+  const sites = await Promise.all(ENVIRONMENTS.map(async (env) => toSiteEnvironment(env, await loadEnvConfig(env))));
+  const host = new URL(baseURL).hostname;
+  return sites.find((candidate) => candidate.hostName === host) ?? sites.find((candidate) => candidate.name === 'stg')!;
+}
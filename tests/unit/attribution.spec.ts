@@ -0,0 +1,130 @@
+import { test, expect } from '@playwright/test';
+import {
+  ATTRIBUTION_KEY,
+  ATTRIBUTION_MAX_AGE_MS,
+  getReferredBy,
+  getSource,
+  readAttribution,
+  recordTouch,
+  startsNewTouch,
+  touchFromPage,
+} from '../../src/ts/attribution';
+import { MemoryStorage } from './helpers';
+
+const page = { href: 'https://www.gadgetcloud.io/', search: '', hostname: 'www.gadgetcloud.io', referrer: '' };
+
+test.describe('getSource', () => {
+  test('prefers utm_source over other parameters', () => {
+    expect(getSource({ ...page, search: '?ref=partner&utm_source=newsletter' })).toBe('newsletter');
+  });
+
+  test('falls back to ref and source parameters', () => {
+    expect(getSource({ ...page, search: '?ref=partner' })).toBe('partner');
+    expect(getSource({ ...page, search: '?source=flyer' })).toBe('flyer');
+  });
+
+  test('classifies referrers', () => {
+    expect(getSource({ ...page, referrer: 'https://www.google.com/search?q=gadgets' })).toBe('google');
+    expect(getSource({ ...page, referrer: 'https://t.co/abc' })).toBe('twitter');
+    expect(getSource({ ...page, referrer: 'https://www.gadgetcloud.io/products.html' })).toBe('internal');
+    expect(getSource({ ...page, referrer: 'https://blog.example.com/post' })).toBe('blog.example.com');
+  });
+
+  test('reports direct traffic and malformed referrers', () => {
+    expect(getSource(page)).toBe('direct');
+    expect(getSource({ ...page, referrer: 'not a url' })).toBe('unknown');
+  });
+});
+
+test.describe('getReferredBy', () => {
+  test('reads the referredBy parameter', () => {
+    expect(getReferredBy('?referredBy=affiliate-partner-123')).toBe('affiliate-partner-123');
+    expect(getReferredBy('?utm_source=x')).toBeNull();
+  });
+});
+
+const landing = {
+  ...page,
+  href: 'https://www.gadgetcloud.io/?utm_source=newsletter&utm_medium=email&utm_campaign=spring&utm_id=42&gclid=G-1',
+  search: '?utm_source=newsletter&utm_medium=email&utm_campaign=spring&utm_id=42&gclid=G-1',
+};
+const contactPage = {
+  ...page,
+  href: 'https://www.gadgetcloud.io/contact_us.html',
+  referrer: 'https://www.gadgetcloud.io/',
+};
+
+test.describe('touchFromPage', () => {
+  test('records every utm parameter, click IDs and the landing page', () => {
+    expect(touchFromPage(landing, 1000)).toEqual({
+      source: 'newsletter',
+      utm: { utm_source: 'newsletter', utm_medium: 'email', utm_campaign: 'spring', utm_id: '42' },
+      gclid: 'G-1',
+      referrer: 'direct',
+      landingPage: landing.href,
+      capturedAt: 1000,
+      expiresAt: 1000 + ATTRIBUTION_MAX_AGE_MS,
+    });
+  });
+});
+
+test.describe('startsNewTouch', () => {
+  test('counts tagged and referred visits but not internal or direct ones', () => {
+    expect(startsNewTouch(landing)).toBe(true);
+    expect(startsNewTouch({ ...page, search: '?fbclid=F-1' })).toBe(true);
+    expect(startsNewTouch({ ...page, referrer: 'https://www.google.com/' })).toBe(true);
+    expect(startsNewTouch(contactPage)).toBe(false);
+    expect(startsNewTouch(page)).toBe(false);
+  });
+});
+
+test.describe('recordTouch', () => {
+  test('keeps the campaign across navigation within the site', () => {
+    const storage = new MemoryStorage();
+    recordTouch(landing, storage, 1000);
+    const attribution = recordTouch(contactPage, storage, 2000);
+
+    expect(attribution.lastTouch?.source).toBe('newsletter');
+    expect(attribution.lastTouch?.landingPage).toBe(landing.href);
+    expect(readAttribution(storage, 2000)).toEqual(attribution);
+  });
+
+  test('keeps the first touch and replaces the last one on a new visit', () => {
+    const storage = new MemoryStorage();
+    recordTouch(landing, storage, 1000);
+    recordTouch({ ...page, referrer: 'https://www.linkedin.com/feed' }, storage, 5000);
+
+    const { firstTouch, lastTouch } = readAttribution(storage, 5000);
+    expect(firstTouch?.source).toBe('newsletter');
+    expect(lastTouch?.source).toBe('linkedin');
+    expect(lastTouch?.capturedAt).toBe(5000);
+  });
+
+  test('records a direct visit only when nothing is stored', () => {
+    const storage = new MemoryStorage();
+    expect(recordTouch(page, storage, 1000).lastTouch?.source).toBe('direct');
+
+    recordTouch(landing, storage, 2000);
+    expect(recordTouch(page, storage, 3000).lastTouch?.source).toBe('newsletter');
+  });
+
+  test('drops touches once they expire', () => {
+    const storage = new MemoryStorage();
+    recordTouch(landing, storage, 0);
+    recordTouch({ ...page, referrer: 'https://t.co/x' }, storage, 1000);
+
+    expect(readAttribution(storage, ATTRIBUTION_MAX_AGE_MS + 1)).toEqual({ lastTouch: expect.objectContaining({ source: 'twitter' }) });
+    expect(readAttribution(storage, ATTRIBUTION_MAX_AGE_MS + 1000)).toEqual({});
+  });
+
+  test('ignores unreadable and unwritable storage', () => {
+    const storage = new MemoryStorage();
+    storage.setItem(ATTRIBUTION_KEY, 'not json');
+    expect(readAttribution(storage)).toEqual({});
+
+    storage.setItem = () => {
+      throw new Error('QuotaExceededError');
+    };
+    expect(recordTouch(landing, storage, 1000).lastTouch?.source).toBe('newsletter');
+  });
+});
@@ -0,0 +1,233 @@
+import { test, expect } from '@playwright/test';
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { blogPageLinks, loadPosts, Post, postListings, readingMinutes, validatePost } from '../../tools/lib/blog';
+import type { SiteEnvironment } from '../../tools/lib/env-config';
+import type { SiteManifest } from '../../tools/lib/manifest';
+import { ConfigValidationError, formatIssue } from '../../tools/lib/validation';
+import { articlePage, listingPage, renderArticle, renderPostListing } from '../../tools/site/blog';
+import { renderAtomFeed, renderRssFeed } from '../../tools/site/feeds';
+
+const srcDir = mkdtempSync(path.join(tmpdir(), 'gc-blog-src-'));
+mkdirSync(path.join(srcDir, 'images/blog'), { recursive: true });
+writeFileSync(path.join(srcDir, 'images/blog/cover.png'), '');
+
+const article = (frontMatter: string, body = 'Hello.\n') => `---\n${frontMatter}\n---\n\n${body}`;
+const valid = article('title: Hello\ndate: 2026-09-01\ndescription: First post');
+
+const messages = (slug: string, source: string) => validatePost(slug, source, { srcDir }).map(formatIssue);
+
+const manifest = { site_title: 'GadgetCloud', header: 'Your Gadgets, Your Cloud.' } as SiteManifest;
+
+const site: SiteEnvironment = {
+  name: 'prd',
+  hostName: 'www.example.test',
+  siteUrl: 'https://www.example.test/',
+  formsEndpoint: 'https://rest.example.test/forms',
+  formsOrigin: 'https://rest.example.test',
+  indexable: true,
+  drafts: false,
+};
+
+function post(slug: string, date: string, extra: Partial<Post> = {}): Post {
+  return {
+    slug,
+    link: `blog-${slug}.html`,
+    title: `Post ${slug}`,
+    date,
+    description: `About ${slug}`,
+    tags: [],
+    draft: false,
+    html: '<p>Body</p>\n',
+    readingMinutes: 1,
+    ...extra,
+  };
+}
+
+test.describe('validatePost', () => {
+  test('accepts an article with title, date and description', () => {
+    expect(messages('hello', valid)).toEqual([]);
+  });
+
+  test('requires front matter', () => {
+    expect(messages('hello', '# Hello\n')).toEqual(['content/blog/hello.md: must start with front matter between --- lines']);
+  });
+
+  test('reports missing fields, bad dates, tags and unknown keys', () => {
+    const source = article('title: Hello\ndate: 1 Sept 2026\nupdated: 2026-08-01\ntags: [Gadget Care]\ndraft: "yes"\nsummary: Oops');
+    expect(messages('hello', source)).toEqual([
+      'content/blog/hello.md: summary: is not a known key',
+      'content/blog/hello.md: description: is required',
+      'content/blog/hello.md: date: must be a date such as 2025-06-30',
+      'content/blog/hello.md: draft: must be true or false',
+      'content/blog/hello.md: tags[0]: must be a lowercase slug such as gadget-care',
+    ]);
+  });
+
+  test('does not let an update come before publication', () => {
+    const source = article('title: Hello\ndate: 2026-09-01\nupdated: 2026-08-01\ndescription: First post');
+    expect(messages('hello', source)).toEqual(['content/blog/hello.md: updated: must not be before date']);
+  });
+
+  test('reserves slugs that listing pages use', () => {
+    for (const slug of ['page-2', 'tag-news', 'Hello World']) {
+      expect(messages(slug, valid)[0], slug).toContain('file name must be a lowercase slug');
+    }
+  });
+
+  test('keeps the title as the only h1 and checks images', () => {
+    const body = '# Welcome\n\n![Cover](images/blog/cover.png)\n\n![Missing](images/blog/missing.png)\n\n![Remote](https://example.com/a.png)\n';
+    const issues = messages('hello', article('title: Hello\ndate: 2026-09-01\ndescription: First post', body));
+
+    expect(issues).toHaveLength(3);
+    expect(issues[0]).toBe('content/blog/hello.md: body: "# Welcome" must be ## or lower; the title is the page heading');
+    expect(issues[1]).toMatch(/^content\/blog\/hello\.md: body: image .*images\/blog\/missing\.png does not exist$/);
+    expect(issues[2]).toBe('content/blog/hello.md: body: image https://example.com/a.png must be under images/, such as images/blog/cover.png');
+  });
+});
+
+test.describe('readingMinutes', () => {
+  test('rounds up at 200 words a minute, at least one', () => {
+    expect(readingMinutes('')).toBe(1);
+    expect(readingMinutes('word '.repeat(200))).toBe(1);
+    expect(readingMinutes('word '.repeat(201))).toBe(2);
+    expect(readingMinutes('## Heading\n\n- one\n- two\n')).toBe(1);
+  });
+});
+
+test.describe('loadPosts', () => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'gc-blog-'));
+  writeFileSync(path.join(dir, 'older.md'), article('title: Older\ndate: 2026-08-01\ndescription: Older post\ntags: [changelog]'));
+  writeFileSync(path.join(dir, 'newer.md'), article('title: Newer\ndate: 2026-09-01\ndescription: Newer post', '## Notes\n\nSome *text*.\n'));
+  writeFileSync(path.join(dir, 'draft.md'), article('title: Draft\ndate: 2026-10-01\ndescription: Not yet\ndraft: true'));
+
+  test('renders the Markdown, newest first', async () => {
+    const posts = await loadPosts({ drafts: false, dir });
+
+    expect(posts.map((item) => item.slug)).toEqual(['newer', 'older']);
+    expect(posts[0]).toMatchObject({ link: 'blog-newer.html', tags: [], draft: false, readingMinutes: 1 });
+    expect(posts[0].html).toBe('<h2>Notes</h2>\n<p>Some <em>text</em>.</p>\n');
+  });
+
+  test('only includes drafts when asked', async () => {
+    const posts = await loadPosts({ drafts: true, dir });
+    expect(posts.map((item) => [item.slug, item.draft])).toEqual([
+      ['draft', true],
+      ['newer', false],
+      ['older', false],
+    ]);
+  });
+
+  test('reports every invalid article', async () => {
+    const broken = mkdtempSync(path.join(tmpdir(), 'gc-blog-broken-'));
+    writeFileSync(path.join(broken, 'a.md'), article('title: A\ndescription: No date'));
+    writeFileSync(path.join(broken, 'b.md'), 'No front matter\n');
+
+    const error = await loadPosts({ drafts: true, dir: broken }).catch((err) => err);
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect((error as ConfigValidationError).issues.map((issue) => issue.path || issue.message)).toEqual(['date', 'must start with front matter between --- lines']);
+  });
+});
+
+test.describe('postListings', () => {
+  const posts = [
+    post('e', '2026-05-01', { tags: ['changelog'] }),
+    post('d', '2026-04-01'),
+    post('c', '2026-03-01', { tags: ['changelog', 'tips'] }),
+    post('b', '2026-02-01'),
+    post('a', '2026-01-01', { tags: ['changelog'] }),
+  ];
+
+  test('paginates the index and every tag', () => {
+    const listings = postListings(posts, 2);
+
+    expect(listings.map((listing) => [listing.link, listing.posts.map((item) => item.slug).join('')])).toEqual([
+      ['blog.html', 'ed'],
+      ['blog-page-2.html', 'cb'],
+      ['blog-page-3.html', 'a'],
+      ['blog-tag-changelog.html', 'ec'],
+      ['blog-tag-changelog-page-2.html', 'a'],
+      ['blog-tag-tips.html', 'c'],
+    ]);
+    expect(listings[1]).toMatchObject({ page: 2, pageCount: 3, newer: 'blog.html', older: 'blog-page-3.html' });
+    expect(listings[0].newer).toBeUndefined();
+  });
+
+  test('always has a first index page', () => {
+    expect(postListings([])).toEqual([{ link: 'blog.html', page: 1, pageCount: 1, posts: [] }]);
+    expect(blogPageLinks([])).toEqual(['blog.html']);
+  });
+});
+
+test.describe('blog rendering', () => {
+  const posts = [
+    post('hello', '2026-09-02', { title: 'Fast & <simple>', tags: ['changelog'], draft: true }),
+    post('older', '2026-08-01', { updated: '2026-08-15', tags: ['changelog', 'tips'] }),
+  ];
+  const blogPage = { text: 'Blog', link: 'blog.html', title: 'Blog - GadgetCloud', description: 'Updates' };
+
+  test('lists posts with their date, reading time and tags', () => {
+    const html = renderPostListing(postListings(posts)[0], ['changelog', 'tips']);
+
+    expect(html).toContain('<h2><a href="blog-hello.html">Fast &amp; &lt;simple&gt;</a></h2>');
+    expect(html).toContain('<time datetime="2026-09-02">2 September 2026</time> · 1 min read <span class="blog-draft">Draft</span>');
+    expect(html).toContain('<li><a href="blog-tag-tips.html">tips</a></li>');
+    expect(html).not.toContain('blog-pagination');
+  });
+
+  test('links neighbouring pages and marks the current tag', () => {
+    const listing = postListings(posts, 1).find((item) => item.link === 'blog-tag-changelog-page-2.html')!;
+    const html = renderPostListing(listing, ['changelog', 'tips']);
+
+    expect(html).toContain('<a href="blog-tag-changelog.html" rel="prev">Newer posts</a>');
+    expect(html).toContain('<span>Page 2 of 2</span>');
+    expect(html).toContain('<li><a href="blog-tag-changelog.html" aria-current="page">changelog</a></li>');
+    expect(listingPage(blogPage, listing)).toEqual({
+      text: 'Blog',
+      link: 'blog-tag-changelog-page-2.html',
+      title: 'Tagged changelog, Page 2 - Blog - GadgetCloud',
+      description: 'Articles tagged changelog.',
+    });
+  });
+
+  test('renders an article around its unindented body', () => {
+    const html = renderArticle({ ...posts[1], html: '<pre><code>a\n  b\n</code></pre>\n' }, manifest);
+
+    expect(html).toContain('<h1>Post older</h1>');
+    expect(html).toContain('\n<pre><code>a\n  b\n</code></pre>\n');
+    expect(html).toContain('Updated <time datetime="2026-08-15">15 August 2026</time>');
+    expect(html).toContain('<p class="blog-author">By GadgetCloud</p>');
+    expect(articlePage(posts[1], manifest)).toMatchObject({ link: 'blog-older.html', title: 'Post older - GadgetCloud' });
+  });
+});
+
+test.describe('feeds', () => {
+  const posts = [post('hello', '2026-09-02', { tags: ['changelog'] }), post('older', '2026-08-01', { updated: '2026-09-10' })];
+
+  test('RSS lists posts with absolute links', () => {
+    const rss = renderRssFeed(manifest, site, posts, '2026-10-01');
+
+    expect(rss).toContain('<link>https://www.example.test/blog.html</link>');
+    expect(rss).toContain('<guid isPermaLink="true">https://www.example.test/blog-hello.html</guid>');
+    expect(rss).toContain('<pubDate>Wed, 02 Sep 2026 00:00:00 GMT</pubDate>');
+    expect(rss).toContain('<category>changelog</category>');
+    expect(rss).toContain('<lastBuildDate>Thu, 10 Sep 2026 00:00:00 GMT</lastBuildDate>');
+  });
+
+  test('Atom dates entries by their last update', () => {
+    const atom = renderAtomFeed(manifest, site, posts, '2026-10-01');
+
+    expect(atom).toContain('<link href="https://www.example.test/atom.xml" rel="self"/>');
+    expect(atom).toContain('<updated>2026-09-10T00:00:00Z</updated>\n  <entry>');
+    expect(atom).toContain('<published>2026-08-01T00:00:00Z</published>\n    <updated>2026-09-10T00:00:00Z</updated>');
+    expect(renderAtomFeed(manifest, site, [], '2026-10-01')).toContain('<updated>2026-10-01T00:00:00Z</updated>');
+  });
+});
+
+test.describe('content/blog/ articles', () => {
+  test('are valid', async () => {
+    const posts = await loadPosts({ drafts: true });
+    expect(posts.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,85 @@
+import { test, expect } from '@playwright/test';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { SRC_DIR } from '../../tools/lib/paths';
+
+/** WCAG 2.1 AA minimum for body-size text. */
+const MIN_TEXT_CONTRAST = 4.5;
+
+const styles = readFileSync(path.join(SRC_DIR, 'css', 'styles.css'), 'utf8');
+
+/** Custom properties declared in the first `:root` block. */
+function rootTokens(css: string): Map<string, string> {
+  const root = /:root\s*\{([^}]*)\}/.exec(css);
+  if (!root) {
+    throw new Error('styles.css has no :root block');
+  }
+  return new Map(Array.from(root[1].matchAll(/--([\w-]+):\s*([^;]+);/g), (match) => [match[1], match[2].trim()]));
+}
+
+function relativeLuminance(hex: string): number {
+  const channels = hex
+    .replace('#', '')
+    .match(/../g)!
+    .map((pair) => parseInt(pair, 16) / 255)
+    .map((value) => (value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4));
+  return 0.2126 * channels[0] + 0.7152 * channels[1] + 0.0722 * channels[2];
+}
+
+function contrastRatio(foreground: string, background: string): number {
+  const [lighter, darker] = [relativeLuminance(foreground), relativeLuminance(background)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+const tokens = rootTokens(styles);
+
+function color(name: string): string {
+  const value = tokens.get(name);
+  if (!value || !/^#[0-9a-f]{6}$/i.test(value)) {
+    throw new Error(`--${name} is not a six-digit hex color in :root`);
+  }
+  return value;
+}
+
+/** Text token on background token, as paired in styles.css. */
+const TEXT_PAIRS: Array<[foreground: string, background: string, where: string]> = [
+  ['gray-800', 'white', 'body text'],
+  ['gray-900', 'white', 'headings'],
+  ['gray-700', 'white', 'nav links, labels, testimonials'],
+  ['gray-600', 'white', 'card and consent copy'],
+  ['gray-600', 'gray-50', 'card copy in .content-section.alt'],
+  ['gray-500', 'white', 'character counter, consent details'],
+  ['primary-dark', 'white', 'links, active nav item, stats, secondary buttons'],
+  ['primary-dark', 'gray-50', 'links in .content-section.alt'],
+  ['primary-darker', 'white', 'link and button hover'],
+  ['primary-darker', 'gray-100', 'hero primary button hover'],
+  ['white', 'gray-900', 'skip link, footer headings, CTA'],
+  ['gray-400', 'gray-900', 'footer text and links, CTA copy'],
+  ['white', 'gray-800', 'newsletter input'],
+  ['primary-light', 'gray-900', 'footer link button hover'],
+];
+
+test.describe('color contrast of the CSS tokens', () => {
+  for (const [foreground, background, where] of TEXT_PAIRS) {
+    test(`--${foreground} on --${background} (${where})`, () => {
+      const ratio = contrastRatio(color(foreground), color(background));
+      expect(ratio, `${ratio.toFixed(2)}:1`).toBeGreaterThanOrEqual(MIN_TEXT_CONTRAST);
+    });
+  }
+
+  test('white text is readable on every --gradient stop', () => {
+    const stops = Array.from(tokens.get('gradient')!.matchAll(/var\(--([\w-]+)\)/g), (match) => match[1]);
+    expect(stops.length).toBeGreaterThanOrEqual(2);
+
+    for (const stop of stops) {
+      const ratio = contrastRatio(color('white'), color(stop));
+      expect(ratio, `white on --${stop} is ${ratio.toFixed(2)}:1`).toBeGreaterThanOrEqual(MIN_TEXT_CONTRAST);
+    }
+  });
+
+  test('computes the WCAG ratio', () => {
+    expect(contrastRatio('#000000', '#ffffff')).toBeCloseTo(21, 5);
+    expect(contrastRatio('#ffffff', '#ffffff')).toBeCloseTo(1, 5);
+    expect(contrastRatio('#767676', '#ffffff')).toBeCloseTo(4.54, 2);
+  });
+});
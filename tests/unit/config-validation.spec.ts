@@ -0,0 +1,235 @@
+import { test, expect } from '@playwright/test';
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { validateEnvConfig } from '../../tools/lib/env-config';
+import { validateManifest } from '../../tools/lib/manifest';
+import { budgetFor, overBudget, PerformanceBudget, validatePerformanceBudget } from '../../tools/lib/performance-budget';
+import { formatIssue } from '../../tools/lib/validation';
+
+const pagesDir = mkdtempSync(path.join(tmpdir(), 'gc-pages-'));
+writeFileSync(path.join(pagesDir, 'index.html'), '<main></main>');
+writeFileSync(path.join(pagesDir, 'about_us.html'), '<main></main>');
+
+function validManifest() {
+  return {
+    name: 'www.gadgetcloud.io',
+    version: '1.0.0',
+    site_title: 'GadgetCloud',
+    header: 'Your Gadgets, Your Cloud.',
+    footer: '© 2025 GadgetCloud. All rights reserved.',
+    default_description: 'Store, Manage, and Access Your Gadgets Seamlessly.',
+    address: { street: '', city: 'Kakinada', state: 'AP', zip: '533001', country: 'IN' },
+    menu_items: [
+      { text: 'Home', link: 'index.html', title: 'Home - GadgetCloud', description: 'Welcome' },
+      { text: 'About', footer_text: 'About Us', link: 'about_us.html', title: 'About Us - GadgetCloud', description: 'About' },
+    ],
+    sign_in: { text: 'Sign In', url: 'https://my.gadgetcloud.io' },
+    social_links: [{ platform: 'Twitter', url: 'https://twitter.com/gadgetcloud' }],
+    repository: 'https://github.com/gadgetcloud-io/gc-static-public-www-web',
+    author: 'GadgetCloud',
+    description: 'GadgetCloud Official Public Website',
+    license: 'GadgetCloud Internal Use Only',
+  };
+}
+
+function validEnvConfig() {
+  return {
+    hostName: 'stg.gadgetcloud.io',
+    path: '/',
+    AWS_PROFILE: 'gc',
+    AWS_REGION: 'ap-south-1',
+    S3_BUCKET: 'stg.gadgetcloud.io',
+    CLOUDFRONT_ID: 'EOIMARPNX4A3E',
+    CACHE_HTML_SECONDS: 300,
+    CACHE_ASSETS_SECONDS: 31536000,
+    formsHostName: 'rest-stg.gadgetcloud.io/forms',
+  };
+}
+
+const messages = (issues: ReturnType<typeof validateManifest>) => issues.map(formatIssue);
+
+test.describe('validateManifest', () => {
+  test('accepts a complete manifest', () => {
+    expect(validateManifest(validManifest(), { pagesDir })).toEqual([]);
+  });
+
+  test('flags unknown keys such as site_description', () => {
+    const manifest = { ...validManifest(), site_description: 'typo' };
+    expect(messages(validateManifest(manifest, { pagesDir }))).toEqual(['manifest.yaml: site_description: is not a known key']);
+  });
+
+  test('reports missing required keys with their path', () => {
+    const manifest: Record<string, unknown> = validManifest();
+    delete manifest.default_description;
+    (manifest.address as Record<string, unknown>).city = '';
+
+    expect(messages(validateManifest(manifest, { pagesDir }))).toEqual([
+      'manifest.yaml: default_description: is required',
+      'manifest.yaml: address.city: must not be empty',
+    ]);
+  });
+
+  test('requires unique menu links that point at existing pages', () => {
+    const manifest = validManifest();
+    manifest.menu_items.push(
+      { text: 'Again', link: 'about_us.html', title: 'x', description: 'x' },
+      { text: 'Blog', link: 'blog.html', title: 'x', description: 'x' },
+      { text: 'Bad', link: '../secret.txt', title: 'x', description: 'x' },
+    );
+
+    const issues = messages(validateManifest(manifest, { pagesDir }));
+    expect(issues).toContain('manifest.yaml: menu_items[2].link: duplicates menu_items[1].link (about_us.html)');
+    expect(issues.some((issue) => issue.startsWith('manifest.yaml: menu_items[3].link: page ') && issue.endsWith('blog.html does not exist'))).toBe(true);
+    expect(issues).toContain('manifest.yaml: menu_items[4].link: must be a page file name such as about_us.html');
+  });
+
+  test('checks URLs and social platforms', () => {
+    const manifest = validManifest();
+    manifest.sign_in.url = 'my.gadgetcloud.io';
+    manifest.social_links.push({ platform: 'Myspace', url: 'http://myspace.com/gadgetcloud' });
+
+    const issues = messages(validateManifest(manifest, { pagesDir }));
+    expect(issues).toContain('manifest.yaml: sign_in.url: must be an https:// URL');
+    expect(issues).toContain('manifest.yaml: social_links[1].url: must be an https:// URL');
+    expect(issues.some((issue) => issue.startsWith('manifest.yaml: social_links[1].platform: unknown platform "Myspace"'))).toBe(true);
+  });
+
+  test('requires a raster share image that exists', () => {
+    const srcDir = mkdtempSync(path.join(tmpdir(), 'gc-src-'));
+    mkdirSync(path.join(srcDir, 'images', 'social'), { recursive: true });
+    writeFileSync(path.join(srcDir, 'images', 'social', 'card.png'), '');
+    const withImage = (image: string) => messages(validateManifest({ ...validManifest(), share_image: image }, { pagesDir, srcDir }));
+
+    expect(withImage('images/social/card.png')).toEqual([]);
+    expect(withImage('images/logos/logo.svg')).toEqual([
+      'manifest.yaml: share_image: must be a PNG or JPEG under images/, such as images/social/share-card.png',
+    ]);
+    expect(withImage('images/social/missing.png')).toEqual([
+      expect.stringMatching(/^manifest\.yaml: share_image: .*images\/social\/missing\.png does not exist$/),
+    ]);
+  });
+
+  test('checks contact points, plans and structured data', () => {
+    const valid = validManifest();
+    const manifest = {
+      ...valid,
+      menu_items: [{ ...valid.menu_items[0], structured_data: ['organization', 'reviews'] }, valid.menu_items[1]],
+      contact_points: [{ type: 'support', email: 'support', hours: { days: ['Funday'], opens: '9am', closes: '18:00' } }],
+      plans: [{ name: 'Pro', description: 'Pro', price: { inr: 299 } }, { name: 'Enterprise', description: 'Custom' }],
+      signup_url: 'https://my.gadgetcloud.io/signup',
+    };
+
+    expect(messages(validateManifest(manifest, { pagesDir }))).toEqual([
+      'manifest.yaml: menu_items[0].structured_data[1]: must be one of: organization, products',
+      'manifest.yaml: contact_points[0].email: must be an email address',
+      'manifest.yaml: contact_points[0].hours.days[0]: must be a day name such as Monday',
+      'manifest.yaml: contact_points[0].hours.opens: must be a 24-hour time such as 09:00',
+      'manifest.yaml: plans[0].price.inr: must be an ISO 4217 currency code such as INR',
+      'manifest.yaml: plans[1]: needs a price or a quote_link',
+    ]);
+  });
+
+  test('checks annual prices against the monthly ones', () => {
+    const manifest = {
+      ...validManifest(),
+      plans: [
+        { name: 'Pro', description: 'Pro', price: { INR: 299, USD: 4 }, annual_price: { INR: 2990, USD: 50 } },
+        { name: 'Team', description: 'Team', price: { INR: 999 }, annual_price: { USD: 120 } },
+        { name: 'Enterprise', description: 'Custom', quote_link: 'products.html#enterprise-quote', annual_price: { INR: 1 } },
+      ],
+    };
+
+    expect(messages(validateManifest(manifest, { pagesDir }))).toEqual([
+      'manifest.yaml: plans[0].annual_price.USD: must not be more than 12 months at the monthly price (48)',
+      'manifest.yaml: plans[1].price: must list the currencies of the other plans in the same order (INR, USD)',
+      'manifest.yaml: plans[1].annual_price: must list the currencies of price (INR)',
+      'manifest.yaml: plans[2].annual_price: needs a monthly price',
+      'manifest.yaml: signup_url: is required for plans with a price',
+    ]);
+  });
+
+  test('rejects a non-mapping document', () => {
+    expect(messages(validateManifest(['not', 'a', 'mapping'], { pagesDir }))).toEqual(['manifest.yaml: must be a mapping']);
+  });
+});
+
+test.describe('validateEnvConfig', () => {
+  const file = 'environments/stg/config.yaml';
+
+  test('accepts a complete config', () => {
+    expect(validateEnvConfig(validEnvConfig(), file)).toEqual([]);
+  });
+
+  test('reports format problems for each key', () => {
+    const config = {
+      ...validEnvConfig(),
+      hostName: 'https://stg.gadgetcloud.io',
+      AWS_REGION: 'mumbai',
+      CLOUDFRONT_ID: 'PENDING_TERRAFORM_APPLY',
+      CACHE_HTML_SECONDS: '300',
+      formsHostName: 'https://rest-stg.gadgetcloud.io/forms',
+    };
+
+    expect(validateEnvConfig(config, file).map(formatIssue)).toEqual([
+      `${file}: hostName: must be a host name such as www.gadgetcloud.io`,
+      `${file}: AWS_REGION: must be an AWS region such as ap-south-1`,
+      `${file}: CLOUDFRONT_ID: must be a CloudFront distribution ID (run Terraform first)`,
+      `${file}: CACHE_HTML_SECONDS: must be a non-negative integer`,
+      `${file}: formsHostName: must not include a protocol (https:// is added by the site)`,
+    ]);
+  });
+
+  test('reports missing and misspelled keys', () => {
+    const config: Record<string, unknown> = { ...validEnvConfig(), formsHostname: 'rest.gadgetcloud.io/forms' };
+    delete config.formsHostName;
+
+    expect(validateEnvConfig(config, file).map(formatIssue)).toEqual([
+      `${file}: formsHostname: is not a known key`,
+      `${file}: formsHostName: is required`,
+    ]);
+  });
+
+  test('keeps at least the live release when RELEASES_TO_KEEP is set', () => {
+    expect(validateEnvConfig({ ...validEnvConfig(), RELEASES_TO_KEEP: 3 }, file)).toEqual([]);
+    expect(validateEnvConfig({ ...validEnvConfig(), RELEASES_TO_KEEP: 0 }, file).map(formatIssue)).toEqual([
+      `${file}: RELEASES_TO_KEEP: must keep at least 1 release (the live one)`,
+    ]);
+  });
+});
+
+test.describe('validatePerformanceBudget', () => {
+  const file = 'performance-budgets.yaml';
+  const budget: PerformanceBudget = {
+    defaults: { lcp_ms: 2500, cls: 0.1, transfer_kb: 160, requests: 12 },
+    pages: { 'index.html': { transfer_kb: 200, requests: 20 } },
+  };
+
+  test('accepts defaults with partial page overrides', () => {
+    expect(validatePerformanceBudget(budget, file)).toEqual([]);
+  });
+
+  test('reports missing defaults, bad values and unknown pages or metrics', () => {
+    const invalid = {
+      defaults: { lcp_ms: 2500, cls: -1, transfer_kb: '160' },
+      pages: { 'index.html': { requests: 1.5, ttfb_ms: 200 }, '/about': {} },
+    };
+
+    expect(validatePerformanceBudget(invalid, file).map(formatIssue)).toEqual([
+      `${file}: defaults.cls: must be a non-negative number`,
+      `${file}: defaults.transfer_kb: must be a non-negative number`,
+      `${file}: defaults.requests: is required`,
+      `${file}: pages.index.html.ttfb_ms: is not a known key`,
+      `${file}: pages.index.html.requests: must be a non-negative integer`,
+      `${file}: pages./about: must be a page file name such as index.html`,
+    ]);
+  });
+
+  test('merges page overrides and names the metrics over budget', () => {
+    const index = budgetFor(budget, 'index.html');
+    expect(index).toEqual({ lcp_ms: 2500, cls: 0.1, transfer_kb: 200, requests: 20 });
+    expect(budgetFor(budget, 'about_us.html')).toEqual(budget.defaults);
+
+    expect(overBudget({ lcp_ms: 900, cls: 0.25, transfer_kb: 180, requests: 21 }, index)).toEqual(['cls 0.25 > 0.1', 'requests 21 > 20']);
+  });
+});
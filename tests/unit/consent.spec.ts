@@ -0,0 +1,51 @@
+import { test, expect } from '@playwright/test';
+import {
+  CONSENT_KEY,
+  CONSENT_VERSION,
+  currentConsent,
+  DEFAULT_CONSENT,
+  hasConsent,
+  readConsent,
+  saveConsent,
+} from '../../src/ts/consent';
+import { MemoryStorage } from './helpers';
+
+test.describe('consent', () => {
+  test('allows only essential storage until the visitor chooses', () => {
+    const storage = new MemoryStorage();
+
+    expect(readConsent(storage)).toBeNull();
+    expect(currentConsent(storage)).toEqual(DEFAULT_CONSENT);
+    expect(hasConsent('essential', storage)).toBe(true);
+    expect(hasConsent('analytics', storage)).toBe(false);
+    expect(hasConsent('marketing', storage)).toBe(false);
+  });
+
+  test('stores the choice with its version and time', () => {
+    const storage = new MemoryStorage();
+    const state = saveConsent({ analytics: false, marketing: true }, storage, Date.UTC(2025, 0, 2));
+
+    expect(state).toEqual({
+      version: CONSENT_VERSION,
+      essential: true,
+      analytics: false,
+      marketing: true,
+      updatedAt: '2025-01-02T00:00:00.000Z',
+    });
+    expect(readConsent(storage)).toEqual(state);
+    expect(hasConsent('marketing', storage)).toBe(true);
+    expect(hasConsent('analytics', storage)).toBe(false);
+  });
+
+  test('ignores choices for another version and unreadable data', () => {
+    const storage = new MemoryStorage();
+    storage.setItem(CONSENT_KEY, JSON.stringify({ ...saveConsent({ analytics: true, marketing: true }, storage), version: CONSENT_VERSION - 1 }));
+    expect(readConsent(storage)).toBeNull();
+
+    storage.setItem(CONSENT_KEY, JSON.stringify({ version: CONSENT_VERSION, analytics: 'yes', marketing: true, updatedAt: 'x' }));
+    expect(readConsent(storage)).toBeNull();
+
+    storage.setItem(CONSENT_KEY, 'not json');
+    expect(hasConsent('marketing', storage)).toBe(false);
+  });
+});
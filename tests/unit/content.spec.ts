@@ -0,0 +1,109 @@
+import { test, expect } from '@playwright/test';
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { COLLECTION_NAMES, loadContent, validateCollection } from '../../tools/lib/content';
+import { loadManifest, Plan } from '../../tools/lib/manifest';
+import { formatIssue } from '../../tools/lib/validation';
+import { renderTestimonials } from '../../tools/site/collections';
+import { replaceBlockTokens } from '../../tools/site/tokens';
+
+const srcDir = mkdtempSync(path.join(tmpdir(), 'gc-content-'));
+mkdirSync(path.join(srcDir, 'images/avatars'), { recursive: true });
+writeFileSync(path.join(srcDir, 'images/avatars/avatar-1.svg'), '<svg></svg>');
+
+const plans: Plan[] = [
+  { name: 'Free', description: 'Free', price: { INR: 0, USD: 0 } },
+  { name: 'Enterprise', description: 'Custom', quote_link: 'products.html#enterprise-quote' },
+];
+
+const messages = (...args: Parameters<typeof validateCollection>) =>
+  validateCollection(args[0], args[1], { srcDir, plans, ...args[2] }).map(formatIssue);
+
+test.describe('validateCollection', () => {
+  test('accepts a testimonial whose avatar exists', () => {
+    const testimonials = [{ quote: 'Great.', name: 'Sarah', role: 'IT Manager', avatar: 'images/avatars/avatar-1.svg' }];
+    expect(messages('testimonials', testimonials)).toEqual([]);
+  });
+
+  test('requires a list', () => {
+    expect(messages('features', { title: 'Sync' })).toEqual(['content/features.yaml: must be a list']);
+  });
+
+  test('reports missing images and images outside images/', () => {
+    const badges = [
+      { label: 'SSL', image: 'images/badges/ssl.svg' },
+      { label: 'GDPR', image: 'https://example.com/gdpr.svg' },
+    ];
+    const issues = messages('trust_badges', badges);
+    expect(issues).toHaveLength(2);
+    expect(issues[0]).toMatch(/^content\/trust-badges\.yaml: \[0\]\.image: .*images\/badges\/ssl\.svg does not exist$/);
+    expect(issues[1]).toBe('content/trust-badges.yaml: [1].image: must be an image under images/, such as images/avatars/avatar-1.svg');
+  });
+
+  test('rejects unknown feature icons and keys', () => {
+    const features = [{ title: 'Sync', text: 'Everywhere', icon: 'rocket', colour: 'blue' }];
+    const issues = messages('features', features);
+    expect(issues).toContain('content/features.yaml: [0].colour: is not a known key');
+    expect(issues.find((issue) => issue.includes('[0].icon'))).toContain('unknown icon "rocket"');
+  });
+
+  test('needs exactly one pricing tier per manifest plan', () => {
+    const tiers = [
+      { plan: 'Free', summary: 'Start here.', cta: 'Start' },
+      { plan: 'Free', summary: 'Again.', cta: 'Start' },
+      { plan: 'Gold', summary: 'Not a plan.', cta: 'Buy' },
+    ];
+    expect(messages('pricing_tiers', tiers)).toEqual([
+      'content/pricing-tiers.yaml: [1].plan: Free is listed more than once',
+      'content/pricing-tiers.yaml: [2].plan: "Gold" is not a plan in manifest.yaml (expected one of: Free, Enterprise)',
+      'content/pricing-tiers.yaml: manifest.yaml plan Enterprise has no tier',
+    ]);
+  });
+
+  test('highlights at most one pricing tier', () => {
+    const tiers = [
+      { plan: 'Free', summary: 'Start here.', cta: 'Start', highlight: true },
+      { plan: 'Enterprise', summary: 'Talk to us.', cta: 'Quote', highlight: true },
+    ];
+    expect(messages('pricing_tiers', tiers)).toEqual(['content/pricing-tiers.yaml: [1].highlight: only one tier can be highlighted; [0] already is']);
+  });
+
+  test('plan features name manifest plans', () => {
+    const features = [
+      { feature: 'Devices', plans: { Free: 'Up to 10', Enterprise: true } },
+      { feature: 'Support', plans: { Gold: true, Free: '' } },
+    ];
+    expect(messages('plan_features', features)).toEqual([
+      'content/plan-features.yaml: [1].plans.Gold: is not a plan in manifest.yaml (expected one of: Free, Enterprise)',
+      'content/plan-features.yaml: [1].plans.Free: must be true, false or a short value such as "Up to 5"',
+    ]);
+  });
+});
+
+test.describe('content/ collections', () => {
+  test('load and cover every manifest plan', async () => {
+    const manifest = await loadManifest();
+    const content = await loadContent(manifest.plans);
+
+    for (const name of COLLECTION_NAMES) {
+      expect(content[name].length, name).toBeGreaterThan(0);
+    }
+    expect(content.pricing_tiers.map((tier) => tier.plan).sort()).toEqual((manifest.plans ?? []).map((plan) => plan.name).sort());
+  });
+});
+
+test.describe('collection rendering', () => {
+  test('escapes content in the rendered markup', () => {
+    const html = renderTestimonials([{ quote: 'Fast & <simple>', name: 'A "B"', role: 'CTO', avatar: 'images/avatars/avatar-1.svg' }]);
+    expect(html).toContain('<p>Fast &amp; &lt;simple&gt;</p>');
+    expect(html).toContain('alt="A &quot;B&quot;"');
+  });
+
+  test('block tokens are indented like the token line', () => {
+    const page = ['<section>', '    {{LIST}}', '</section>', '<p>{{LIST}} inline</p>'].join('\n');
+    expect(replaceBlockTokens(page, { LIST: '<ul>\n    <li>One</li>\n</ul>' })).toBe(
+      ['<section>', '    <ul>', '        <li>One</li>', '    </ul>', '</section>', '<p>{{LIST}} inline</p>'].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import { test, expect } from '@playwright/test';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { ENVIRONMENTS, Environment, loadEnvConfig, toSiteEnvironment } from '../../tools/lib/env-config';
+import { ASSET_SOURCES } from '../../tools/lib/fingerprint';
+import { loadManifest } from '../../tools/lib/manifest';
+import { ROOT_DIR } from '../../tools/lib/paths';
+import { contentSecurityPolicy, parseCsp, SECURITY_HEADERS, serializeCsp } from '../../tools/site/csp';
+import { renderHead } from '../../tools/site/layout';
+
+const FORMS_ORIGINS: Record<Environment, string> = {
+  stg: 'https://rest-stg.gadgetcloud.io',
+  prd: 'https://rest.gadgetcloud.io',
+};
+
+function expectedPolicy(formsOrigin: string): Record<string, string[]> {
+  return {
+    'default-src': ["'self'"],
+    'script-src': ["'self'"],
+    'style-src': ["'self'", 'https://fonts.googleapis.com'],
+    'font-src': ["'self'", 'https://fonts.gstatic.com'],
+    'img-src': ["'self'", 'data:', 'https:'],
+    'connect-src': ["'self'", formsOrigin],
+    'frame-ancestors': ["'none'"],
+    'base-uri': ["'self'"],
+    'form-action': ["'self'", formsOrigin],
+  };
+}
+
+function metaContent(html: string, attribute: string, value: string): string | undefined {
+  const match = html.match(new RegExp(`<meta ${attribute}="${value}" content="([^"]*)">`));
+  return match?.[1];
+}
+
+test.describe('Content-Security-Policy per environment', () => {
+  for (const env of ENVIRONMENTS) {
+    test(`${env} pages only allow the ${env} forms API`, async () => {
+      const manifest = await loadManifest();
+      const site = toSiteEnvironment(env, await loadEnvConfig(env));
+
+      for (const page of manifest.menu_items) {
+        const head = renderHead({ manifest, site, page, versionString: '', assets: ASSET_SOURCES });
+        const csp = metaContent(head, 'http-equiv', 'Content-Security-Policy');
+
+        expect(csp, page.link).toBeDefined();
+        expect(parseCsp(csp ?? ''), page.link).toEqual(expectedPolicy(FORMS_ORIGINS[env]));
+      }
+    });
+  }
+
+  test('serializes directives in a stable order', () => {
+    const site = toSiteEnvironment('prd', {
+      hostName: 'www.example.test',
+      path: '/',
+      AWS_PROFILE: '',
+      AWS_REGION: '',
+      S3_BUCKET: '',
+      CLOUDFRONT_ID: '',
+      CACHE_HTML_SECONDS: 0,
+      CACHE_ASSETS_SECONDS: 0,
+      formsHostName: 'api.example.test/forms',
+    });
+
+    expect(serializeCsp(contentSecurityPolicy(site))).toBe(
+      "default-src 'self'; script-src 'self'; style-src 'self' https://fonts.googleapis.com; font-src 'self' https://fonts.gstatic.com; img-src 'self' data: https:; connect-src 'self' https://api.example.test; frame-ancestors 'none'; base-uri 'self'; form-action 'self' https://api.example.test;",
+    );
+  });
+});
+
+test.describe('security headers', () => {
+  test('match the CloudFront response headers policy', () => {
+    const terraform = readFileSync(path.join(ROOT_DIR, 'terraform', 'cloudfront.tf'), 'utf8');
+
+    expect(terraform).toContain('content_type_options {');
+    expect(terraform).toMatch(new RegExp(`frame_option\\s*=\\s*"${SECURITY_HEADERS.frameOptions}"`));
+    expect(terraform).toMatch(new RegExp(`referrer_policy\\s*=\\s*"${SECURITY_HEADERS.referrerPolicy}"`));
+  });
+});
@@ -0,0 +1,291 @@
+import { test, expect } from '@playwright/test';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import type { EnvConfig } from '../../tools/lib/env-config';
+import { fingerprint } from '../../tools/lib/fingerprint';
+import { ROOT_DIR } from '../../tools/lib/paths';
+import { createFakeTarget } from '../../tools/deploy/fake';
+import {
+  cacheControlFor,
+  contentTypeFor,
+  DEPLOY_MANIFEST_KEY,
+  isPrivateKey,
+  planDeploy,
+  PRIVATE_PREFIXES,
+  readSite,
+  ReleaseRef,
+} from '../../tools/deploy/plan';
+import {
+  checkReleaseId,
+  fromRelease,
+  markLive,
+  planRollback,
+  readBuildRelease,
+  readReleaseIndex,
+  recordRelease,
+  releaseKey,
+  RELEASES_INDEX_KEY,
+} from '../../tools/deploy/releases';
+import { executeDeploy, fromDirectory, readDeployManifest } from '../../tools/deploy/target';
+import { createReleaseInfo, renderVersionJson, VERSION_FILE } from '../../tools/site/release';
+
+const config = { CACHE_HTML_SECONDS: 300, CACHE_ASSETS_SECONDS: 31536000 } as EnvConfig;
+
+const release: ReleaseRef = { env: 'stg', version: '1.0.0', buildId: '20250101000000', commit: 'abc1234' };
+
+const styles = (css: string) => fingerprint('css/styles.css', css);
+
+function writeSite(dir: string, files: Record<string, string>): void {
+  rmSync(dir, { recursive: true, force: true });
+  for (const [key, content] of Object.entries(files)) {
+    mkdirSync(path.dirname(path.join(dir, key)), { recursive: true });
+    writeFileSync(path.join(dir, key), content);
+  }
+}
+
+function site(overrides: Record<string, string | undefined> = {}): Record<string, string> {
+  const css = overrides.css ?? 'body { color: black; }';
+  const files: Record<string, string | undefined> = {
+    'index.html': `<link href="${styles(css)}"> home`,
+    'about_us.html': `<link href="${styles(css)}"> about`,
+    [styles(css)]: css,
+    'images/logo.svg': '<svg></svg>',
+    'sitemap.xml': '<urlset></urlset>',
+    ...overrides,
+  };
+  delete files.css;
+  return Object.fromEntries(Object.entries(files).filter((entry): entry is [string, string] => entry[1] !== undefined));
+}
+
+test.describe('deploy', () => {
+  let dir: string;
+  let target: ReturnType<typeof createFakeTarget>;
+
+  async function deploy(files: Record<string, string>, now = new Date('2025-01-01T00:00:00Z')) {
+    writeSite(dir, files);
+    const plan = planDeploy(release, await readSite(dir, config), await readDeployManifest(target.storage), now);
+    const result = await executeDeploy(plan, fromDirectory(dir), target);
+    return { plan, result };
+  }
+
+  test.beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'gc-deploy-'));
+    target = createFakeTarget();
+  });
+
+  test.afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('uploads everything on the first deploy, assets before pages', async () => {
+    const { plan, result } = await deploy(site());
+
+    expect(plan.upload).toEqual([styles('body { color: black; }'), 'images/logo.svg', 'about_us.html', 'index.html', 'sitemap.xml']);
+    expect(target.storage.writes.at(-1)).toBe(DEPLOY_MANIFEST_KEY);
+    expect(target.storage.objects.get('index.html')).toMatchObject({
+      contentType: 'text/html; charset=utf-8',
+      cacheControl: 'public, max-age=300, must-revalidate',
+    });
+    expect(result.invalidationId).toBeUndefined();
+
+    const manifest = await readDeployManifest(target.storage);
+    expect(manifest).toMatchObject({ env: 'stg', buildId: '20250101000000', deployedAt: '2025-01-01T00:00:00.000Z', retained: [] });
+    expect(Object.keys(manifest!.files)).toHaveLength(5);
+  });
+
+  test('uploads nothing and invalidates nothing when the build is unchanged', async () => {
+    await deploy(site());
+    const { plan, result } = await deploy(site());
+
+    expect(plan.upload).toEqual([]);
+    expect(plan.unchanged).toHaveLength(5);
+    expect(result.invalidationId).toBeUndefined();
+    expect(target.cdn.invalidations).toEqual([]);
+  });
+
+  test('uploads changed files and invalidates only the changed pages', async () => {
+    await deploy(site());
+    const css = 'body { color: navy; }';
+    const { plan } = await deploy(site({ css, 'about_us.html': `<link href="${styles(css)}"> about, updated` }));
+
+    expect(plan.upload).toEqual([styles(css), 'about_us.html', 'index.html']);
+    expect(plan.invalidate).toEqual(['/', '/about_us.html', '/index.html']);
+    expect(target.cdn.invalidations).toEqual([['/', '/about_us.html', '/index.html']]);
+  });
+
+  test('keeps the previous fingerprinted assets for one deploy', async () => {
+    const oldStyles = styles('body { color: black; }');
+    await deploy(site());
+
+    const second = await deploy(site({ css: 'body { color: navy; }' }));
+    expect(second.plan.retain).toEqual([oldStyles]);
+    expect(second.plan.remove).toEqual([]);
+    expect(target.storage.objects.has(oldStyles)).toBe(true);
+
+    const third = await deploy(site({ css: 'body { color: navy; }' }));
+    expect(third.plan.remove).toEqual([oldStyles]);
+    expect(target.storage.objects.has(oldStyles)).toBe(false);
+  });
+
+  test('removes deleted files and invalidates pages and images that changed in place', async () => {
+    await deploy(site());
+    const { plan } = await deploy(site({ 'about_us.html': undefined, 'images/logo.svg': '<svg><circle/></svg>' }));
+
+    expect(plan.upload).toEqual(['images/logo.svg']);
+    expect(plan.remove).toEqual(['about_us.html']);
+    expect(plan.invalidate).toEqual(['/about_us.html', '/images/logo.svg']);
+    expect(target.storage.objects.has('about_us.html')).toBe(false);
+  });
+});
+
+test.describe('private prefixes', () => {
+  test('hold the kept releases and every deploy record', () => {
+    for (const key of [DEPLOY_MANIFEST_KEY, RELEASES_INDEX_KEY, releaseKey('20250101000000', 'index.html')]) {
+      expect(isPrivateKey(key), key).toBe(true);
+    }
+    expect(isPrivateKey('index.html')).toBe(false);
+    expect(isPrivateKey('images/releases/launch.png')).toBe(false);
+  });
+
+  test('are refused in a build, so no page is uploaded where it is not served', () => {
+    const page = { hash: '0123456789', size: 1, contentType: 'text/html; charset=utf-8', cacheControl: 'no-cache' };
+
+    expect(() => planDeploy(release, { 'index.html': page, 'releases/notes.html': page }, undefined)).toThrow(
+      'releases/notes.html would not be served: _deploy/ and releases/ are kept private in the bucket',
+    );
+  });
+
+  test('are denied to CloudFront in both bucket policies', () => {
+    const terraform = readFileSync(path.join(ROOT_DIR, 'terraform', 's3.tf'), 'utf8');
+
+    for (const bucket of ['production', 'staging']) {
+      for (const prefix of PRIVATE_PREFIXES) {
+        expect(terraform, `${bucket} ${prefix}`).toContain(`"\${aws_s3_bucket.${bucket}.arn}/${prefix}*"`);
+      }
+    }
+    expect(terraform.match(/Sid\s*=\s*"DenyCloudFrontDeployFiles"\s*Effect\s*=\s*"Deny"/g)).toHaveLength(2);
+  });
+});
+
+test.describe('releases', () => {
+  let dir: string;
+  let target: ReturnType<typeof createFakeTarget>;
+
+  /** Builds a site with its version.json, deploys it and keeps the release, as `npm run deploy` does. */
+  async function deployRelease(buildId: string, body: string, keep = 3) {
+    writeSite(dir, site({ 'about_us.html': body }));
+    const hashes = Object.fromEntries(Object.entries(await readSite(dir, config)).map(([key, file]) => [key, file.hash]));
+    const info = createReleaseInfo({ version: '1.0.0', buildId, commit: 'abc1234' }, 'stg', hashes);
+    writeFileSync(path.join(dir, VERSION_FILE), renderVersionJson(info));
+
+    const plan = planDeploy(await readBuildRelease(dir), await readSite(dir, config), await readDeployManifest(target.storage));
+    await checkReleaseId(plan.manifest, target.storage);
+    await executeDeploy(plan, fromDirectory(dir), target);
+    return recordRelease(plan.manifest, target.storage, keep);
+  }
+
+  const live = async (key: string) => (await target.storage.read(key))?.toString('utf8');
+
+  test.beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'gc-release-'));
+    target = createFakeTarget();
+  });
+
+  test.afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('keeps a copy of each deploy under its build id', async () => {
+    await deployRelease('20250101000000', 'about, first');
+
+    expect(await live(releaseKey('20250101000000', 'about_us.html'))).toBe('about, first');
+    expect(JSON.parse((await live(releaseKey('20250101000000', VERSION_FILE)))!)).toMatchObject({ buildId: '20250101000000', env: 'stg' });
+    expect(await readReleaseIndex(target.storage)).toMatchObject({
+      live: '20250101000000',
+      releases: [{ buildId: '20250101000000', version: '1.0.0', commit: 'abc1234' }],
+    });
+    expect(target.storage.objects.get(RELEASES_INDEX_KEY)?.cacheControl).toBe('no-store');
+  });
+
+  test('keeps only the newest releases', async () => {
+    await deployRelease('20250101000000', 'about, first');
+    await deployRelease('20250102000000', 'about, second');
+    await deployRelease('20250103000000', 'about, third');
+    const pruned = await deployRelease('20250104000000', 'about, fourth');
+
+    expect(pruned).toEqual(['20250101000000']);
+    const index = await readReleaseIndex(target.storage);
+    expect(index.releases.map((entry) => entry.buildId)).toEqual(['20250104000000', '20250103000000', '20250102000000']);
+    expect([...target.storage.objects.keys()].filter((key) => key.includes('20250101000000'))).toEqual([]);
+  });
+
+  test('rolls back to a kept release and invalidates what changed', async () => {
+    await deployRelease('20250101000000', 'about, first');
+    await deployRelease('20250102000000', 'about, second');
+
+    const plan = await planRollback('20250101000000', target.storage);
+    expect(plan.upload).toEqual(['about_us.html', VERSION_FILE]);
+    expect(plan.invalidate).toEqual(['/about_us.html']);
+
+    await executeDeploy(plan, fromRelease('20250101000000'), target);
+    await markLive(target.storage, '20250101000000');
+
+    expect(await live('about_us.html')).toBe('about, first');
+    expect(JSON.parse((await live(VERSION_FILE))!).buildId).toBe('20250101000000');
+    expect(target.storage.objects.get(VERSION_FILE)?.cacheControl).toBe('no-cache');
+    expect((await readDeployManifest(target.storage))?.buildId).toBe('20250101000000');
+    expect(target.cdn.invalidations.at(-1)).toEqual(['/about_us.html']);
+
+    const index = await readReleaseIndex(target.storage);
+    expect(index.live).toBe('20250101000000');
+    expect(index.releases.map((entry) => entry.buildId)).toEqual(['20250102000000', '20250101000000']);
+  });
+
+  test('refuses a different build with the build id of a kept release', async () => {
+    await deployRelease('20250101000000', 'about, first');
+
+    // Same commit time, but built from a dirty tree
+    await expect(deployRelease('20250101000000', 'about, uncommitted')).rejects.toThrow(
+      'Release 20250101000000 is already kept with different files; rebuild with BUILD_ID set to a new build id',
+    );
+    expect(await live('about_us.html')).toBe('about, first');
+    expect(await live(releaseKey('20250101000000', 'about_us.html'))).toBe('about, first');
+
+    // recordRelease checks on its own as well
+    const manifest = await readDeployManifest(target.storage);
+    const changed = { ...manifest!, files: { ...manifest!.files, [VERSION_FILE]: { ...manifest!.files[VERSION_FILE], hash: '0000000000' } } };
+    await expect(recordRelease(changed, target.storage, 3)).rejects.toThrow('is already kept with different files');
+  });
+
+  test('deploys the same build again under its build id', async () => {
+    await deployRelease('20250101000000', 'about, first');
+    await deployRelease('20250101000000', 'about, first');
+
+    expect((await readReleaseIndex(target.storage)).releases.map((entry) => entry.buildId)).toEqual(['20250101000000']);
+  });
+
+  test('refuses to roll back to a release that is not kept', async () => {
+    await deployRelease('20250102000000', 'about, second');
+
+    await expect(planRollback('20250101000000', target.storage)).rejects.toThrow(
+      'Release 20250101000000 is not kept (kept releases: 20250102000000)',
+    );
+  });
+});
+
+test.describe('cache and content types', () => {
+  test('uses the short cache for pages and an immutable one for fingerprinted assets', () => {
+    expect(cacheControlFor('contact_us.html', config)).toBe('public, max-age=300, must-revalidate');
+    expect(cacheControlFor(VERSION_FILE, config)).toBe('no-cache');
+    expect(cacheControlFor('robots.txt', config)).toBe('public, max-age=300, must-revalidate');
+    expect(cacheControlFor('js/main.0123456789.js', config)).toBe('public, max-age=31536000, immutable');
+    expect(cacheControlFor('images/favicon.svg', config)).toBe('public, max-age=31536000');
+  });
+
+  test('maps extensions to content types', () => {
+    expect(contentTypeFor('css/styles.0123456789.css')).toBe('text/css; charset=utf-8');
+    expect(contentTypeFor('images/social/share-card.png')).toBe('image/png');
+    expect(contentTypeFor('LICENSE')).toBe('application/octet-stream');
+  });
+});
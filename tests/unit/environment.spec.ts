@@ -0,0 +1,92 @@
+import { test, expect } from '@playwright/test';
+import { formatBuildId, resolveBuildId } from '../../tools/lib/build-info';
+import { EnvConfig, toSiteEnvironment, withFormsEndpoint } from '../../tools/lib/env-config';
+import { environmentTokens, findUnresolvedTokens, replaceTokens } from '../../tools/site/tokens';
+
+const config: EnvConfig = {
+  hostName: 'www-stg.gadgetcloud.io',
+  path: '/',
+  AWS_PROFILE: 'gc',
+  AWS_REGION: 'ap-south-1',
+  S3_BUCKET: 'www-stg.gadgetcloud.io',
+  CLOUDFRONT_ID: 'EOIMARPNX4A3E',
+  CACHE_HTML_SECONDS: 300,
+  CACHE_ASSETS_SECONDS: 86400,
+  formsHostName: 'rest-stg.gadgetcloud.io/forms',
+};
+
+test.describe('toSiteEnvironment', () => {
+  test('derives URLs from the environment config', () => {
+    expect(toSiteEnvironment('stg', config)).toEqual({
+      name: 'stg',
+      hostName: 'www-stg.gadgetcloud.io',
+      siteUrl: 'https://www-stg.gadgetcloud.io/',
+      formsEndpoint: 'https://rest-stg.gadgetcloud.io/forms',
+      formsOrigin: 'https://rest-stg.gadgetcloud.io',
+      indexable: false,
+      drafts: true,
+    });
+  });
+
+  test('only lets search engines index production', () => {
+    expect(toSiteEnvironment('prd', { ...config, hostName: 'www.gadgetcloud.io' }).indexable).toBe(true);
+  });
+
+  test('only builds draft blog posts for staging', () => {
+    expect(toSiteEnvironment('prd', { ...config, hostName: 'www.gadgetcloud.io' }).drafts).toBe(false);
+  });
+
+  test('keeps a sub-path with a trailing slash', () => {
+    expect(toSiteEnvironment('stg', { ...config, path: '/site' }).siteUrl).toBe('https://www-stg.gadgetcloud.io/site/');
+  });
+});
+
+test.describe('withFormsEndpoint', () => {
+  test('replaces the forms API and its origin', () => {
+    const site = withFormsEndpoint(toSiteEnvironment('stg', config), 'http://localhost:8787/forms');
+    expect(site.formsEndpoint).toBe('http://localhost:8787/forms');
+    expect(site.formsOrigin).toBe('http://localhost:8787');
+    expect(site.siteUrl).toBe('https://www-stg.gadgetcloud.io/');
+  });
+
+  test('rejects other protocols and malformed URLs', () => {
+    const site = toSiteEnvironment('stg', config);
+    expect(() => withFormsEndpoint(site, 'ftp://localhost/forms')).toThrow('must use http or https');
+    expect(() => withFormsEndpoint(site, 'localhost:8787')).toThrow();
+    expect(() => withFormsEndpoint(site, 'not a url')).toThrow('Invalid forms endpoint');
+  });
+});
+
+test.describe('tokens', () => {
+  const tokens = environmentTokens(toSiteEnvironment('stg', config), 'v1.0.0 | Build 1');
+
+  test('replaces known tokens', () => {
+    expect(replaceTokens('<a href="{{SITE_URL}}">{{ CANONICAL_HOST }}</a>', tokens)).toBe(
+      '<a href="https://www-stg.gadgetcloud.io/">www-stg.gadgetcloud.io</a>',
+    );
+    expect(replaceTokens('{{FORMS_HOST_NAME}}', tokens)).toBe('rest-stg.gadgetcloud.io/forms');
+  });
+
+  test('leaves unknown tokens for the unresolved check', () => {
+    const text = replaceTokens('{{ENVIRONMENT}} {{MISSING}} {{not a token}} {{MISSING}}', tokens);
+
+    expect(text).toBe('stg {{MISSING}} {{not a token}} {{MISSING}}');
+    expect(findUnresolvedTokens(text)).toEqual(['{{MISSING}}', '{{not a token}}']);
+  });
+});
+
+test.describe('resolveBuildId', () => {
+  test('prefers BUILD_ID, then SOURCE_DATE_EPOCH', () => {
+    expect(resolveBuildId({ BUILD_ID: '20250101000000', SOURCE_DATE_EPOCH: '0' })).toBe('20250101000000');
+    expect(resolveBuildId({ SOURCE_DATE_EPOCH: '1735689600' })).toBe('20250101000000');
+  });
+
+  test('is stable across calls without overrides', () => {
+    expect(resolveBuildId({})).toBe(resolveBuildId({}));
+    expect(resolveBuildId({})).toMatch(/^\d{14}$/);
+  });
+
+  test('formats dates as UTC', () => {
+    expect(formatBuildId(new Date('2025-12-11T20:26:57Z'))).toBe('20251211202657');
+  });
+});
@@ -0,0 +1,27 @@
+import { test, expect } from '@playwright/test';
+import { ASSET_SOURCES, contentHash, fingerprint, isFingerprinted, rewriteAssetReferences } from '../../tools/lib/fingerprint';
+
+test.describe('fingerprint', () => {
+  test('inserts a content hash before the extension', () => {
+    const name = fingerprint('css/styles.css', 'body {}');
+
+    expect(name).toBe(`css/styles.${contentHash('body {}')}.css`);
+    expect(name).toMatch(/^css\/styles\.[0-9a-f]{10}\.css$/);
+    expect(fingerprint('css/styles.css', 'body { margin: 0 }')).not.toBe(name);
+  });
+
+  test('recognizes fingerprinted names', () => {
+    expect(isFingerprinted('js/main.0123456789.js')).toBe(true);
+    expect(isFingerprinted('js/main.js')).toBe(false);
+    expect(isFingerprinted('images/avatar-1.svg')).toBe(false);
+  });
+
+  test('rewrites stylesheet and script references, including old cache-busters', () => {
+    const assets = { styles: 'css/styles.0123456789.css', script: 'js/main.abcdef0123.js' };
+    const html = `<link rel="stylesheet" href="${ASSET_SOURCES.styles}"><script src="js/main.js?v=1234"></script><a href="css/other.css">`;
+
+    expect(rewriteAssetReferences(html, assets)).toBe(
+      '<link rel="stylesheet" href="css/styles.0123456789.css"><script src="js/main.abcdef0123.js"></script><a href="css/other.css">',
+    );
+  });
+});
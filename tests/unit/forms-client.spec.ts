@@ -0,0 +1,147 @@
+import { test, expect } from '@playwright/test';
+import { DEFAULT_CONSENT } from '../../src/ts/consent';
+import {
+  buildPayload,
+  DEFAULT_RETRY_AFTER_SECONDS,
+  parseErrorBody,
+  parseRetryAfter,
+  resolveFormsEndpoint,
+  retryAfterMessage,
+  submitForm,
+} from '../../src/ts/forms-client';
+import { MESSAGES } from '../../src/ts/messages';
+
+test.describe('resolveFormsEndpoint', () => {
+  test('adds https to bare hosts', () => {
+    expect(resolveFormsEndpoint('rest-stg.gadgetcloud.io/forms')).toBe('https://rest-stg.gadgetcloud.io/forms');
+  });
+
+  test('keeps explicit protocols', () => {
+    expect(resolveFormsEndpoint('http://localhost:8787/forms')).toBe('http://localhost:8787/forms');
+  });
+
+  test('returns null when the page has no endpoint', () => {
+    expect(resolveFormsEndpoint(null)).toBeNull();
+    expect(resolveFormsEndpoint('  ')).toBeNull();
+  });
+});
+
+test.describe('buildPayload', () => {
+  test('trims fields and adds attribution and consent to the payload', () => {
+    const payload = buildPayload(
+      { firstName: ' Ada ', lastName: 'Lovelace ', email: ' ada@example.com', subject: ' Hello ', message: ' Hi there ' },
+      { source: 'direct', referrer: 'direct', pageUrl: 'https://www.gadgetcloud.io/contact_us.html', referredBy: 'p-1' },
+      DEFAULT_CONSENT,
+    );
+
+    expect(payload).toEqual({
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      email: 'ada@example.com',
+      subject: 'Hello',
+      message: 'Hi there',
+      source: 'direct',
+      referrer: 'direct',
+      pageUrl: 'https://www.gadgetcloud.io/contact_us.html',
+      referredBy: 'p-1',
+      privacyConsent: DEFAULT_CONSENT,
+    });
+  });
+
+  test('keeps boolean fields as they are', () => {
+    const payload = buildPayload({ email: ' a@example.com ', consent: true }, { source: 'direct', referrer: 'direct', pageUrl: '/' }, DEFAULT_CONSENT);
+    expect(payload).toMatchObject({ email: 'a@example.com', consent: true });
+  });
+});
+
+test.describe('submitForm', () => {
+  const jsonResponse = (status: number, body: unknown) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+  test('posts JSON to the typed endpoint and returns the submission id', async () => {
+    let requested: { url: string; init?: RequestInit } | null = null;
+    const fetchImpl = (async (url: string, init?: RequestInit) => {
+      requested = { url, init };
+      return jsonResponse(200, { success: true, submission_id: 'FSM-1' });
+    }) as typeof fetch;
+
+    const outcome = await submitForm('https://rest.gadgetcloud.io/forms', 'contacts', { a: 1 }, { fetchImpl });
+
+    expect(outcome).toEqual({ status: 'success', submissionId: 'FSM-1' });
+    expect(requested!.url).toBe('https://rest.gadgetcloud.io/forms?type=contacts');
+    expect(requested!.init?.method).toBe('POST');
+    expect(requested!.init?.body).toBe('{"a":1}');
+    // Idempotency-Key is only sent by queued retries
+    expect(requested!.init?.headers).toEqual({ 'Content-Type': 'application/json' });
+  });
+
+  test('surfaces API error messages', async () => {
+    const fetchImpl = (async () => jsonResponse(400, { error: 'firstName: Must be at least 2 characters' })) as typeof fetch;
+    const outcome = await submitForm('https://api', 'contacts', {}, { fetchImpl });
+    expect(outcome).toEqual({
+      status: 'error',
+      httpStatus: 400,
+      message: 'firstName: Must be at least 2 characters',
+      fieldErrors: { firstName: 'Must be at least 2 characters' },
+    });
+  });
+
+  test('uses a generic message when the error body is not JSON', async () => {
+    const fetchImpl = (async () => new Response('oops', { status: 500 })) as typeof fetch;
+    const outcome = await submitForm('https://api', 'contacts', {}, { fetchImpl });
+    expect(outcome).toEqual({ status: 'error', httpStatus: 500, message: MESSAGES['form.genericError'], fieldErrors: {} });
+  });
+
+  test('reports 429 responses with their Retry-After', async () => {
+    const fetchImpl = (async () => new Response('', { status: 429, headers: { 'Retry-After': '120' } })) as typeof fetch;
+    expect(await submitForm('https://api', 'contacts', {}, { fetchImpl })).toEqual({ status: 'rate-limited', retryAfterSeconds: 120 });
+  });
+
+  test('reports network failures', async () => {
+    const fetchImpl = (async () => {
+      throw new TypeError('Failed to fetch');
+    }) as typeof fetch;
+    expect(await submitForm('https://api', 'contacts', {}, { fetchImpl })).toEqual({ status: 'network-error' });
+  });
+});
+
+test.describe('parseErrorBody', () => {
+  test('reads field: message entries from the error string', () => {
+    expect(parseErrorBody({ error: 'firstName: Must be at least 2 characters; email: Invalid email address' })).toEqual({
+      message: 'firstName: Must be at least 2 characters; email: Invalid email address',
+      fieldErrors: { firstName: 'Must be at least 2 characters', email: 'Invalid email address' },
+    });
+  });
+
+  test('reads a structured errors object', () => {
+    expect(parseErrorBody({ message: 'Validation failed', errors: { subject: 'Too short', message: ['Required', 'Too short'] } })).toEqual({
+      message: 'Validation failed',
+      fieldErrors: { subject: 'Too short', message: 'Required Too short' },
+    });
+  });
+
+  test('keeps plain messages without field errors', () => {
+    expect(parseErrorBody({ error: 'Service unavailable' })).toEqual({ message: 'Service unavailable', fieldErrors: {} });
+    expect(parseErrorBody(null)).toEqual({ message: MESSAGES['form.genericError'], fieldErrors: {} });
+  });
+});
+
+test.describe('parseRetryAfter', () => {
+  test('accepts seconds and HTTP dates', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+    expect(parseRetryAfter('30', now)).toBe(30);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:02:00 GMT', now)).toBe(120);
+    expect(parseRetryAfter('Tue, 31 Dec 2024 23:00:00 GMT', now)).toBe(0);
+  });
+
+  test('falls back to the default for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBe(DEFAULT_RETRY_AFTER_SECONDS);
+    expect(parseRetryAfter('soon')).toBe(DEFAULT_RETRY_AFTER_SECONDS);
+  });
+
+  test('formats the wait for the status message', () => {
+    expect(retryAfterMessage(1)).toBe('Too many submissions. Please try again in 1 second.');
+    expect(retryAfterMessage(45)).toBe('Too many submissions. Please try again in 45 seconds.');
+    expect(retryAfterMessage(90)).toBe('Too many submissions. Please try again in 2 minutes.');
+  });
+});
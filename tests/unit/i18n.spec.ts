@@ -0,0 +1,222 @@
+import { test, expect } from '@playwright/test';
+import { loadPosts, postListings, postTags } from '../../tools/lib/blog';
+import { loadContent } from '../../tools/lib/content';
+import { loadEnvConfig, SiteEnvironment, toSiteEnvironment } from '../../tools/lib/env-config';
+import { ASSET_SOURCES } from '../../tools/lib/fingerprint';
+import { loadCatalogs, messageKeys, sourceMessage, validateCatalog } from '../../tools/lib/i18n';
+import { loadManifest } from '../../tools/lib/manifest';
+import { formatIssue } from '../../tools/lib/validation';
+import { renderPostListing } from '../../tools/site/blog';
+import { collectionBlocks } from '../../tools/site/collections';
+import {
+  extractStrings,
+  localizeLinks,
+  pageTranslations,
+  renderAlternateLinks,
+  renderLanguageSwitcher,
+  translatedPages,
+  translateHtml,
+} from '../../tools/site/i18n';
+import { readPageBody, renderMenuPage } from '../../tools/site/pages';
+import { planCatalog } from '../../tools/site/pricing';
+import { renderStructuredData } from '../../tools/site/structured-data';
+import { environmentTokens } from '../../tools/site/tokens';
+import { fieldLabel, plural, t, useMessages } from '../../src/ts/messages';
+
+const source = ['Contact Us', 'Hello, {name}'];
+
+/** A Telugu catalog with every key, translated as the English in brackets. */
+function catalog() {
+  return {
+    messages: Object.fromEntries(messageKeys().map((key) => [key, `[${sourceMessage(key)}]`])),
+    strings: Object.fromEntries(source.map((text) => [text, `[${text}]`])),
+  };
+}
+
+const messages = (data: unknown) => validateCatalog('te', data, source, 'te.yaml').map(formatIssue);
+
+test.describe('validateCatalog', () => {
+  test('accepts a catalog translating every message and string', () => {
+    expect(messages(catalog())).toEqual([]);
+  });
+
+  test('fails on missing translation keys', () => {
+    const data = catalog();
+    delete data.messages['form.success'];
+    delete data.messages['label.Email'];
+    delete data.strings['Contact Us'];
+
+    expect(messages(data)).toEqual([
+      'te.yaml: messages.form.success: is missing',
+      'te.yaml: messages.label.Email: is missing',
+      'te.yaml: strings."Contact Us": is missing',
+    ]);
+  });
+
+  test('rejects unknown keys, empty translations and changed placeholders', () => {
+    const data = catalog();
+    data.messages['form.thanks'] = 'ధన్యవాదాలు';
+    data.messages['validation.required'] = '{field} తప్పనిసరి.';
+    data.strings['Hello, {name}'] = ' ';
+    data.strings['About Us'] = 'మా గురించి';
+
+    expect(messages(data)).toEqual([
+      'te.yaml: messages.validation.required: must use the placeholders of the English text ({label})',
+      'te.yaml: messages.form.thanks: is not a message of src/ts/messages.ts or a form field label',
+      'te.yaml: strings."Hello, {name}": is missing',
+      'te.yaml: strings."About Us": is not in content/locales/en.yaml',
+    ]);
+  });
+});
+
+test.describe('locale catalogs', () => {
+  test('translate every message and every string of en.yaml', async () => {
+    await expect(loadCatalogs()).resolves.toBeDefined();
+  });
+
+  test('en.yaml lists all copy of the translated pages', async () => {
+    const { source: strings } = await loadCatalogs();
+    const manifest = await loadManifest();
+    const content = await loadContent(manifest.plans);
+    const posts = await loadPosts({ drafts: true });
+    const site = toSiteEnvironment('stg', await loadEnvConfig('stg'));
+    const sources = {
+      blocks: { ...collectionBlocks(content), BLOG_POSTS: renderPostListing(postListings(posts)[0], postTags(posts)) },
+      catalog: planCatalog(manifest, content),
+      tokens: environmentTokens(site, 'v1.0.0'),
+    };
+
+    for (const page of translatedPages(manifest)) {
+      const context = { manifest, site, page, versionString: 'v1.0.0', assets: ASSET_SOURCES, translations: pageTranslations(page.link) };
+      const html = renderMenuPage(context, await readPageBody(page.link), sources);
+      expect(extractStrings(html).filter((text) => !strings.includes(text)), page.link).toEqual([]);
+    }
+  });
+});
+
+test.describe('translateHtml', () => {
+  const html = [
+    '<title>About Us - GadgetCloud</title>',
+    '<meta name="description" content="Who we are">',
+    '<h1>\n    About   Us\n</h1>',
+    '<img src="team.png" alt="Our team">',
+    '<p translate="no">GadgetCloud <span>Pro</span></p>',
+    '<script>const label = "About Us";</script>',
+    '<a href="mailto:hello@example.test">hello@example.test</a> <span>₹499</span>',
+  ].join('\n');
+
+  test('extracts copy with whitespace collapsed, skipping code and translate="no"', () => {
+    expect(extractStrings(html)).toEqual(['About Us - GadgetCloud', 'Who we are', 'About Us', 'Our team']);
+  });
+
+  test('swaps copy for its translation and keeps the surrounding whitespace', () => {
+    const translated = translateHtml(html, { 'About Us': 'మా గురించి', 'Our team': 'మా "బృందం"', 'Who we are': 'మేము ఎవరు' });
+
+    expect(translated).toContain('<h1>\n    మా గురించి\n</h1>');
+    expect(translated).toContain('<img src="team.png" alt="మా &quot;బృందం&quot;">');
+    expect(translated).toContain('<meta name="description" content="మేము ఎవరు">');
+    expect(translated).toContain('<title>About Us - GadgetCloud</title>');
+    expect(translated).toContain('<script>const label = "About Us";</script>');
+  });
+
+  test('translates the names and descriptions of the JSON-LD', async () => {
+    const manifest = await loadManifest();
+    const site = toSiteEnvironment('stg', await loadEnvConfig('stg'));
+    const home = manifest.menu_items.find((item) => item.link === 'index.html')!;
+    const translated = translateHtml(renderStructuredData(manifest, site, home, 'te')!, {
+      [home.title]: 'హోమ్ <పేజీ>',
+      [manifest.site_title]: 'గాడ్జెట్‌క్లౌడ్',
+    });
+
+    expect(translated).not.toContain('<పేజీ>');
+    const json = JSON.parse(translated.replace(/^<script[^>]*>|<\/script>$/g, ''));
+    const webPage = json['@graph'].find((entry: { '@type': string }) => entry['@type'] === 'WebPage');
+    expect(webPage).toMatchObject({ name: 'హోమ్ <పేజీ>', description: home.description, inLanguage: 'te' });
+    expect(json['@graph'][0].name).toBe('గాడ్జెట్‌క్లౌడ్');
+    expect(json['@graph'][0].url).toBe(site.siteUrl);
+  });
+});
+
+test.describe('localizeLinks', () => {
+  test('points links outside the locale directory back at the root', () => {
+    const html = [
+      '<a href="about_us.html#team">About</a>',
+      '<a href="blog.html">Blog</a>',
+      '<img src="images/logo.svg">',
+      '<a href="#main">Skip</a> <a href="https://example.test/">Out</a> <a href="mailto:a@example.test">Mail</a>',
+      '<script src="js/main.js"></script>',
+      '<a href="../index.html" data-locale="en">English</a>',
+    ].join('\n');
+
+    expect(localizeLinks(html, new Set(['about_us.html'])).split('\n')).toEqual([
+      '<a href="about_us.html#team">About</a>',
+      '<a href="../blog.html">Blog</a>',
+      '<img src="../images/logo.svg">',
+      '<a href="#main">Skip</a> <a href="https://example.test/">Out</a> <a href="mailto:a@example.test">Mail</a>',
+      '<script src="../js/main.js"></script>',
+      '<a href="../index.html" data-locale="en">English</a>',
+    ]);
+  });
+});
+
+test.describe('renderLanguageSwitcher', () => {
+  test('links the translations of the page and marks the current locale', () => {
+    const switcher = renderLanguageSwitcher('hi', pageTranslations('contact_us.html'));
+
+    expect(switcher).toContain('<a href="../contact_us.html" hreflang="en" lang="en" data-locale="en" translate="no">English</a>');
+    expect(switcher).toContain('<a href="../te/contact_us.html" hreflang="te" lang="te" data-locale="te" translate="no">తెలుగు</a>');
+    expect(switcher).toContain('<a href="../hi/contact_us.html" hreflang="hi" lang="hi" data-locale="hi" translate="no" aria-current="true">हिन्दी</a>');
+  });
+
+  test('falls back to the home page of locales without a translation', () => {
+    const switcher = renderLanguageSwitcher('en', { en: 'blog.html' });
+
+    expect(switcher).toContain('<a href="te/index.html" lang="te" data-locale="te" translate="no">తెలుగు</a>');
+  });
+});
+
+test.describe('renderAlternateLinks', () => {
+  const site: SiteEnvironment = {
+    name: 'prd',
+    hostName: 'www.example.test',
+    siteUrl: 'https://www.example.test/',
+    formsEndpoint: 'https://rest.example.test/forms',
+    formsOrigin: 'https://rest.example.test',
+    indexable: true,
+    drafts: false,
+  };
+
+  test('lists every locale with English as x-default', () => {
+    expect(renderAlternateLinks(site, pageTranslations('index.html'))).toEqual([
+      '<link rel="alternate" hreflang="en" href="https://www.example.test/">',
+      '<link rel="alternate" hreflang="te" href="https://www.example.test/te/index.html">',
+      '<link rel="alternate" hreflang="hi" href="https://www.example.test/hi/index.html">',
+      '<link rel="alternate" hreflang="x-default" href="https://www.example.test/">',
+    ]);
+  });
+
+  test('leaves out pages in one language', () => {
+    expect(renderAlternateLinks(site, { en: 'blog.html' })).toEqual([]);
+  });
+});
+
+test.describe('script messages', () => {
+  test.afterEach(() => useMessages({}, 'en'));
+
+  test('fall back to English and fill in placeholders', () => {
+    useMessages({}, 'en');
+
+    expect(t('validation.integerRange', { label: 'Team members', min: 1, max: 500 })).toBe('Team members must be a whole number from 1 to 500.');
+    expect(plural('form.retryMinutes', 1)).toBe('Too many submissions. Please try again in 1 minute.');
+    expect(plural('form.retrySeconds', 30)).toBe('Too many submissions. Please try again in 30 seconds.');
+  });
+
+  test('come from the page catalog with its plural rules', () => {
+    useMessages({ 'form.retryMinutes.one': 'ఒక {count} నిమిషం', 'form.retryMinutes.other': '{count} నిమిషాలు', 'label.Email': 'ఈమెయిల్' }, 'te');
+
+    expect(plural('form.retryMinutes', 1)).toBe('ఒక 1 నిమిషం');
+    expect(plural('form.retryMinutes', 5)).toBe('5 నిమిషాలు');
+    expect(fieldLabel('Email')).toBe('ఈమెయిల్');
+    expect(fieldLabel('Company')).toBe('Company');
+  });
+});
@@ -0,0 +1,43 @@
+import { test, expect } from '@playwright/test';
+import { isInternalVisit, LOCALE_KEY, PageVisit, preferredPageLink, readLocale, saveLocale } from '../../src/ts/language';
+import { MemoryStorage } from './helpers';
+
+const ORIGIN = 'https://www.example.test';
+
+/** The switcher of /about_us.html: translations carry hreflang. */
+const switcher = {
+  querySelectorAll: () => [
+    { dataset: { locale: 'en' }, href: `${ORIGIN}/about_us.html` },
+    { dataset: { locale: 'te' }, href: `${ORIGIN}/te/about_us.html` },
+    { dataset: { locale: 'hi' }, href: `${ORIGIN}/hi/about_us.html` },
+  ],
+} as unknown as ParentNode;
+
+const visit = (referrer: string, locale = 'en'): PageVisit => ({ locale, referrer, origin: ORIGIN });
+
+test.describe('language switcher', () => {
+  test('remembers the picked language', () => {
+    const storage = new MemoryStorage();
+
+    expect(readLocale(storage)).toBeNull();
+    saveLocale('te', storage);
+    expect(storage.getItem(LOCALE_KEY)).toBe('te');
+    expect(readLocale(storage)).toBe('te');
+  });
+
+  test('opens pages reached from the site in the remembered language', () => {
+    expect(preferredPageLink(switcher, visit(`${ORIGIN}/blog.html`), 'te')).toBe(`${ORIGIN}/te/about_us.html`);
+    expect(preferredPageLink(switcher, visit(`${ORIGIN}/hi/index.html`, 'hi'), 'te')).toBe(`${ORIGIN}/te/about_us.html`);
+    expect(preferredPageLink(switcher, visit(`${ORIGIN}/blog.html`, 'te'), 'te')).toBeNull();
+    expect(preferredPageLink(switcher, visit(`${ORIGIN}/blog.html`), null)).toBeNull();
+  });
+
+  test('keeps the language of a URL opened from outside the site', () => {
+    // Typed or bookmarked, a shared link, a search result, another environment
+    for (const referrer of ['', 'https://www.google.com/', 'https://stg.example.test/about_us.html', 'not a url']) {
+      expect(isInternalVisit(visit(referrer)), referrer).toBe(false);
+      expect(preferredPageLink(switcher, visit(referrer), 'te'), referrer).toBeNull();
+      expect(preferredPageLink(switcher, visit(referrer, 'hi'), 'te'), referrer).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,203 @@
+import { test, expect } from '@playwright/test';
+import type { SiteEnvironment } from '../../tools/lib/env-config';
+import { ASSET_SOURCES } from '../../tools/lib/fingerprint';
+import type { SiteManifest } from '../../tools/lib/manifest';
+import { formatAddress, renderFooter, renderHeader, renderPage, renderShareTags, twitterHandle } from '../../tools/site/layout';
+import { canonicalUrl } from '../../tools/site/urls';
+
+const manifest: SiteManifest = {
+  name: 'www.example.test',
+  version: '2.3.4',
+  site_title: 'GadgetCloud',
+  header: 'Your Gadgets, Your Cloud.',
+  footer: '© 2025 GadgetCloud. All rights reserved.',
+  default_description: 'Default',
+  address: { street: '', city: 'Kakinada', state: 'AP', zip: '533001', country: 'IN' },
+  menu_items: [
+    { text: 'Home', link: 'index.html', title: 'Home - GadgetCloud', description: 'Home page' },
+    { text: 'About', footer_text: 'About Us', link: 'about_us.html', title: 'About Us - GadgetCloud', description: 'About "us"' },
+    { text: 'Blog', link: 'blog.html', title: 'Blog - GadgetCloud', description: 'Updates' },
+  ],
+  sign_in: { text: 'Sign In', url: 'https://my.gadgetcloud.io' },
+  social_links: [{ platform: 'Twitter', url: 'https://twitter.com/gadgetcloud' }],
+  repository: '',
+  author: '',
+  description: '',
+  license: '',
+};
+
+const site: SiteEnvironment = {
+  name: 'stg',
+  hostName: 'www-stg.example.test',
+  siteUrl: 'https://www-stg.example.test/',
+  formsEndpoint: 'https://rest-stg.example.test/forms',
+  formsOrigin: 'https://rest-stg.example.test',
+  indexable: false,
+  drafts: true,
+};
+
+test.describe('renderHeader', () => {
+  test('renders every menu item and marks the active page', () => {
+    const header = renderHeader(manifest, 'about_us.html');
+
+    expect(header).toContain('<li><a href="index.html">Home</a></li>');
+    expect(header).toContain('<li><a href="about_us.html" class="active">About</a></li>');
+    expect(header).toContain('<li><a href="blog.html">Blog</a></li>');
+    expect(header).toContain('<li><a href="https://my.gadgetcloud.io" class="btn btn-primary">Sign In</a></li>');
+  });
+
+  test('puts the language switcher before Sign In', () => {
+    const header = renderHeader(manifest, 'index.html', '<li class="language-switcher"></li>');
+
+    expect(header.indexOf('language-switcher')).toBeGreaterThan(header.indexOf('blog.html'));
+    expect(header.indexOf('language-switcher')).toBeLessThan(header.indexOf('Sign In'));
+  });
+});
+
+test.describe('renderFooter', () => {
+  test('lists quick links without the home page, using footer_text', () => {
+    const footer = renderFooter(manifest, 'v2.3.4 | Build 1');
+
+    expect(footer).not.toContain('<li><a href="index.html">');
+    expect(footer).toContain('<li><a href="about_us.html">About Us</a></li>');
+    expect(footer).toContain('<li><a href="blog.html">Blog</a></li>');
+    expect(footer).toContain('<div class="version-info" translate="no">v2.3.4 | Build 1</div>');
+    expect(footer).toContain('aria-label="Twitter"');
+  });
+
+  test('includes the newsletter form for the form engine', () => {
+    const footer = renderFooter(manifest, '');
+
+    expect(footer).toContain('data-form="newsletter"');
+    expect(footer).toContain('<input type="email" id="newsletterEmail" name="email" required');
+    expect(footer).toContain('data-form-status');
+  });
+
+  test('rejects social platforms without an icon', () => {
+    const withUnknown = { ...manifest, social_links: [{ platform: 'Myspace', url: 'https://myspace.com/x' }] };
+    expect(() => renderFooter(withUnknown, '')).toThrow('No icon for social platform "Myspace"');
+  });
+});
+
+test.describe('formatAddress', () => {
+  test('formats the locality and country name', () => {
+    expect(formatAddress(manifest.address)).toBe('Kakinada, AP 533001<br>India');
+    expect(formatAddress({ ...manifest.address, street: '1 Main Rd' })).toBe('1 Main Rd<br>Kakinada, AP 533001<br>India');
+  });
+});
+
+test.describe('renderPage', () => {
+  test('wraps content with head, layout and script', () => {
+    const assets = { styles: 'css/styles.0123456789.css', script: 'js/main.abcdef0123.js' };
+    const html = renderPage({ manifest, site, page: manifest.menu_items[1], versionString: 'v2.3.4', assets }, '    <main>About</main>\n');
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<title>About Us - GadgetCloud</title>');
+    expect(html).toContain('<meta name="description" content="About &quot;us&quot;">');
+    expect(html).toContain('    <main>About</main>');
+    expect(html).toContain('<link rel="stylesheet" href="css/styles.0123456789.css">');
+    expect(html).toContain('<script src="js/main.abcdef0123.js"></script>');
+  });
+
+  test('renders a hidden consent banner that the footer can reopen', () => {
+    const html = renderPage({ manifest, site, page: manifest.menu_items[0], versionString: '', assets: ASSET_SOURCES }, '');
+
+    expect(html).toContain('<section id="consentBanner" class="consent-banner" aria-labelledby="consentTitle" hidden>');
+    expect(html).toContain('data-consent-open aria-controls="consentBanner"');
+    for (const category of ['essential', 'analytics', 'marketing']) {
+      expect(html).toContain(`name="${category}"`);
+    }
+  });
+
+  test('injects the environment into the head', () => {
+    const html = renderPage({ manifest, site, page: manifest.menu_items[1], versionString: '', assets: ASSET_SOURCES }, '');
+
+    expect(html).toContain('<meta name="forms-api-endpoint" content="https://rest-stg.example.test/forms">');
+    expect(html).toContain("connect-src 'self' https://rest-stg.example.test;");
+    expect(html).toContain("form-action 'self' https://rest-stg.example.test;");
+    expect(html).toContain('<link rel="canonical" href="https://www-stg.example.test/about_us.html">');
+  });
+
+  test('keeps environments other than production out of search engines', () => {
+    const context = { manifest, page: manifest.menu_items[0], versionString: '', assets: ASSET_SOURCES };
+
+    expect(renderPage({ ...context, site }, '')).toContain('<meta name="robots" content="noindex, nofollow">');
+    expect(renderPage({ ...context, site: { ...site, indexable: true } }, '')).not.toContain('name="robots"');
+  });
+
+  test('advertises the blog feeds while the blog is in the menu', () => {
+    const context = { manifest, site, page: manifest.menu_items[0], versionString: '', assets: ASSET_SOURCES };
+    const withoutBlog = { ...manifest, menu_items: manifest.menu_items.slice(0, 2) };
+
+    expect(renderPage(context, '')).toContain('<link rel="alternate" type="application/rss+xml" title="GadgetCloud Blog (RSS)" href="feed.xml">');
+    expect(renderPage(context, '')).toContain('<link rel="alternate" type="application/atom+xml" title="GadgetCloud Blog (Atom)" href="atom.xml">');
+    expect(renderPage({ ...context, manifest: withoutBlog }, '')).not.toContain('rel="alternate"');
+  });
+
+  test('renders a translated page in its locale with links to the others', () => {
+    const translations = { en: 'about_us.html', te: 'te/about_us.html', hi: 'hi/about_us.html' };
+    const context = { manifest, site, page: manifest.menu_items[1], versionString: '', assets: ASSET_SOURCES, translations };
+    const html = renderPage({ ...context, locale: 'te', messages: { 'form.sending': 'పంపుతోంది...' } }, '');
+
+    expect(html).toContain('<html lang="te">');
+    expect(html).toContain('<link rel="canonical" href="https://www-stg.example.test/te/about_us.html">');
+    expect(html).toContain('<link rel="alternate" hreflang="hi" href="https://www-stg.example.test/hi/about_us.html">');
+    expect(html).toContain('<link rel="alternate" hreflang="x-default" href="https://www-stg.example.test/about_us.html">');
+    expect(html).toContain('<a href="../about_us.html" hreflang="en" lang="en" data-locale="en" translate="no">English</a>');
+    expect(html).toContain('<script type="application/json" id="pageMessages">{"form.sending":"పంపుతోంది..."}</script>');
+    expect(renderPage(context, '')).toContain('<html lang="en">');
+    expect(renderPage(context, '')).not.toContain('id="pageMessages"');
+  });
+
+  test('marks the menu item of a generated page active', () => {
+    const article = { text: 'Hello', link: 'blog-hello.html', title: 'Hello - GadgetCloud', description: 'Hello' };
+    const html = renderPage({ manifest, site, page: article, activeLink: 'blog.html', versionString: '', assets: ASSET_SOURCES }, '');
+
+    expect(html).toContain('<li><a href="blog.html" class="active">Blog</a></li>');
+    expect(html).toContain('<link rel="canonical" href="https://www-stg.example.test/blog-hello.html">');
+  });
+});
+
+test.describe('renderShareTags', () => {
+  const context = { manifest, site, page: manifest.menu_items[1], versionString: '', assets: ASSET_SOURCES };
+
+  test('describes the page for link previews', () => {
+    const tags = renderShareTags({ ...context, manifest: { ...manifest, share_image: 'images/social/card.png' } });
+
+    expect(tags).toEqual([
+      '<meta property="og:type" content="website">',
+      '<meta property="og:site_name" content="GadgetCloud">',
+      '<meta property="og:title" content="About Us - GadgetCloud">',
+      '<meta property="og:description" content="About &quot;us&quot;">',
+      '<meta property="og:url" content="https://www-stg.example.test/about_us.html">',
+      '<meta property="og:image" content="https://www-stg.example.test/images/social/card.png">',
+      '<meta property="og:image:alt" content="GadgetCloud">',
+      '<meta name="twitter:card" content="summary_large_image">',
+      '<meta name="twitter:site" content="@gadgetcloud">',
+      '<meta name="twitter:title" content="About Us - GadgetCloud">',
+      '<meta name="twitter:description" content="About &quot;us&quot;">',
+      '<meta name="twitter:image" content="https://www-stg.example.test/images/social/card.png">',
+    ]);
+  });
+
+  test('falls back to a small card without a share image or Twitter link', () => {
+    const tags = renderShareTags({ ...context, manifest: { ...manifest, social_links: [] } });
+
+    expect(tags).toContain('<meta name="twitter:card" content="summary">');
+    expect(tags.some((tag) => tag.includes('image') || tag.includes('twitter:site'))).toBe(false);
+  });
+});
+
+test.describe('twitterHandle', () => {
+  test('reads the handle from the Twitter link', () => {
+    expect(twitterHandle(manifest)).toBe('@gadgetcloud');
+    expect(twitterHandle({ ...manifest, social_links: [] })).toBeUndefined();
+  });
+});
+
+test.describe('canonicalUrl', () => {
+  test('serves the home page at the site root', () => {
+    expect(canonicalUrl(site, 'index.html')).toBe('https://www-stg.example.test/');
+    expect(canonicalUrl(site, 'products.html')).toBe('https://www-stg.example.test/products.html');
+  });
+});
@@ -0,0 +1,148 @@
+import { test, expect } from '@playwright/test';
+import type { AddressInfo } from 'node:net';
+import type http from 'node:http';
+import { createMockFormsApi, MockFailure, MockRequest, MockSubmission } from '../../tools/mock-api/server';
+
+let server: http.Server;
+let baseUrl: string;
+
+test.beforeAll(async () => {
+  server = createMockFormsApi();
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+test.afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const contact = {
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+  email: 'ada@example.com',
+  subject: 'Engines',
+  message: 'About the analytical engine.',
+  source: 'direct',
+};
+
+function post(scope: string, type: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+  return fetch(`${baseUrl}/scopes/${scope}/forms?type=${type}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+async function queueFailure(scope: string, failure: MockFailure): Promise<void> {
+  const response = await fetch(`${baseUrl}/scopes/${scope}/__mock/failures`, { method: 'POST', body: JSON.stringify(failure) });
+  expect(response.status).toBe(201);
+}
+
+async function read<T>(scope: string, what: 'submissions' | 'requests'): Promise<T[]> {
+  return (await fetch(`${baseUrl}/scopes/${scope}/__mock/${what}`)).json();
+}
+
+test.describe('mock forms API', () => {
+  test('accepts valid submissions and stores them', async () => {
+    const response = await post('accept', 'contacts', contact, { 'Idempotency-Key': 'key-1' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('access-control-allow-origin')).toBe('*');
+    const body = await response.json();
+    expect(body).toMatchObject({ success: true, submission_id: expect.stringMatching(/^FSM-[0-9A-F]{8}$/) });
+
+    const submissions = await read<MockSubmission>('accept', 'submissions');
+    expect(submissions).toHaveLength(1);
+    expect(submissions[0]).toMatchObject({ submissionId: body.submission_id, type: 'contacts', idempotencyKey: 'key-1', payload: contact });
+  });
+
+  test('validates with the client rules', async () => {
+    const response = await post('invalid', 'contacts', { ...contact, firstName: 'A', email: 'x@yopmail.com' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      success: false,
+      message: 'Validation failed',
+      errors: {
+        firstName: 'First name must be at least 2 characters.',
+        email: 'Please use a permanent email address, not a disposable one.',
+      },
+    });
+    expect(await read('invalid', 'submissions')).toEqual([]);
+  });
+
+  test('rejects unknown form types and malformed bodies', async () => {
+    expect((await post('unknown', 'careers', contact)).status).toBe(400);
+
+    const malformed = await fetch(`${baseUrl}/scopes/unknown/forms?type=contacts`, { method: 'POST', body: 'not json' });
+    expect(await malformed.json()).toEqual({ success: false, error: 'Request body must be JSON' });
+  });
+
+  test('returns the original submission for a repeated idempotency key', async () => {
+    const first = await (await post('repeat', 'newsletter', { email: 'ada@example.com' }, { 'Idempotency-Key': 'same' })).json();
+    const second = await (await post('repeat', 'newsletter', { email: 'ada@example.com' }, { 'Idempotency-Key': 'same' })).json();
+
+    expect(second.submission_id).toBe(first.submission_id);
+    expect(await read('repeat', 'submissions')).toHaveLength(1);
+  });
+
+  test('plays queued failures in order, then recovers', async () => {
+    await queueFailure('failures', { mode: '429', retryAfter: '3' });
+    await queueFailure('failures', { mode: '400', body: { error: 'captcha: Verification required' } });
+    await queueFailure('failures', { mode: '500', times: 2 });
+
+    const limited = await post('failures', 'newsletter', { email: 'ada@example.com' });
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).toBe('3');
+    expect(limited.headers.get('access-control-expose-headers')).toBe('Retry-After');
+
+    const rejected = await post('failures', 'newsletter', { email: 'ada@example.com' });
+    expect(await rejected.json()).toEqual({ error: 'captcha: Verification required' });
+
+    expect((await post('failures', 'newsletter', { email: 'ada@example.com' })).status).toBe(500);
+    expect((await post('failures', 'newsletter', { email: 'ada@example.com' })).status).toBe(500);
+    expect((await post('failures', 'newsletter', { email: 'ada@example.com' })).status).toBe(200);
+
+    const requests = await read<MockRequest>('failures', 'requests');
+    expect(requests.map((request) => request.status)).toEqual([429, 400, 500, 500, 200]);
+  });
+
+  test('drops the connection or answers slowly', async () => {
+    await queueFailure('network', { mode: 'drop' });
+    await queueFailure('network', { mode: 'slow', delayMs: 300 });
+
+    await expect(post('network', 'newsletter', { email: 'ada@example.com' })).rejects.toThrow();
+
+    const started = Date.now();
+    expect((await post('network', 'newsletter', { email: 'ada@example.com' })).status).toBe(200);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(300);
+
+    expect((await read<MockRequest>('network', 'requests')).map((request) => request.status)).toEqual(['dropped', 200]);
+  });
+
+  test('keeps scopes apart and resets them', async () => {
+    await post('one', 'newsletter', { email: 'one@example.com' });
+    await queueFailure('two', { mode: '500' });
+
+    expect((await post('one', 'newsletter', { email: 'one@example.com' })).status).toBe(200);
+    expect(await read('two', 'submissions')).toEqual([]);
+
+    await fetch(`${baseUrl}/scopes/two/__mock/failures`, { method: 'DELETE' });
+    expect((await post('two', 'newsletter', { email: 'two@example.com' })).status).toBe(200);
+
+    await fetch(`${baseUrl}/scopes/one/__mock`, { method: 'DELETE' });
+    expect(await read('one', 'submissions')).toEqual([]);
+  });
+
+  test('answers CORS preflight requests', async () => {
+    const response = await fetch(`${baseUrl}/forms?type=contacts`, { method: 'OPTIONS' });
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('access-control-allow-headers')).toBe('Content-Type, Idempotency-Key');
+  });
+
+  test('rejects malformed failure modes', async () => {
+    const response = await fetch(`${baseUrl}/__mock/failures`, { method: 'POST', body: JSON.stringify({ mode: '418' }) });
+    expect(response.status).toBe(400);
+  });
+});
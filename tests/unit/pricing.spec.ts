@@ -0,0 +1,130 @@
+import { test, expect } from '@playwright/test';
+import type { Touch } from '../../src/ts/attribution';
+import { annualSavings, formatPrice, PlanPrices, savingsText, signupUrl } from '../../src/ts/pricing';
+import type { PlanFeature, PricingTier } from '../../tools/lib/content';
+import type { SiteManifest } from '../../tools/lib/manifest';
+import { planCatalog, renderPricing } from '../../tools/site/pricing';
+
+const pro: PlanPrices = {
+  monthly: { INR: 299, USD: 4 },
+  annual: { INR: 2990, USD: 40 },
+};
+
+const manifest = {
+  signup_url: 'https://my.gadgetcloud.io/signup',
+  plans: [
+    { name: 'Free', description: 'Free', price: { INR: 0, USD: 0 } },
+    { name: 'Pro', description: 'Pro', price: pro.monthly, annual_price: pro.annual },
+    { name: 'Enterprise', description: 'Custom', quote_link: 'products.html#enterprise-quote' },
+  ],
+} as SiteManifest;
+
+const content: { pricing_tiers: PricingTier[]; plan_features: PlanFeature[] } = {
+  pricing_tiers: [
+    { plan: 'Free', summary: 'Start here.', cta: 'Start for free' },
+    { plan: 'Pro', summary: 'More <power>.', cta: 'Choose Pro', highlight: true },
+    { plan: 'Enterprise', title: 'Enterprise & Add-ons', summary: 'Talk to us.', cta: 'Request a Quote' },
+  ],
+  plan_features: [
+    { feature: 'Devices', plans: { Free: 'Up to 10', Pro: 'Unlimited', Enterprise: 'Unlimited' } },
+    { feature: 'Analytics', plans: { Pro: true, Enterprise: true } },
+  ],
+};
+
+test.describe('formatPrice', () => {
+  test('uses each currency home format', () => {
+    expect(formatPrice(2990, 'INR')).toBe('₹2,990');
+    expect(formatPrice(120000, 'INR')).toBe('₹1,20,000');
+    expect(formatPrice(40, 'USD')).toBe('$40');
+    expect(formatPrice(4.5, 'USD')).toBe('$4.50');
+  });
+});
+
+test.describe('annual savings', () => {
+  test('compare a year of monthly payments with the annual price', () => {
+    expect(annualSavings(pro, 'INR')).toBe(598);
+    expect(savingsText(pro, 'INR')).toBe('Save ₹598 a year (17%)');
+    expect(savingsText(pro, 'USD')).toBe('Save $8 a year (17%)');
+  });
+
+  test('are not shown when annual billing saves nothing', () => {
+    const free: PlanPrices = { monthly: { INR: 0 }, annual: { INR: 0 } };
+    expect(savingsText(free, 'INR')).toBe('');
+  });
+});
+
+test.describe('signupUrl', () => {
+  const choice = { plan: 'pro', billing: 'annual', currency: 'USD' } as const;
+
+  test('carries the plan, billing period and currency', () => {
+    expect(signupUrl('https://my.gadgetcloud.io/signup', choice)).toBe(
+      'https://my.gadgetcloud.io/signup?plan=pro&billing=annual&currency=USD',
+    );
+  });
+
+  test('passes on the campaign of the last touch', () => {
+    const touch: Touch = {
+      source: 'newsletter',
+      utm: { utm_source: 'newsletter', utm_campaign: 'launch' },
+      referredBy: 'partner-42',
+      gclid: 'abc',
+      referrer: 'direct',
+      landingPage: 'https://www.gadgetcloud.io/?utm_source=newsletter',
+      capturedAt: 0,
+      expiresAt: 1,
+    };
+    const params = new URL(signupUrl('https://my.gadgetcloud.io/signup', choice, touch)).searchParams;
+    expect(Object.fromEntries(params)).toEqual({
+      plan: 'pro',
+      billing: 'annual',
+      currency: 'USD',
+      source: 'newsletter',
+      utm_source: 'newsletter',
+      utm_campaign: 'launch',
+      referredBy: 'partner-42',
+      gclid: 'abc',
+    });
+  });
+});
+
+test.describe('planCatalog', () => {
+  const catalog = planCatalog(manifest, content);
+
+  test('joins tiers with their manifest plan', () => {
+    expect(catalog.currencies).toEqual(['INR', 'USD']);
+    expect(catalog.plans.map((plan) => [plan.id, plan.title, plan.cta.link])).toEqual([
+      ['free', 'Free', 'https://my.gadgetcloud.io/signup'],
+      ['pro', 'Pro', 'https://my.gadgetcloud.io/signup'],
+      ['enterprise', 'Enterprise & Add-ons', 'products.html#enterprise-quote'],
+    ]);
+    expect(catalog.plans[0].prices?.annual).toEqual({ INR: 0, USD: 0 });
+    expect(catalog.plans[1].prices).toEqual(pro);
+    expect(catalog.plans[2].prices).toBeUndefined();
+  });
+
+  test('fills the comparison with one value per plan', () => {
+    expect(catalog.features.map((row) => row.values)).toEqual([
+      ['Up to 10', 'Unlimited', 'Unlimited'],
+      [false, true, true],
+    ]);
+  });
+});
+
+test.describe('renderPricing', () => {
+  const catalog = planCatalog(manifest, content);
+
+  test('shows monthly prices in the first currency and links to signup', () => {
+    const html = renderPricing(catalog, 'products.html');
+    expect(html).toContain('<span class="pricing-amount">₹299</span> <span class="pricing-period">/month</span>');
+    expect(html).toContain('href="https://my.gadgetcloud.io/signup?plan=pro&amp;billing=monthly&amp;currency=INR"');
+    expect(html).toContain('<p>More &lt;power&gt;.</p>');
+    expect(html).toContain('save up to 17%');
+  });
+
+  test('opens a quote form on the same page in place', () => {
+    expect(renderPricing(catalog, 'products.html')).toContain(
+      '<a href="#enterprise-quote" class="btn btn-secondary" data-quote aria-controls="enterprise-quote" aria-expanded="true">Request a Quote</a>',
+    );
+    expect(renderPricing(catalog, 'index.html')).toContain('<a href="products.html#enterprise-quote" class="btn btn-secondary">Request a Quote</a>');
+  });
+});
@@ -0,0 +1,43 @@
+import { test, expect } from '@playwright/test';
+import {
+  checkRateLimit,
+  recordSubmission,
+  RATE_LIMIT_KEY,
+  RATE_LIMIT_MAX,
+  RATE_LIMIT_WINDOW_MS,
+} from '../../src/ts/rate-limiter';
+import { MemoryStorage } from './helpers';
+
+test.describe('checkRateLimit', () => {
+  test('allows submissions when nothing is stored', () => {
+    const result = checkRateLimit(new MemoryStorage(), 1_000_000);
+    expect(result).toEqual({ allowed: true, submissions: [] });
+  });
+
+  test('blocks once the hourly limit is reached', () => {
+    const storage = new MemoryStorage();
+    const now = 10 * RATE_LIMIT_WINDOW_MS;
+    for (let i = 0; i < RATE_LIMIT_MAX; i++) {
+      recordSubmission(storage, now - 30 * 60 * 1000 + i);
+    }
+
+    const result = checkRateLimit(storage, now);
+    expect(result.allowed).toBe(false);
+    expect(result.allowed === false && result.message).toBe('Too many submissions. Please try again in 30 minutes.');
+  });
+
+  test('ignores submissions older than the window', () => {
+    const storage = new MemoryStorage();
+    const now = 10 * RATE_LIMIT_WINDOW_MS;
+    storage.setItem(RATE_LIMIT_KEY, JSON.stringify(Array(RATE_LIMIT_MAX).fill(now - RATE_LIMIT_WINDOW_MS)));
+
+    expect(checkRateLimit(storage, now)).toEqual({ allowed: true, submissions: [] });
+  });
+
+  test('allows the request when storage is unreadable', () => {
+    const storage = new MemoryStorage();
+    storage.setItem(RATE_LIMIT_KEY, 'not json');
+
+    expect(checkRateLimit(storage).allowed).toBe(true);
+  });
+});
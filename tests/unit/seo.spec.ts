@@ -0,0 +1,65 @@
+import { test, expect } from '@playwright/test';
+import type { SiteEnvironment } from '../../tools/lib/env-config';
+import type { SiteManifest } from '../../tools/lib/manifest';
+import { buildDate, renderRobotsTxt, renderSitemap } from '../../tools/site/seo';
+
+const manifest = {
+  menu_items: [
+    { text: 'Home', link: 'index.html', title: 'Home', description: 'Home page' },
+    { text: 'About', link: 'about_us.html', title: 'About', description: 'About us' },
+  ],
+} as SiteManifest;
+
+const production: SiteEnvironment = {
+  name: 'prd',
+  hostName: 'www.example.test',
+  siteUrl: 'https://www.example.test/',
+  formsEndpoint: 'https://rest.example.test/forms',
+  formsOrigin: 'https://rest.example.test',
+  indexable: true,
+  drafts: false,
+};
+
+const staging: SiteEnvironment = { ...production, name: 'stg', hostName: 'stg.example.test', siteUrl: 'https://stg.example.test/', indexable: false, drafts: true };
+
+test.describe('renderSitemap', () => {
+  test('lists every menu page on the canonical host', () => {
+    const sitemap = renderSitemap(manifest, production, '2025-12-11');
+
+    expect(sitemap.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">')).toBe(true);
+    expect(sitemap.match(/<loc>([^<]+)<\/loc>/g)).toEqual([
+      '<loc>https://www.example.test/</loc>',
+      '<loc>https://www.example.test/about_us.html</loc>',
+    ]);
+    expect(sitemap.match(/<lastmod>2025-12-11<\/lastmod>/g)).toHaveLength(2);
+  });
+
+  test('lists blog articles after the menu pages with their own date', () => {
+    const sitemap = renderSitemap(manifest, production, '2025-12-11', [{ link: 'blog-hello.html', lastModified: '2025-11-02' }]);
+
+    expect(sitemap.match(/<loc>([^<]+)<\/loc>/g)?.at(-1)).toBe('<loc>https://www.example.test/blog-hello.html</loc>');
+    expect(sitemap).toContain('<loc>https://www.example.test/blog-hello.html</loc>\n    <lastmod>2025-11-02</lastmod>');
+  });
+
+  test('uses the environment host name', () => {
+    expect(renderSitemap(manifest, staging, '2025-12-11')).toContain('<loc>https://stg.example.test/about_us.html</loc>');
+  });
+});
+
+test.describe('renderRobotsTxt', () => {
+  test('points crawlers at the sitemap in production', () => {
+    expect(renderRobotsTxt(production)).toBe('User-agent: *\nAllow: /\n\nSitemap: https://www.example.test/sitemap.xml\n');
+  });
+
+  test('disallows everything elsewhere', () => {
+    const robots = renderRobotsTxt(staging);
+    expect(robots).toContain('User-agent: *\nDisallow: /\n');
+    expect(robots).not.toContain('Sitemap:');
+  });
+});
+
+test.describe('buildDate', () => {
+  test('takes the date from a build id', () => {
+    expect(buildDate('20251211202657')).toBe('2025-12-11');
+  });
+});
@@ -0,0 +1,143 @@
+import { test, expect } from '@playwright/test';
+import type { SiteEnvironment } from '../../tools/lib/env-config';
+import type { SiteManifest } from '../../tools/lib/manifest';
+import { organizationSchema, productSchemas, renderStructuredData, structuredDataFor, webPageSchema } from '../../tools/site/structured-data';
+
+const manifest = {
+  site_title: 'GadgetCloud',
+  default_description: 'Store your gadgets.',
+  address: { street: '', city: 'Kakinada', state: 'AP', zip: '533001', country: 'IN' },
+  menu_items: [
+    { text: 'Home', link: 'index.html', title: 'Home', description: 'Home', structured_data: ['organization'] },
+    { text: 'Products', link: 'products.html', title: 'Products', description: 'Plans', structured_data: ['products'] },
+    { text: 'About', link: 'about_us.html', title: 'About', description: 'About' },
+  ],
+  contact_points: [
+    { type: 'customer support', email: 'support@example.test', hours: { days: ['Monday', 'Friday'], opens: '09:00', closes: '18:00' } },
+    { type: 'sales', email: 'hello@example.test' },
+  ],
+  plans: [
+    { name: 'Pro', description: 'For power users', price: { INR: 299, USD: 4 } },
+    { name: 'Enterprise', description: 'Custom terms', quote_link: 'products.html#enterprise-quote' },
+  ],
+  social_links: [
+    { platform: 'Twitter', url: 'https://twitter.com/gadgetcloud' },
+    { platform: 'LinkedIn', url: 'https://linkedin.com/company/gadgetcloud' },
+  ],
+} as SiteManifest;
+
+const site: SiteEnvironment = {
+  name: 'prd',
+  hostName: 'www.example.test',
+  siteUrl: 'https://www.example.test/',
+  formsEndpoint: 'https://rest.example.test/forms',
+  formsOrigin: 'https://rest.example.test',
+  indexable: true,
+  drafts: false,
+};
+
+const [home, products, about] = manifest.menu_items;
+
+test.describe('organizationSchema', () => {
+  test('describes the organization from the manifest', () => {
+    const organization = organizationSchema(manifest, site);
+
+    expect(organization).toMatchObject({
+      '@type': 'Organization',
+      '@id': 'https://www.example.test/#organization',
+      name: 'GadgetCloud',
+      url: 'https://www.example.test/',
+      logo: 'https://www.example.test/images/logos/logo3-hexagon.svg',
+      sameAs: ['https://twitter.com/gadgetcloud', 'https://linkedin.com/company/gadgetcloud'],
+    });
+    // An empty street is left out rather than sent as ""
+    expect(organization.address).toEqual({
+      '@type': 'PostalAddress',
+      addressLocality: 'Kakinada',
+      addressRegion: 'AP',
+      postalCode: '533001',
+      addressCountry: 'IN',
+    });
+  });
+
+  test('adds contact points with their hours', () => {
+    expect(organizationSchema(manifest, site).contactPoint).toEqual([
+      {
+        '@type': 'ContactPoint',
+        contactType: 'customer support',
+        email: 'support@example.test',
+        areaServed: 'IN',
+        hoursAvailable: {
+          '@type': 'OpeningHoursSpecification',
+          dayOfWeek: ['https://schema.org/Monday', 'https://schema.org/Friday'],
+          opens: '09:00',
+          closes: '18:00',
+        },
+      },
+      { '@type': 'ContactPoint', contactType: 'sales', email: 'hello@example.test', areaServed: 'IN' },
+    ]);
+  });
+});
+
+test.describe('productSchemas', () => {
+  test('offers a priced plan once per currency', () => {
+    const [pro] = productSchemas(manifest, site, products);
+
+    expect(pro).toMatchObject({ '@type': 'Product', name: 'GadgetCloud Pro', brand: { '@id': 'https://www.example.test/#organization' } });
+    expect(pro.offers.map((offer) => [offer.price, offer.priceCurrency, offer.priceSpecification?.unitCode])).toEqual([
+      [299, 'INR', 'MON'],
+      [4, 'USD', 'MON'],
+    ]);
+    expect(pro.offers[0].url).toBe('https://www.example.test/products.html');
+  });
+
+  test('points quoted plans at the quote form', () => {
+    const [, enterprise] = productSchemas(manifest, site, products);
+
+    expect(enterprise.offers).toEqual([
+      { '@type': 'Offer', url: 'https://www.example.test/products.html#enterprise-quote', availability: 'https://schema.org/InStock' },
+    ]);
+  });
+});
+
+test.describe('structuredDataFor', () => {
+  test('includes only what the page asked for', () => {
+    expect(structuredDataFor(manifest, site, about)).toBeUndefined();
+    expect(structuredDataFor(manifest, site, home)!['@graph'].map((item) => item['@type'])).toEqual(['Organization', 'WebPage']);
+    expect(structuredDataFor(manifest, site, products)!['@graph'].map((item) => item['@type'])).toEqual([
+      'Organization',
+      'Product',
+      'Product',
+      'WebPage',
+    ]);
+  });
+});
+
+test.describe('webPageSchema', () => {
+  test('describes the page in its language', () => {
+    expect(webPageSchema(site, products)).toMatchObject({ url: 'https://www.example.test/products.html', name: 'Products', inLanguage: 'en' });
+    expect(webPageSchema(site, products, 'te')).toEqual({
+      '@type': 'WebPage',
+      '@id': 'https://www.example.test/te/products.html',
+      url: 'https://www.example.test/te/products.html',
+      name: 'Products',
+      description: 'Plans',
+      inLanguage: 'te',
+      publisher: { '@id': 'https://www.example.test/#organization' },
+    });
+  });
+});
+
+test.describe('renderStructuredData', () => {
+  test('renders parseable JSON-LD that cannot close its script element', () => {
+    const tricky = { ...manifest, default_description: 'Fast </script><script>alert(1)</script>' };
+    const html = renderStructuredData(tricky, site, home)!;
+
+    expect(html.startsWith('<script type="application/ld+json">\n')).toBe(true);
+    expect(html.match(/<\/script>/g)).toHaveLength(1);
+
+    const json = JSON.parse(html.replace(/^<script[^>]*>|<\/script>$/g, ''));
+    expect(json['@context']).toBe('https://schema.org');
+    expect(json['@graph'][0].description).toBe(tricky.default_description);
+  });
+});
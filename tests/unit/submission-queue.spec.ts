@@ -0,0 +1,166 @@
+import { test, expect } from '@playwright/test';
+import {
+  enqueueSubmission,
+  flushQueue,
+  QUEUE_KEY,
+  QUEUE_MAX_AGE_MS,
+  QUEUE_MAX_ENTRIES,
+  readQueue,
+  retryDelay,
+  RETRY_MAX_MS,
+} from '../../src/ts/submission-queue';
+import { DEFAULT_CONSENT } from '../../src/ts/consent';
+import { MemoryStorage } from './helpers';
+
+const API = 'https://rest.gadgetcloud.io/forms';
+const payload = { email: 'a@example.com', source: 'direct', referrer: 'direct', pageUrl: '/', privacyConsent: DEFAULT_CONSENT };
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+function recordingFetch(respond: () => Response | Promise<Response>) {
+  const calls: Array<{ url: string; headers: Record<string, string> }> = [];
+  const fetchImpl = (async (url: string, init?: RequestInit) => {
+    calls.push({ url, headers: init?.headers as Record<string, string> });
+    return respond();
+  }) as typeof fetch;
+  return { calls, fetchImpl };
+}
+
+const offline = (async () => {
+  throw new TypeError('Failed to fetch');
+}) as typeof fetch;
+
+test.describe('retryDelay', () => {
+  test('doubles with each attempt up to the cap', () => {
+    expect([0, 1, 2, 3].map(retryDelay)).toEqual([2000, 4000, 8000, 16000]);
+    expect(retryDelay(20)).toBe(RETRY_MAX_MS);
+  });
+});
+
+test.describe('enqueueSubmission', () => {
+  test('stores the submission with its first retry scheduled', () => {
+    const storage = new MemoryStorage();
+
+    expect(enqueueSubmission({ id: 'key-1', type: 'contacts', payload }, storage, 1000)).toBe(true);
+    expect(readQueue(storage, 1000)).toEqual([
+      { id: 'key-1', type: 'contacts', payload, queuedAt: 1000, attempts: 0, nextAttemptAt: 3000 },
+    ]);
+  });
+
+  test('keeps only the newest entries', () => {
+    const storage = new MemoryStorage();
+    for (let i = 0; i < QUEUE_MAX_ENTRIES + 5; i++) {
+      enqueueSubmission({ id: `key-${i}`, type: 'contacts', payload }, storage, 1000 + i);
+    }
+
+    const queue = readQueue(storage, 2000);
+    expect(queue).toHaveLength(QUEUE_MAX_ENTRIES);
+    expect(queue[0].id).toBe('key-5');
+  });
+
+  test('reports storage failures', () => {
+    const storage = new MemoryStorage();
+    storage.setItem = () => {
+      throw new Error('QuotaExceededError');
+    };
+    expect(enqueueSubmission({ id: 'key-1', type: 'contacts', payload }, storage)).toBe(false);
+  });
+});
+
+test.describe('readQueue', () => {
+  test('drops expired entries and unreadable data', () => {
+    const storage = new MemoryStorage();
+    enqueueSubmission({ id: 'old', type: 'contacts', payload }, storage, 0);
+    enqueueSubmission({ id: 'new', type: 'contacts', payload }, storage, QUEUE_MAX_AGE_MS);
+
+    expect(readQueue(storage, QUEUE_MAX_AGE_MS + 1).map((entry) => entry.id)).toEqual(['new']);
+
+    storage.setItem(QUEUE_KEY, 'not json');
+    expect(readQueue(storage)).toEqual([]);
+  });
+});
+
+test.describe('flushQueue', () => {
+  test('sends due entries with their idempotency key and removes them', async () => {
+    const storage = new MemoryStorage();
+    enqueueSubmission({ id: 'key-1', type: 'newsletter', payload }, storage, 0);
+    const { calls, fetchImpl } = recordingFetch(() => jsonResponse(200, { success: true, submission_id: 'FSM-1' }));
+
+    const result = await flushQueue(API, { storage, now: 5000, fetchImpl });
+
+    expect(result.sent.map(({ entry, submissionId }) => [entry.id, submissionId])).toEqual([['key-1', 'FSM-1']]);
+    expect(calls[0].url).toBe(`${API}?type=newsletter`);
+    expect(calls[0].headers['Idempotency-Key']).toBe('key-1');
+    expect(storage.getItem(QUEUE_KEY)).toBeNull();
+  });
+
+  test('waits for the backoff unless forced', async () => {
+    const storage = new MemoryStorage();
+    enqueueSubmission({ id: 'key-1', type: 'contacts', payload }, storage, 0);
+    const { calls, fetchImpl } = recordingFetch(() => jsonResponse(200, { submission_id: 'FSM-2' }));
+
+    const waiting = await flushQueue(API, { storage, now: 1000, fetchImpl });
+    expect(calls).toHaveLength(0);
+    expect(waiting.pending.map((entry) => entry.id)).toEqual(['key-1']);
+
+    const forced = await flushQueue(API, { storage, now: 1000, fetchImpl, force: true });
+    expect(forced.sent).toHaveLength(1);
+  });
+
+  test('reschedules entries that fail again with exponential backoff', async () => {
+    const storage = new MemoryStorage();
+    enqueueSubmission({ id: 'key-1', type: 'contacts', payload }, storage, 0);
+
+    await flushQueue(API, { storage, now: 2000, fetchImpl: offline });
+    expect(readQueue(storage, 2000)[0]).toMatchObject({ attempts: 1, nextAttemptAt: 2000 + 4000 });
+
+    await flushQueue(API, { storage, now: 6000, fetchImpl: offline });
+    expect(readQueue(storage, 6000)[0]).toMatchObject({ attempts: 2, nextAttemptAt: 6000 + 8000 });
+  });
+
+  test('waits at least Retry-After when rate limited', async () => {
+    const storage = new MemoryStorage();
+    enqueueSubmission({ id: 'key-1', type: 'contacts', payload }, storage, 0);
+    const { fetchImpl } = recordingFetch(() => new Response('', { status: 429, headers: { 'Retry-After': '90' } }));
+
+    await flushQueue(API, { storage, now: 5000, fetchImpl });
+
+    expect(readQueue(storage, 5000)[0]).toMatchObject({ attempts: 1, nextAttemptAt: 5000 + 90_000 });
+  });
+
+  test('reschedules entries that hit a server error', async () => {
+    const storage = new MemoryStorage();
+    enqueueSubmission({ id: 'key-1', type: 'contacts', payload }, storage, 0);
+    const { fetchImpl } = recordingFetch(() => jsonResponse(503, { error: 'Service unavailable' }));
+
+    const result = await flushQueue(API, { storage, now: 2000, fetchImpl });
+
+    expect(result.rejected).toEqual([]);
+    expect(readQueue(storage, 2000)[0]).toMatchObject({ id: 'key-1', attempts: 1, nextAttemptAt: 2000 + 4000 });
+  });
+
+  test('drops entries the API rejects', async () => {
+    const storage = new MemoryStorage();
+    enqueueSubmission({ id: 'key-1', type: 'contacts', payload }, storage, 0);
+    const { fetchImpl } = recordingFetch(() => jsonResponse(400, { error: 'email: Invalid email' }));
+
+    const result = await flushQueue(API, { storage, now: 5000, fetchImpl });
+
+    expect(result.rejected.map(({ message }) => message)).toEqual(['email: Invalid email']);
+    expect(readQueue(storage, 5000)).toEqual([]);
+  });
+
+  test('keeps entries queued while the flush was running', async () => {
+    const storage = new MemoryStorage();
+    enqueueSubmission({ id: 'key-1', type: 'contacts', payload }, storage, 0);
+    const { fetchImpl } = recordingFetch(() => {
+      enqueueSubmission({ id: 'key-2', type: 'contacts', payload }, storage, 5000);
+      return jsonResponse(200, { submission_id: 'FSM-3' });
+    });
+
+    await flushQueue(API, { storage, now: 5000, fetchImpl });
+
+    expect(readQueue(storage, 5000).map((entry) => entry.id)).toEqual(['key-2']);
+  });
+});
@@ -0,0 +1,128 @@
+import { test, expect } from '@playwright/test';
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { loadManifest } from '../../tools/lib/manifest';
+import { renderFooter } from '../../tools/site/layout';
+import {
+  FieldRule,
+  FORM_RULES,
+  isDisposableEmail,
+  validateFields,
+  validateValue,
+} from '../../src/ts/validation-rules';
+
+const PAGES_DIR = join(__dirname, '..', '..', 'src', 'pages');
+
+const name: FieldRule = { label: 'Name', required: true, minLength: 2, maxLength: 5 };
+
+test.describe('validateValue', () => {
+  test('checks required and trimmed lengths', () => {
+    expect(validateValue('', name)).toBe('Name is required.');
+    expect(validateValue('   ', name)).toBe('Name is required.');
+    expect(validateValue(' a ', name)).toBe('Name must be at least 2 characters.');
+    expect(validateValue('abcdef', name)).toBe('Name must be at most 5 characters.');
+    expect(validateValue('  abcde  ', name)).toBeNull();
+    expect(validateValue(undefined, { label: 'Notes', maxLength: 5 })).toBeNull();
+  });
+
+  test('checks email syntax and disposable domains', () => {
+    const rule = FORM_RULES.contacts.email;
+    expect(validateValue('invalid-email', rule)).toBe('Please enter a valid email address.');
+    expect(validateValue('a@b', rule)).toBe('Please enter a valid email address.');
+    expect(validateValue('ada@mailinator.com', rule)).toBe('Please use a permanent email address, not a disposable one.');
+    expect(validateValue(' ada@example.com ', rule)).toBeNull();
+  });
+
+  test('checks whole numbers in range and select options', () => {
+    const seats = FORM_RULES['enterprise-quotes'].seats;
+    expect(validateValue('0', seats)).toBe('Team members must be a whole number from 1 to 100000.');
+    expect(validateValue('2.5', seats)).toBe('Team members must be a whole number from 1 to 100000.');
+    expect(validateValue('250', seats)).toBeNull();
+
+    const devices = FORM_RULES['demo-requests'].devices;
+    expect(validateValue('lots', devices)).toBe('Please choose a valid devices option.');
+    expect(validateValue('200+', devices)).toBeNull();
+  });
+});
+
+test.describe('isDisposableEmail', () => {
+  test('matches listed domains and their subdomains only', () => {
+    expect(isDisposableEmail('x@YOPmail.com')).toBe(true);
+    expect(isDisposableEmail('x@eu.mailinator.com')).toBe(true);
+    expect(isDisposableEmail('x@notmailinator.com')).toBe(false);
+    expect(isDisposableEmail('x@gadgetcloud.io')).toBe(false);
+  });
+});
+
+test.describe('validateFields', () => {
+  test('returns a message per invalid field', () => {
+    const errors = validateFields({ email: 'news@example.com', unused: 'x' }, FORM_RULES.newsletter);
+    expect(errors).toEqual({});
+    expect(validateFields({}, FORM_RULES.newsletter)).toEqual({ email: 'Email is required.' });
+  });
+});
+
+type Attributes = Record<string, string>;
+
+function parseAttributes(tag: string): Attributes {
+  const attributes: Attributes = {};
+  for (const [, key, value] of tag.matchAll(/([\w-]+)(?:="([^"]*)")?/g)) {
+    attributes[key] = value ?? '';
+  }
+  return attributes;
+}
+
+/** Expected rule for each field, read from the HTML constraints of each form. */
+function rulesFromMarkup(html: string): Record<string, Record<string, Partial<FieldRule>>> {
+  const forms: Record<string, Record<string, Partial<FieldRule>>> = {};
+  for (const [, formTag, body] of html.matchAll(/<form\b([^>]*)>([\s\S]*?)<\/form>/g)) {
+    const type = parseAttributes(formTag)['data-form'];
+    if (!type) {
+      continue;
+    }
+    const fields: Record<string, Partial<FieldRule>> = {};
+    const controls = body.matchAll(/<(?:input|textarea)\b([^>]*)>|<select\b([^>]*)>([\s\S]*?)<\/select>/g);
+    for (const [, controlTag, selectTag, options] of controls) {
+      const attributes = parseAttributes(controlTag ?? selectTag);
+      if (attributes.name === '_gotcha' || attributes.type === 'hidden') {
+        continue;
+      }
+      const rule: Partial<FieldRule> = {};
+      if ('required' in attributes) rule.required = true;
+      if (attributes.minlength) rule.minLength = Number(attributes.minlength);
+      if (attributes.maxlength) rule.maxLength = Number(attributes.maxlength);
+      if (attributes.type === 'email') rule.email = true;
+      if (attributes.type === 'number') rule.integer = true;
+      if (attributes.min) rule.min = Number(attributes.min);
+      if (attributes.max) rule.max = Number(attributes.max);
+      if (options !== undefined) {
+        rule.oneOf = [...options.matchAll(/<option value="([^"]+)"/g)].map(([, value]) => value);
+      }
+      fields[attributes['data-field'] || attributes.name] = rule;
+    }
+    forms[type] = fields;
+  }
+  return forms;
+}
+
+test.describe('FORM_RULES', () => {
+  test('mirror the constraints in the form markup', async () => {
+    const pages = readdirSync(PAGES_DIR).filter((file) => file.endsWith('.html'));
+    const html = [
+      ...pages.map((file) => readFileSync(join(PAGES_DIR, file), 'utf8')),
+      renderFooter(await loadManifest(), 'v0.0.0'),
+    ].join('\n');
+    const markup = rulesFromMarkup(html);
+
+    expect(Object.keys(markup).sort()).toEqual(Object.keys(FORM_RULES).sort());
+    for (const [type, rules] of Object.entries(FORM_RULES)) {
+      const actual = Object.fromEntries(
+        Object.entries(rules).map(([key, { required, minLength, maxLength, email, blockDisposable, integer, min, max, oneOf }]) => [
+          key,
+          JSON.parse(JSON.stringify({ required, minLength, maxLength, email: email || blockDisposable, integer, min, max, oneOf })),
+        ]),
+      );
+      expect(actual, type).toEqual(markup[type]);
+    }
+  });
+});
@@ -1,4 +1,13 @@
 import { test, expect } from '@playwright/test';
+import { ContentCollections, loadContent } from '../tools/lib/content';
+import { loadManifest } from '../tools/lib/manifest';
+
+// Cards are rendered from content/, so expectations come from the same data
+let content: ContentCollections;
+
+test.beforeAll(async () => {
+  content = await loadContent((await loadManifest()).plans);
+});
 
 test.describe('Visual Enhancements - Hero Section', () => {
   test('hero dashboard illustration is visible', async ({ page }) => {
@@ -29,10 +38,10 @@ test.describe('Visual Enhancements - Testimonials', () => {
     await expect(testimonialsSection).toBeVisible();
   });
 
-  test('displays correct number of testimonial cards', async ({ page }) => {
+  test('displays one card per testimonial', async ({ page }) => {
     await page.goto('/');
     const testimonialCards = page.locator('.testimonial-card');
-    await expect(testimonialCards).toHaveCount(3);
+    await expect(testimonialCards).toHaveCount(content.testimonials.length);
   });
 
   test('each testimonial has avatar, content, and author info', async ({ page }) => {
@@ -41,19 +50,17 @@ test.describe('Visual Enhancements - Testimonials', () => {
 
     await expect(firstTestimonial.locator('.testimonial-avatar img')).toBeVisible();
     await expect(firstTestimonial.locator('.testimonial-content')).toBeVisible();
-    await expect(firstTestimonial.locator('.testimonial-info h4')).toBeVisible();
+    await expect(firstTestimonial.locator('.testimonial-info h3')).toBeVisible();
     await expect(firstTestimonial.locator('.testimonial-info p')).toBeVisible();
   });
 
   test('testimonial avatars load correctly', async ({ page }) => {
     await page.goto('/');
-    const avatar1 = page.locator('img[src*="avatar-1.svg"]');
-    const avatar2 = page.locator('img[src*="avatar-2.svg"]');
-    const avatar3 = page.locator('img[src*="avatar-3.svg"]');
-
-    await expect(avatar1).toBeVisible();
-    await expect(avatar2).toBeVisible();
-    await expect(avatar3).toBeVisible();
+    for (const testimonial of content.testimonials) {
+      const avatar = page.locator(`.testimonial-avatar img[src="${testimonial.avatar}"]`);
+      await expect(avatar).toBeVisible();
+      await expect(avatar).toHaveAttribute('alt', testimonial.name);
+    }
   });
 
   test('testimonial content is not empty', async ({ page }) => {
@@ -70,9 +77,7 @@ test.describe('Visual Enhancements - Testimonials', () => {
 
   test('testimonial author names are present', async ({ page }) => {
     await page.goto('/');
-    await expect(page.locator('.testimonial-info h4:has-text("Sarah Johnson")')).toBeVisible();
-    await expect(page.locator('.testimonial-info h4:has-text("Michael Chen")')).toBeVisible();
-    await expect(page.locator('.testimonial-info h4:has-text("Emily Rodriguez")')).toBeVisible();
+    await expect(page.locator('.testimonial-info h3')).toHaveText(content.testimonials.map((testimonial) => testimonial.name));
   });
 });
 
@@ -83,31 +88,19 @@ test.describe('Visual Enhancements - Trust Badges', () => {
     await expect(trustBadges).toBeVisible();
   });
 
-  test('displays correct number of badges', async ({ page }) => {
+  test('displays one badge per trust badge entry', async ({ page }) => {
     await page.goto('/');
     const badges = page.locator('.trust-badges .badge');
-    await expect(badges).toHaveCount(3);
-  });
-
-  test('SSL secure badge is visible', async ({ page }) => {
-    await page.goto('/');
-    const sslBadge = page.locator('img[src*="ssl-secure.svg"]');
-    await expect(sslBadge).toBeVisible();
-    await expect(sslBadge).toHaveAttribute('alt', 'SSL Secure');
-  });
-
-  test('GDPR compliant badge is visible', async ({ page }) => {
-    await page.goto('/');
-    const gdprBadge = page.locator('img[src*="gdpr-compliant.svg"]');
-    await expect(gdprBadge).toBeVisible();
-    await expect(gdprBadge).toHaveAttribute('alt', 'GDPR Compliant');
+    await expect(badges).toHaveCount(content.trust_badges.length);
   });
 
-  test('uptime badge is visible', async ({ page }) => {
+  test('every badge image is visible with its label', async ({ page }) => {
     await page.goto('/');
-    const uptimeBadge = page.locator('img[src*="uptime-99.svg"]');
-    await expect(uptimeBadge).toBeVisible();
-    await expect(uptimeBadge).toHaveAttribute('alt', '99.9% Uptime');
+    for (const badge of content.trust_badges) {
+      const image = page.locator(`.trust-badges img[src="${badge.image}"]`);
+      await expect(image).toBeVisible();
+      await expect(image).toHaveAttribute('alt', badge.label);
+    }
   });
 });
 
@@ -192,12 +185,8 @@ test.describe('Visual Enhancements - Image Loading', () => {
       'devices.svg',
       'cloud-storage.svg',
       'security.svg',
-      'avatar-1.svg',
-      'avatar-2.svg',
-      'avatar-3.svg',
-      'ssl-secure.svg',
-      'gdpr-compliant.svg',
-      'uptime-99.svg'
+      ...content.testimonials.map((testimonial) => testimonial.avatar),
+      ...content.trust_badges.map((badge) => badge.image),
     ];
 
     for (const illustration of illustrations) {
@@ -242,7 +231,7 @@ test.describe('Visual Enhancements - Responsive Design', () => {
     await expect(trustBadges).toBeVisible();
 
     const badges = page.locator('.trust-badges .badge');
-    await expect(badges).toHaveCount(3);
+    await expect(badges).toHaveCount(content.trust_badges.length);
   });
 });
 
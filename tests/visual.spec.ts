@@ -0,0 +1,61 @@
+import { test, expect, Page } from '@playwright/test';
+import { manifestPages } from './manifest-pages';
+import { stubWebFonts } from './web-fonts';
+
+/**
+ * Screenshot comparisons against the baselines in tests/__screenshots__/,
+ * one set per project. Only run with `npm run test:visual`; see the README
+ * for updating baselines and reviewing diffs.
+ */
+
+/** Sections that have broken before, by page. */
+const SECTIONS: Record<string, string[]> = {
+  'index.html': ['.hero', '.features', '.testimonials', '.trust-badges', '.cta-section'],
+  'products.html': ['.product-showcase'],
+};
+
+async function openPage(page: Page, link: string): Promise<void> {
+  await stubWebFonts(page);
+  await page.goto(`/${link}`);
+  // Screenshots wait for fonts, not for images
+  await page.waitForFunction(() => Array.from(document.images).every((image) => image.complete));
+}
+
+/** The build version and id change with every build. */
+const dynamicContent = (page: Page) => [page.locator('.version-info')];
+
+test.describe('Visual regression @visual', () => {
+  for (const item of manifestPages) {
+    test(`${item.link} full page`, async ({ page }) => {
+      await openPage(page, item.link);
+      await expect(page).toHaveScreenshot(`${item.link}.png`, { fullPage: true, mask: dynamicContent(page) });
+    });
+
+    for (const selector of SECTIONS[item.link] ?? []) {
+      test(`${item.link} ${selector}`, async ({ page }) => {
+        await openPage(page, item.link);
+        const section = page.locator(selector).first();
+        await section.scrollIntoViewIfNeeded();
+        await expect(section).toHaveScreenshot(`${item.link}-${selector.slice(1)}.png`);
+      });
+    }
+  }
+
+  test('header', async ({ page }) => {
+    await openPage(page, 'index.html');
+    await expect(page.locator('.header')).toHaveScreenshot('header.png');
+  });
+
+  test('footer', async ({ page }) => {
+    await openPage(page, 'index.html');
+    await expect(page.locator('.footer')).toHaveScreenshot('footer.png', { mask: dynamicContent(page) });
+  });
+
+  test('open mobile menu', async ({ page, isMobile }) => {
+    test.skip(!isMobile, 'The menu toggle is only shown on mobile viewports');
+    await openPage(page, 'index.html');
+    await page.locator('.nav-toggle').click();
+    await expect(page.locator('.nav-menu')).toHaveClass(/active/);
+    await expect(page).toHaveScreenshot('mobile-menu.png');
+  });
+});
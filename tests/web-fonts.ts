@@ -0,0 +1,13 @@
+import type { Page } from '@playwright/test';
+
+/**
+ * Serves an empty stylesheet for Google Fonts and blocks the font files, so
+ * pages render with the local fallback stack and never wait on the network.
+ * Call before the first page.goto().
+ */
+export async function stubWebFonts(page: Page): Promise<void> {
+  await page.route('https://fonts.googleapis.com/**', (route) =>
+    route.fulfill({ status: 200, contentType: 'text/css', body: '/* web fonts stubbed for tests */' }),
+  );
+  await page.route('https://fonts.gstatic.com/**', (route) => route.abort());
+}
@@ -0,0 +1,277 @@
+/**
+ * Builds the site for one environment: copies static assets from src/,
+ * bundles src/ts/ into js/main.js, renders every manifest page from its
+ * src/pages/ body and the shared layout, fills in the sections rendered from
+ * the content/ collections, and injects the environment's
+ * values. Pages are translated with the catalogs in content/locales/
+ * into a directory per locale, e.g. te/index.html. The Markdown articles in
+ * content/blog/ become blog pages and feeds, with drafts only on staging.
+ * It then writes sitemap.xml and robots.txt. The stylesheet and script
+ * are written under content-hashed names (`styles.[hash].css`,
+ * `main.[hash].js`). version.json, written last, records the build and the
+ * hash of every other file. Output is deterministic for a given commit and
+ * environment.
+ *
+ * Usage: npm run build -- --env stg|prd [--out <dir>] [--forms-endpoint <url>]
+ *
+ * `--forms-endpoint` replaces the environment's forms API, e.g. with the
+ * local mock (`npm run mock-api`) for development and Playwright runs.
+ */
+
+import { cp, mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { BLOG_PAGE, loadPosts, postListings, postTags } from './lib/blog';
+import { createBuildInfo, formatVersionString } from './lib/build-info';
+import { COLLECTION_NAMES, loadContent } from './lib/content';
+import { bundleScripts, SCRIPT_OUTPUT } from './lib/bundle';
+import { ENVIRONMENTS, isEnvironment, loadEnvConfig, toSiteEnvironment, withFormsEndpoint } from './lib/env-config';
+import { AssetPaths, ASSET_SOURCES, contentHash, fingerprint, rewriteAssetReferences } from './lib/fingerprint';
+import { LOCALE_NAMES, localePath, loadCatalogs, TRANSLATED_LOCALES } from './lib/i18n';
+import { fail, info, section, success, warn } from './lib/log';
+import { loadManifest } from './lib/manifest';
+import { DIST_DIR, PAGES_DIR, ROOT_DIR, SRC_DIR } from './lib/paths';
+import { articlePage, listingPage, renderArticle, renderPostListing } from './site/blog';
+import { collectionBlocks } from './site/collections';
+import { ATOM_FILE, renderAtomFeed, renderRssFeed, RSS_FILE } from './site/feeds';
+import { extractStrings, localizeLinks, pageTranslations, translatedPages, translateHtml } from './site/i18n';
+import { findPage, renderPage } from './site/layout';
+import { PageSources, readPageBody, renderMenuPage } from './site/pages';
+import { planCatalog } from './site/pricing';
+import { createReleaseInfo, renderVersionJson, VERSION_FILE } from './site/release';
+import { buildDate, renderRobotsTxt, renderSitemap, ROBOTS_FILE, SITEMAP_FILE } from './site/seo';
+import { environmentTokens, findUnresolvedTokens, replaceBlockTokens, replaceTokens, TokenValues } from './site/tokens';
+
+// Sources that are compiled or rendered rather than copied
+const NON_STATIC_ENTRIES = new Set(['ts', 'pages']);
+
+// Output files checked for leftover {{...}} tokens
+const TEXT_EXTENSIONS = new Set(['.html', '.css', '.js', '.json', '.xml', '.txt']);
+
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true, recursive: true });
+  return entries
+    .filter((entry) => entry.isFile())
+    .map((entry) => path.join(entry.parentPath, entry.name))
+    .sort();
+}
+
+async function copyStaticAssets(outDir: string): Promise<void> {
+  for (const entry of (await readdir(SRC_DIR)).sort()) {
+    if (!NON_STATIC_ENTRIES.has(entry)) {
+      await cp(path.join(SRC_DIR, entry), path.join(outDir, entry), { recursive: true });
+    }
+  }
+}
+
+/** Renames the copied stylesheet to its fingerprinted name. */
+async function fingerprintStyles(outDir: string): Promise<string> {
+  const source = path.join(outDir, ASSET_SOURCES.styles);
+  const styles = fingerprint(ASSET_SOURCES.styles, await readFile(source));
+  await rename(source, path.join(outDir, styles));
+  return styles;
+}
+
+/** Static pages such as error.html may use environment tokens and link the assets too. */
+async function prepareStaticPages(outDir: string, tokens: TokenValues, assets: AssetPaths): Promise<void> {
+  for (const file of await listFiles(outDir)) {
+    if (file.endsWith('.html')) {
+      await writeFile(file, rewriteAssetReferences(replaceTokens(await readFile(file, 'utf8'), tokens), assets));
+    }
+  }
+}
+
+async function hashFiles(outDir: string): Promise<Record<string, string>> {
+  const hashes: Record<string, string> = {};
+  for (const file of await listFiles(outDir)) {
+    hashes[path.relative(outDir, file).split(path.sep).join('/')] = contentHash(await readFile(file));
+  }
+  return hashes;
+}
+
+async function checkUnresolvedTokens(outDir: string): Promise<void> {
+  const problems: string[] = [];
+
+  for (const file of await listFiles(outDir)) {
+    if (TEXT_EXTENSIONS.has(path.extname(file))) {
+      for (const token of findUnresolvedTokens(await readFile(file, 'utf8'))) {
+        problems.push(`${path.relative(outDir, file)}: ${token}`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Unresolved template tokens:\n  ${problems.join('\n  ')}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      env: { type: 'string' },
+      out: { type: 'string' },
+      'forms-endpoint': { type: 'string' },
+    },
+  });
+
+  if (!values.env || !isEnvironment(values.env)) {
+    throw new Error(`--env is required (expected ${ENVIRONMENTS.join(' or ')})`);
+  }
+
+  const outDir = values.out ? path.resolve(values.out) : DIST_DIR;
+  const manifest = await loadManifest();
+  const content = await loadContent(manifest.plans);
+  const configured = toSiteEnvironment(values.env, await loadEnvConfig(values.env));
+  const formsEndpoint = values['forms-endpoint'];
+  const site = formsEndpoint ? withFormsEndpoint(configured, formsEndpoint) : configured;
+  const buildInfo = createBuildInfo(manifest.version);
+  const versionString = formatVersionString(buildInfo);
+  const tokens = environmentTokens(site, versionString);
+  const posts = await loadPosts({ drafts: site.drafts });
+  const catalogs = await loadCatalogs();
+
+  section('Preparing Build Directory');
+
+  info(`Environment: ${site.name} (${site.siteUrl})`);
+  info(`Forms API: ${site.formsEndpoint}`);
+  if (formsEndpoint) {
+    warn('Forms API overridden; do not deploy this build');
+  }
+  info(`Version: ${versionString}`);
+
+  await rm(outDir, { recursive: true, force: true });
+  await mkdir(outDir, { recursive: true });
+  await copyStaticAssets(outDir);
+  const styles = await fingerprintStyles(outDir);
+  success(`Static assets copied (${styles})`);
+
+  section('Bundling Scripts');
+
+  const bundle = await bundleScripts();
+  const script = fingerprint(SCRIPT_OUTPUT, bundle.code);
+  await mkdir(path.join(outDir, path.dirname(script)), { recursive: true });
+  await writeFile(path.join(outDir, script), bundle.code);
+  success(`${script} written`);
+
+  const assets: AssetPaths = { styles, script };
+  await prepareStaticPages(outDir, tokens, assets);
+
+  section('Rendering Pages');
+
+  const listings = postListings(posts);
+  const tags = postTags(posts);
+  // listings[0] is the first page of the blog index, blog.html itself
+  const blocks = { ...collectionBlocks(content), BLOG_POSTS: renderPostListing(listings[0], tags) };
+  const sources: PageSources = { blocks, catalog: planCatalog(manifest, content), tokens };
+  const translated = translatedPages(manifest);
+  const translatedLinks = new Set(translated.map((page) => page.link));
+  // English copy of the translated pages, which en.yaml must list
+  const copy = new Set<string>();
+  info(`Content: ${COLLECTION_NAMES.map((name) => `${content[name].length} ${name.replace('_', ' ')}`).join(', ')}`);
+
+  for (const page of manifest.menu_items) {
+    const translations = translatedLinks.has(page.link) ? pageTranslations(page.link) : undefined;
+    const html = renderMenuPage({ manifest, site, page, versionString, assets, translations }, await readPageBody(page.link), sources);
+    if (translations) {
+      extractStrings(html).forEach((text) => copy.add(text));
+    }
+    await writeFile(path.join(outDir, page.link), html);
+    success(`${page.link} rendered`);
+  }
+
+  const rendered = new Set(manifest.menu_items.map((item) => item.link));
+  for (const file of await readdir(PAGES_DIR)) {
+    if (!rendered.has(file)) {
+      warn(`src/pages/${file} is not listed in manifest.yaml menu_items and was skipped`);
+    }
+  }
+
+  section('Rendering Translations');
+
+  const untranslated = Array.from(copy).filter((text) => !catalogs.source.includes(text));
+  if (untranslated.length > 0) {
+    throw new Error(
+      `Page text missing from content/locales/en.yaml; add it there and translate it in every locale:\n  ${untranslated.map((text) => JSON.stringify(text)).join('\n  ')}`,
+    );
+  }
+  const unused = catalogs.source.filter((text) => !copy.has(text));
+  if (unused.length > 0) {
+    warn(`${unused.length} string${unused.length === 1 ? '' : 's'} in content/locales/en.yaml no longer on any page: ${unused.map((text) => JSON.stringify(text)).join(', ')}`);
+  }
+
+  for (const locale of TRANSLATED_LOCALES) {
+    const { messages, strings } = catalogs.translations[locale];
+    await mkdir(path.join(outDir, locale), { recursive: true });
+    for (const page of translated) {
+      const context = { manifest, site, page, versionString, assets, locale, translations: pageTranslations(page.link), messages };
+      const html = translateHtml(renderMenuPage(context, await readPageBody(page.link), sources), strings);
+      await writeFile(path.join(outDir, localePath(locale, page.link)), localizeLinks(html, translatedLinks));
+    }
+    success(`${locale}/ rendered in ${LOCALE_NAMES[locale]} (${translated.length} pages)`);
+  }
+
+  section('Rendering Blog');
+
+  const lastModified = buildDate(buildInfo.buildId);
+  const blogPage = findPage(manifest, BLOG_PAGE);
+  if (!blogPage) {
+    if (posts.length > 0) {
+      throw new Error(`content/blog/ has ${posts.length} posts but manifest.yaml menu_items has no ${BLOG_PAGE}`);
+    }
+    info(`No ${BLOG_PAGE} in manifest.yaml; blog skipped`);
+  } else {
+    const drafts = posts.filter((post) => post.draft).length;
+    info(`Posts: ${posts.length}${site.drafts ? ` (${drafts} draft${drafts === 1 ? '' : 's'})` : ', drafts left out'}`);
+
+    const blogBody = await readPageBody(BLOG_PAGE);
+    for (const listing of listings.slice(1)) {
+      const body = replaceBlockTokens(blogBody, { BLOG_POSTS: renderPostListing(listing, tags) });
+      const page = listingPage(blogPage, listing);
+      const html = renderPage({ manifest, site, page, activeLink: BLOG_PAGE, versionString, assets }, replaceTokens(body, tokens));
+      await writeFile(path.join(outDir, listing.link), html);
+    }
+    success(`${listings.length} listing pages rendered`);
+
+    for (const post of posts) {
+      const page = articlePage(post, manifest);
+      const html = renderPage({ manifest, site, page, activeLink: BLOG_PAGE, versionString, assets }, replaceTokens(renderArticle(post, manifest), tokens));
+      await writeFile(path.join(outDir, post.link), html);
+    }
+    success(`${posts.length} articles rendered`);
+
+    await writeFile(path.join(outDir, RSS_FILE), renderRssFeed(manifest, site, posts, lastModified));
+    await writeFile(path.join(outDir, ATOM_FILE), renderAtomFeed(manifest, site, posts, lastModified));
+    success(`${RSS_FILE} and ${ATOM_FILE} written`);
+  }
+
+  section('Search Engine Files');
+
+  const translations = TRANSLATED_LOCALES.flatMap((locale) => translated.map((page) => ({ link: localePath(locale, page.link), lastModified })));
+  const articles = posts.map((post) => ({ link: post.link, lastModified: post.updated ?? post.date }));
+  const entries = [...translations, ...articles];
+  await writeFile(path.join(outDir, SITEMAP_FILE), renderSitemap(manifest, site, lastModified, entries));
+  success(`${SITEMAP_FILE} lists ${manifest.menu_items.length + entries.length} pages on ${site.hostName}`);
+  await writeFile(path.join(outDir, ROBOTS_FILE), renderRobotsTxt(site));
+  if (site.indexable) {
+    success(`${ROBOTS_FILE} allows crawling`);
+  } else {
+    warn(`${ROBOTS_FILE} and robots meta tags keep ${site.name} out of search engines (noindex)`);
+  }
+
+  section('Release Metadata');
+
+  const release = createReleaseInfo(buildInfo, site.name, await hashFiles(outDir));
+  await writeFile(path.join(outDir, VERSION_FILE), renderVersionJson(release));
+  success(`${VERSION_FILE} records build ${release.buildId} and ${Object.keys(release.files).length} file hashes`);
+
+  section('Checking Output');
+
+  await checkUnresolvedTokens(outDir);
+  success('No unresolved template tokens');
+  success(`Site built into ${path.relative(ROOT_DIR, outDir) || '.'}/`);
+}
+
+main().catch((err) => {
+  fail(err instanceof Error ? err.message : String(err));
+  process.exit(1);
+});
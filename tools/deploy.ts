@@ -0,0 +1,179 @@
+/**
+ * Deploys a build to the environment's S3 bucket. Files are compared with
+ * the manifest of the previous deploy, so only new and changed files are
+ * uploaded (with Cache-Control from config.yaml) and only stale pages are
+ * invalidated in CloudFront. Build first with `npm run build -- --env <env>`.
+ * Each deploy is also kept as a release under its build id (the newest
+ * RELEASES_TO_KEEP), which `rollback` puts live again.
+ *
+ * Usage: npm run deploy -- --env stg|prd [--dir <build dir>] [--dry-run]
+ *        npm run deploy -- --env stg|prd releases
+ *        npm run deploy -- --env stg|prd rollback <build id> [--dry-run]
+ *
+ * `--dry-run` reads the previous manifest and prints the plan without
+ * changing anything.
+ */
+
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { ENVIRONMENTS, EnvConfig, Environment, isEnvironment, loadEnvConfig } from './lib/env-config';
+import { fail, info, section, success, warn } from './lib/log';
+import { DIST_DIR, ROOT_DIR } from './lib/paths';
+import { VERSION_FILE } from './site/release';
+import { createAwsTarget } from './deploy/aws';
+import { DeployPlan, planDeploy, readSite } from './deploy/plan';
+import {
+  checkReleaseId,
+  DEFAULT_RELEASES_TO_KEEP,
+  fromRelease,
+  markLive,
+  planRollback,
+  readBuildRelease,
+  readReleaseIndex,
+  recordRelease,
+} from './deploy/releases';
+import { DeployResult, DeployTarget, executeDeploy, fromDirectory, readDeployManifest } from './deploy/target';
+
+function printPlan(plan: DeployPlan): void {
+  for (const key of plan.upload) {
+    info(`upload  ${key}  (${plan.manifest.files[key].cacheControl})`);
+  }
+  for (const key of plan.remove) {
+    info(`remove  ${key}`);
+  }
+  for (const key of plan.retain) {
+    info(`keep    ${key}  (linked from cached pages, removed next deploy)`);
+  }
+  info(
+    `${plan.upload.length} to upload, ${plan.unchanged.length} unchanged, ${plan.remove.length} to remove, ${plan.retain.length} kept`,
+  );
+  if (plan.invalidate.length > 0) {
+    info(`Invalidate: ${plan.invalidate.join(' ')}`);
+  } else {
+    info('Nothing to invalidate');
+  }
+}
+
+function printResult(result: DeployResult): void {
+  success(`${result.uploaded} uploaded, ${result.removed} removed`);
+  if (result.invalidationId) {
+    success(`Invalidation ${result.invalidationId} created (typically 10-15 minutes)`);
+  }
+}
+
+async function deploy(env: Environment, siteDir: string, config: EnvConfig, target: DeployTarget, dryRun: boolean): Promise<void> {
+  if (!existsSync(siteDir)) {
+    throw new Error(`${path.relative(ROOT_DIR, siteDir)}/ does not exist; run npm run build -- --env ${env} first`);
+  }
+  const release = await readBuildRelease(siteDir);
+  if (release.env !== env) {
+    throw new Error(`The build is for ${release.env}; run npm run build -- --env ${env} first`);
+  }
+
+  section('Planning Deploy');
+
+  info(`Bucket: s3://${config.S3_BUCKET}`);
+  info(`CloudFront: ${config.CLOUDFRONT_ID}`);
+  info(`Release: v${release.version}, build ${release.buildId}`);
+  const previous = await readDeployManifest(target.storage);
+  if (previous) {
+    info(`Previous deploy: build ${previous.buildId ?? 'unknown'} at ${previous.deployedAt}`);
+  } else {
+    warn('No previous deploy manifest; every file is uploaded');
+  }
+
+  const plan = planDeploy(release, await readSite(siteDir, config), previous);
+  printPlan(plan);
+  // Before anything goes live, so a clashing build id leaves the site as it was
+  await checkReleaseId(plan.manifest, target.storage);
+
+  if (dryRun) {
+    success('Dry run: nothing was uploaded, removed or invalidated');
+    return;
+  }
+
+  section('Deploying');
+
+  printResult(await executeDeploy(plan, fromDirectory(siteDir), target, info));
+
+  section('Keeping Release');
+
+  const keep = config.RELEASES_TO_KEEP ?? DEFAULT_RELEASES_TO_KEEP;
+  const pruned = await recordRelease(plan.manifest, target.storage, keep, info);
+  success(`Build ${release.buildId} is live; keeping the newest ${keep} releases${pruned.length > 0 ? `, removed ${pruned.join(', ')}` : ''}`);
+  info(`Confirm with ${VERSION_FILE}: EXPECTED_BUILD_ID=${release.buildId} ./scripts/07_html_playwright_tests.sh ${env} smoke`);
+}
+
+async function listReleases(target: DeployTarget): Promise<void> {
+  section('Kept Releases');
+
+  const index = await readReleaseIndex(target.storage);
+  if (index.releases.length === 0) {
+    warn('No releases kept yet; they are recorded from the next deploy');
+    return;
+  }
+  for (const release of index.releases) {
+    const marker = release.buildId === index.live ? '  (live)' : '';
+    info(`${release.buildId}  v${release.version}  ${release.commit || '-'}  deployed ${release.deployedAt}${marker}`);
+  }
+}
+
+async function rollback(buildId: string, target: DeployTarget, dryRun: boolean): Promise<void> {
+  section(`Planning Rollback to ${buildId}`);
+
+  const plan = await planRollback(buildId, target.storage);
+  printPlan(plan);
+
+  if (dryRun) {
+    success('Dry run: nothing was copied, removed or invalidated');
+    return;
+  }
+
+  section('Rolling Back');
+
+  printResult(await executeDeploy(plan, fromRelease(buildId), target, info));
+  await markLive(target.storage, buildId);
+  success(`Build ${buildId} (v${plan.manifest.version}) is live again`);
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    options: {
+      env: { type: 'string' },
+      dir: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+    allowPositionals: true,
+  });
+
+  if (!values.env || !isEnvironment(values.env)) {
+    throw new Error(`--env is required (expected ${ENVIRONMENTS.join(' or ')})`);
+  }
+
+  const config = await loadEnvConfig(values.env);
+  const target = createAwsTarget(config);
+  const [command, buildId] = positionals;
+
+  switch (command) {
+    case undefined:
+      await deploy(values.env, values.dir ? path.resolve(values.dir) : DIST_DIR, config, target, values['dry-run']);
+      break;
+    case 'releases':
+      await listReleases(target);
+      break;
+    case 'rollback':
+      if (!buildId) {
+        throw new Error('rollback needs a build id (see npm run deploy -- --env <env> releases)');
+      }
+      await rollback(buildId, target, values['dry-run']);
+      break;
+    default:
+      throw new Error(`Unknown command "${command}" (expected releases or rollback <build id>)`);
+  }
+}
+
+main().catch((err) => {
+  fail(err instanceof Error ? err.message : String(err));
+  process.exit(1);
+});
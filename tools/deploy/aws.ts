@@ -0,0 +1,109 @@
+import { execFile } from 'node:child_process';
+import type { EnvConfig } from '../lib/env-config';
+import type { CdnCache, DeployTarget, ObjectMetadata, SiteStorage } from './target';
+
+/**
+ * S3 and CloudFront through the AWS CLI with the environment's profile, as
+ * the scripts in scripts/ use it.
+ */
+
+class AwsCliError extends Error {
+  constructor(
+    readonly args: string[],
+    readonly stderr: string,
+  ) {
+    super(`aws ${args.slice(0, 2).join(' ')} failed: ${stderr.trim()}`);
+    this.name = 'AwsCliError';
+  }
+}
+
+function aws(args: string[], input?: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = execFile('aws', args, { encoding: 'buffer', maxBuffer: 64 * 1024 * 1024 }, (err, stdout, stderr) => {
+      if (err) {
+        reject(new AwsCliError(args, stderr.toString('utf8') || err.message));
+      } else {
+        resolve(stdout);
+      }
+    });
+    child.stdin?.end(input);
+  });
+}
+
+export class S3Storage implements SiteStorage {
+  constructor(private readonly config: EnvConfig) {}
+
+  private url(key: string): string {
+    return `s3://${this.config.S3_BUCKET}/${key}`;
+  }
+
+  private get options(): string[] {
+    return ['--profile', this.config.AWS_PROFILE, '--region', this.config.AWS_REGION, '--only-show-errors'];
+  }
+
+  async read(key: string): Promise<Buffer | undefined> {
+    try {
+      return await aws(['s3', 'cp', this.url(key), '-', ...this.options]);
+    } catch (err) {
+      if (err instanceof AwsCliError && /\(404\)|Not Found|NoSuchKey/.test(err.stderr)) {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  async write(key: string, body: Buffer, metadata: ObjectMetadata): Promise<void> {
+    await aws(
+      ['s3', 'cp', '-', this.url(key), '--content-type', metadata.contentType, '--cache-control', metadata.cacheControl, ...this.options],
+      body,
+    );
+  }
+
+  async copy(from: string, to: string, metadata: ObjectMetadata): Promise<void> {
+    await aws([
+      's3',
+      'cp',
+      this.url(from),
+      this.url(to),
+      '--metadata-directive',
+      'REPLACE',
+      '--content-type',
+      metadata.contentType,
+      '--cache-control',
+      metadata.cacheControl,
+      ...this.options,
+    ]);
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      await aws(['s3', 'rm', this.url(key), ...this.options]);
+    }
+  }
+}
+
+export class CloudFrontCache implements CdnCache {
+  constructor(private readonly config: EnvConfig) {}
+
+  async invalidate(paths: string[]): Promise<string> {
+    const id = await aws([
+      'cloudfront',
+      'create-invalidation',
+      '--distribution-id',
+      this.config.CLOUDFRONT_ID,
+      '--paths',
+      ...paths,
+      '--profile',
+      this.config.AWS_PROFILE,
+      '--query',
+      'Invalidation.Id',
+      '--output',
+      'text',
+    ]);
+    return id.toString('utf8').trim();
+  }
+}
+
+export function createAwsTarget(config: EnvConfig): DeployTarget {
+  return { storage: new S3Storage(config), cdn: new CloudFrontCache(config) };
+}
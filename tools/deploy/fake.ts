@@ -0,0 +1,51 @@
+import type { CdnCache, DeployTarget, ObjectMetadata, SiteStorage } from './target';
+
+/**
+ * In-memory bucket and CDN for exercising deploys without AWS.
+ */
+
+export interface StoredObject extends ObjectMetadata {
+  body: Buffer;
+}
+
+export class MemoryBucket implements SiteStorage {
+  readonly objects = new Map<string, StoredObject>();
+  /** Keys in the order they were written, across deploys. */
+  readonly writes: string[] = [];
+
+  async read(key: string): Promise<Buffer | undefined> {
+    return this.objects.get(key)?.body;
+  }
+
+  async write(key: string, body: Buffer, metadata: ObjectMetadata): Promise<void> {
+    this.objects.set(key, { body, ...metadata });
+    this.writes.push(key);
+  }
+
+  async copy(from: string, to: string, metadata: ObjectMetadata): Promise<void> {
+    const source = this.objects.get(from);
+    if (!source) {
+      throw new Error(`No such key: ${from}`);
+    }
+    await this.write(to, source.body, metadata);
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.objects.delete(key);
+    }
+  }
+}
+
+export class FakeCdn implements CdnCache {
+  readonly invalidations: string[][] = [];
+
+  async invalidate(paths: string[]): Promise<string> {
+    this.invalidations.push(paths);
+    return `FAKE${this.invalidations.length}`;
+  }
+}
+
+export function createFakeTarget(): DeployTarget & { storage: MemoryBucket; cdn: FakeCdn } {
+  return { storage: new MemoryBucket(), cdn: new FakeCdn() };
+}
@@ -0,0 +1,182 @@
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { EnvConfig } from '../lib/env-config';
+import { contentHash, isFingerprinted } from '../lib/fingerprint';
+import { ReleaseInfo, VERSION_FILE } from '../site/release';
+
+/**
+ * What a deploy changes: the built files are hashed and compared with the
+ * manifest the previous deploy stored in the bucket, so only changed files
+ * are uploaded and only changed pages are invalidated.
+ */
+
+/** Deploy records: the manifests and the release index. */
+export const DEPLOY_RECORDS_PREFIX = '_deploy/';
+
+/** Copies of the kept releases, see tools/deploy/releases.ts. */
+export const RELEASES_PREFIX = 'releases/';
+
+/**
+ * Bucket prefixes CloudFront never serves: the bucket policies in
+ * terraform/s3.tf deny its reads there, so old builds and deploy metadata
+ * have no public URL. A build may not put files under them.
+ */
+export const PRIVATE_PREFIXES = [DEPLOY_RECORDS_PREFIX, RELEASES_PREFIX];
+
+/** Where the manifest of the live deploy is kept in the bucket. */
+export const DEPLOY_MANIFEST_KEY = `${DEPLOY_RECORDS_PREFIX}manifest.json`;
+
+export interface DeployedFile {
+  hash: string;
+  size: number;
+  contentType: string;
+  cacheControl: string;
+}
+
+/** The build a deploy puts live, as recorded in its version.json. */
+export type ReleaseRef = Pick<ReleaseInfo, 'env' | 'version' | 'buildId' | 'commit'>;
+
+export interface DeployManifest extends ReleaseRef {
+  deployedAt: string;
+  /** Bucket key to file, for everything the deploy uploaded or kept. */
+  files: Record<string, DeployedFile>;
+  /**
+   * Fingerprinted files the previous deploy linked to. Pages still cached by
+   * browsers and CloudFront may request them, so they are removed one
+   * deploy later.
+   */
+  retained: string[];
+}
+
+export interface DeployPlan {
+  /** New and changed files, assets before pages so pages never link to a missing file. */
+  upload: string[];
+  unchanged: string[];
+  remove: string[];
+  retain: string[];
+  /** CloudFront paths, e.g. `/about_us.html`. */
+  invalidate: string[];
+  manifest: DeployManifest;
+}
+
+/** Served with the short HTML cache so content updates show up quickly. */
+const PAGE_EXTENSIONS = new Set(['.html', '.xml', '.txt', '.json']);
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.xml': 'application/xml; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+};
+
+export function contentTypeFor(key: string): string {
+  return CONTENT_TYPES[path.posix.extname(key).toLowerCase()] ?? 'application/octet-stream';
+}
+
+function isPage(key: string): boolean {
+  return PAGE_EXTENSIONS.has(path.posix.extname(key).toLowerCase());
+}
+
+/**
+ * Cache-Control by file type, from the environment's CACHE_HTML_SECONDS and
+ * CACHE_ASSETS_SECONDS. Fingerprinted files never change, so they are
+ * immutable. version.json is always revalidated, so smoke tests see a new
+ * deploy straight away.
+ */
+export function cacheControlFor(key: string, config: EnvConfig): string {
+  if (key === VERSION_FILE) {
+    return 'no-cache';
+  }
+  if (isPage(key)) {
+    return `public, max-age=${config.CACHE_HTML_SECONDS}, must-revalidate`;
+  }
+  if (isFingerprinted(key)) {
+    return `public, max-age=${config.CACHE_ASSETS_SECONDS}, immutable`;
+  }
+  return `public, max-age=${config.CACHE_ASSETS_SECONDS}`;
+}
+
+/** Hashes every file of a build directory, keyed by its bucket key. */
+export async function readSite(dir: string, config: EnvConfig): Promise<Record<string, DeployedFile>> {
+  const entries = await readdir(dir, { withFileTypes: true, recursive: true });
+  const files: Record<string, DeployedFile> = {};
+
+  for (const entry of entries.filter((item) => item.isFile())) {
+    const file = path.join(entry.parentPath, entry.name);
+    const key = path.relative(dir, file).split(path.sep).join('/');
+    const content = await readFile(file);
+    files[key] = {
+      hash: contentHash(content),
+      size: content.length,
+      contentType: contentTypeFor(key),
+      cacheControl: cacheControlFor(key, config),
+    };
+  }
+
+  return Object.fromEntries(Object.entries(files).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export function isPrivateKey(key: string): boolean {
+  return PRIVATE_PREFIXES.some((prefix) => key.startsWith(prefix));
+}
+
+/** CloudFront path for a bucket key; the home page is also served as `/`. */
+function invalidationPaths(key: string): string[] {
+  return key === 'index.html' ? ['/', '/index.html'] : [`/${key}`];
+}
+
+export function planDeploy(
+  release: ReleaseRef,
+  files: Record<string, DeployedFile>,
+  previous: DeployManifest | undefined,
+  now: Date = new Date(),
+): DeployPlan {
+  const hidden = Object.keys(files).filter(isPrivateKey);
+  if (hidden.length > 0) {
+    throw new Error(`${hidden.join(', ')} would not be served: ${PRIVATE_PREFIXES.join(' and ')} are kept private in the bucket`);
+  }
+
+  const before = previous?.files ?? {};
+  const changed = (key: string) =>
+    before[key] === undefined || before[key].hash !== files[key].hash || before[key].cacheControl !== files[key].cacheControl;
+
+  const keys = Object.keys(files);
+  const upload = keys.filter(changed).sort((a, b) => Number(isPage(a)) - Number(isPage(b)) || a.localeCompare(b));
+  const unchanged = keys.filter((key) => !changed(key));
+
+  const gone = Object.keys(before).filter((key) => files[key] === undefined);
+  const retain = gone.filter(isFingerprinted).sort();
+  const expired = (previous?.retained ?? []).filter((key) => files[key] === undefined);
+  const remove = [...gone.filter((key) => !isFingerprinted(key)), ...expired];
+
+  // Fingerprinted files never change in place. Pages and other assets that
+  // changed (images keep their names) may be cached at the edge.
+  const stale = [...upload.filter((key) => before[key] !== undefined), ...gone].filter((key) => !isFingerprinted(key));
+  const invalidate = stale.filter((key) => !isPage(key) || key.endsWith('.html')).flatMap(invalidationPaths);
+
+  return {
+    upload,
+    unchanged,
+    remove: Array.from(new Set(remove)).sort(),
+    retain,
+    invalidate: Array.from(new Set(invalidate)).sort(),
+    manifest: {
+      env: release.env,
+      version: release.version,
+      buildId: release.buildId,
+      commit: release.commit,
+      deployedAt: now.toISOString(),
+      files,
+      retained: retain,
+    },
+  };
+}
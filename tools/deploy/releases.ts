@@ -0,0 +1,130 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { ReleaseInfo, VERSION_FILE } from '../site/release';
+import { DEPLOY_RECORDS_PREFIX, DeployManifest, DeployPlan, planDeploy, RELEASES_PREFIX } from './plan';
+import { FileSource, readDeployManifest, readDeployRecord, SiteStorage, writeDeployRecord } from './target';
+
+/**
+ * Releases kept for rollback. After each deploy the live files are copied
+ * under `releases/<build id>/` and the deploy manifest is filed by build id;
+ * only the newest RELEASES_TO_KEEP (config.yaml) are kept. A rollback puts a
+ * kept release live again by copying its files back within the bucket.
+ * Both prefixes are private, so CloudFront does not serve them.
+ */
+
+/** Kept releases and which one is live. */
+export const RELEASES_INDEX_KEY = `${DEPLOY_RECORDS_PREFIX}releases.json`;
+
+export const DEFAULT_RELEASES_TO_KEEP = 5;
+
+export interface ReleaseEntry {
+  buildId: string;
+  version: string;
+  commit: string;
+  deployedAt: string;
+}
+
+export interface ReleaseIndex {
+  /** Build id of the live release. */
+  live: string;
+  /** Newest deploy first. */
+  releases: ReleaseEntry[];
+}
+
+export function releaseKey(buildId: string, key: string): string {
+  return `${RELEASES_PREFIX}${buildId}/${key}`;
+}
+
+function releaseManifestKey(buildId: string): string {
+  return `${DEPLOY_RECORDS_PREFIX}releases/${buildId}.json`;
+}
+
+/** The version.json of a build directory. */
+export async function readBuildRelease(siteDir: string): Promise<ReleaseInfo> {
+  try {
+    return JSON.parse(await readFile(path.join(siteDir, VERSION_FILE), 'utf8')) as ReleaseInfo;
+  } catch (err) {
+    throw new Error(`Cannot read ${VERSION_FILE} from the build: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+export async function readReleaseIndex(storage: SiteStorage): Promise<ReleaseIndex> {
+  return (await readDeployRecord<ReleaseIndex>(storage, RELEASES_INDEX_KEY)) ?? { live: '', releases: [] };
+}
+
+/**
+ * Throws when `buildId` is already kept for other files, e.g. a rebuild of
+ * the same commit from a dirty tree or with another forms endpoint: filing
+ * it would replace what a rollback to that id restores. Deploying the same
+ * build again is fine; version.json hashes every other file, so comparing
+ * its hash compares the builds.
+ */
+export async function checkReleaseId(manifest: DeployManifest, storage: SiteStorage): Promise<void> {
+  const { buildId } = manifest;
+  const stored = await readDeployRecord<DeployManifest>(storage, releaseManifestKey(buildId));
+  if (stored && stored.files[VERSION_FILE]?.hash !== manifest.files[VERSION_FILE]?.hash) {
+    throw new Error(`Release ${buildId} is already kept with different files; rebuild with BUILD_ID set to a new build id`);
+  }
+}
+
+/**
+ * Files the live deploy as a release, marks it live and removes the oldest
+ * releases beyond `keep`. Returns the build ids that were removed. Refuses
+ * to overwrite a different release with the same build id (checkReleaseId).
+ */
+export async function recordRelease(
+  manifest: DeployManifest,
+  storage: SiteStorage,
+  keep: number,
+  log: (message: string) => void = () => {},
+): Promise<string[]> {
+  await checkReleaseId(manifest, storage);
+  const { buildId } = manifest;
+  for (const [key, file] of Object.entries(manifest.files)) {
+    await storage.copy(key, releaseKey(buildId, key), { contentType: file.contentType, cacheControl: file.cacheControl });
+  }
+  await writeDeployRecord(storage, releaseManifestKey(buildId), manifest);
+  log(`Release ${buildId} stored under ${releaseKey(buildId, '')}`);
+
+  const index = await readReleaseIndex(storage);
+  const entry: ReleaseEntry = { buildId, version: manifest.version, commit: manifest.commit, deployedAt: manifest.deployedAt };
+  const releases = [entry, ...index.releases.filter((release) => release.buildId !== buildId)];
+  const pruned = releases.slice(Math.max(keep, 1)).map((release) => release.buildId);
+
+  for (const id of pruned) {
+    const stored = await readDeployRecord<DeployManifest>(storage, releaseManifestKey(id));
+    await storage.remove([...Object.keys(stored?.files ?? {}).map((key) => releaseKey(id, key)), releaseManifestKey(id)]);
+    log(`Release ${id} removed`);
+  }
+
+  await writeDeployRecord(storage, RELEASES_INDEX_KEY, {
+    live: buildId,
+    releases: releases.filter((release) => !pruned.includes(release.buildId)),
+  } satisfies ReleaseIndex);
+  return pruned;
+}
+
+/** Plans putting a kept release live again, compared with the live deploy. */
+export async function planRollback(buildId: string, storage: SiteStorage, now: Date = new Date()): Promise<DeployPlan> {
+  const index = await readReleaseIndex(storage);
+  const stored = index.releases.some((release) => release.buildId === buildId)
+    ? await readDeployRecord<DeployManifest>(storage, releaseManifestKey(buildId))
+    : undefined;
+  if (!stored) {
+    const kept = index.releases.map((release) => release.buildId).join(', ') || 'none';
+    throw new Error(`Release ${buildId} is not kept (kept releases: ${kept})`);
+  }
+
+  return planDeploy(stored, stored.files, await readDeployManifest(storage), now);
+}
+
+/** Copies a stored release's files back to their live keys. */
+export function fromRelease(buildId: string): FileSource {
+  return (key, metadata, storage) => storage.copy(releaseKey(buildId, key), key, metadata);
+}
+
+/** Marks a release live after a rollback, keeping the deploy order of the index. */
+export async function markLive(storage: SiteStorage, buildId: string): Promise<void> {
+  const index = await readReleaseIndex(storage);
+  await writeDeployRecord(storage, RELEASES_INDEX_KEY, { ...index, live: buildId } satisfies ReleaseIndex);
+}
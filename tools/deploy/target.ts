@@ -0,0 +1,98 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { DEPLOY_MANIFEST_KEY, DeployManifest, DeployPlan } from './plan';
+
+/**
+ * Where a deploy goes. tools/deploy/aws.ts talks to S3 and CloudFront;
+ * tools/deploy/fake.ts keeps everything in memory for tests.
+ */
+
+export interface ObjectMetadata {
+  contentType: string;
+  cacheControl: string;
+}
+
+export interface SiteStorage {
+  /** Object body, or undefined when the key does not exist. */
+  read(key: string): Promise<Buffer | undefined>;
+  write(key: string, body: Buffer, metadata: ObjectMetadata): Promise<void>;
+  /** Copies an object within the storage, replacing its metadata. */
+  copy(from: string, to: string, metadata: ObjectMetadata): Promise<void>;
+  remove(keys: string[]): Promise<void>;
+}
+
+export interface CdnCache {
+  /** Starts an invalidation and returns its id. */
+  invalidate(paths: string[]): Promise<string>;
+}
+
+export interface DeployTarget {
+  storage: SiteStorage;
+  cdn: CdnCache;
+}
+
+/**
+ * Puts one file of a plan in place: from the build directory on a deploy,
+ * or from a stored release on a rollback (tools/deploy/releases.ts).
+ */
+export type FileSource = (key: string, metadata: ObjectMetadata, storage: SiteStorage) => Promise<void>;
+
+export function fromDirectory(siteDir: string): FileSource {
+  return async (key, metadata, storage) => storage.write(key, await readFile(path.join(siteDir, key)), metadata);
+}
+
+/** Writes bookkeeping JSON under `_deploy/`, never cached. */
+export async function writeDeployRecord(storage: SiteStorage, key: string, data: unknown): Promise<void> {
+  await storage.write(key, Buffer.from(`${JSON.stringify(data, null, 2)}\n`), {
+    contentType: 'application/json; charset=utf-8',
+    cacheControl: 'no-store',
+  });
+}
+
+export async function readDeployRecord<T>(storage: SiteStorage, key: string): Promise<T | undefined> {
+  const body = await storage.read(key);
+  return body ? (JSON.parse(body.toString('utf8')) as T) : undefined;
+}
+
+export async function readDeployManifest(storage: SiteStorage): Promise<DeployManifest | undefined> {
+  return readDeployRecord<DeployManifest>(storage, DEPLOY_MANIFEST_KEY);
+}
+
+export interface DeployResult {
+  uploaded: number;
+  removed: number;
+  /** Invalidation id, when any path needed invalidating. */
+  invalidationId?: string;
+}
+
+/**
+ * Uploads the plan's files from the source, removes what is no longer
+ * deployed, records the new manifest and invalidates stale paths.
+ */
+export async function executeDeploy(
+  plan: DeployPlan,
+  source: FileSource,
+  target: DeployTarget,
+  log: (message: string) => void = () => {},
+): Promise<DeployResult> {
+  for (const key of plan.upload) {
+    const { contentType, cacheControl } = plan.manifest.files[key];
+    await source(key, { contentType, cacheControl }, target.storage);
+    log(`Uploaded ${key} (${cacheControl})`);
+  }
+
+  if (plan.remove.length > 0) {
+    await target.storage.remove(plan.remove);
+    log(`Removed ${plan.remove.join(', ')}`);
+  }
+
+  // Written last, so a failed deploy is retried against the previous manifest
+  await writeDeployRecord(target.storage, DEPLOY_MANIFEST_KEY, plan.manifest);
+
+  const result: DeployResult = { uploaded: plan.upload.length, removed: plan.remove.length };
+  if (plan.invalidate.length > 0) {
+    result.invalidationId = await target.cdn.invalidate(plan.invalidate);
+    log(`Invalidation ${result.invalidationId} created for ${plan.invalidate.join(' ')}`);
+  }
+  return result;
+}
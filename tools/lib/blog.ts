@@ -0,0 +1,285 @@
+import { existsSync } from 'node:fs';
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { marked, Token } from 'marked';
+import { parse } from 'yaml';
+import { CONTENT_DIR } from './content';
+import { ROOT_DIR, SRC_DIR } from './paths';
+import { ConfigValidationError, IssueCollector, keyPath, ValidationIssue } from './validation';
+
+/**
+ * Blog articles and changelog entries: Markdown files in content/blog/ with
+ * YAML front matter, one article per file named after its slug. The build
+ * renders them with the shared layout as flat pages next to the others
+ * (tools/site/blog.ts), so relative links keep working.
+ */
+
+export const BLOG_DIR = path.join(CONTENT_DIR, 'blog');
+
+/** The manifest menu page that lists the newest articles. */
+export const BLOG_PAGE = 'blog.html';
+
+export const POSTS_PER_PAGE = 6;
+
+/** Reading speed behind a post's reading time. */
+export const WORDS_PER_MINUTE = 200;
+
+export interface PostFrontMatter {
+  title: string;
+  /** Publication date, `YYYY-MM-DD`. */
+  date: string;
+  /** Date of the last significant change, `YYYY-MM-DD`. */
+  updated?: string;
+  /** Meta description and the summary in listings and feeds. */
+  description: string;
+  /** Lowercase slugs such as `changelog` or `gadget-care`. */
+  tags?: string[];
+  /** Defaults to the site title. */
+  author?: string;
+  /** Built for staging only. */
+  draft?: boolean;
+}
+
+export interface Post {
+  slug: string;
+  /** Page of the article, e.g. `blog-warranty-basics.html`. */
+  link: string;
+  title: string;
+  date: string;
+  updated?: string;
+  description: string;
+  tags: string[];
+  author?: string;
+  draft: boolean;
+  /** The Markdown body as HTML. */
+  html: string;
+  readingMinutes: number;
+}
+
+/** One page of a listing: the blog index or the articles with a tag. */
+export interface PostListing {
+  link: string;
+  /** Set on tag listings. */
+  tag?: string;
+  page: number;
+  pageCount: number;
+  posts: Post[];
+  /** Links of the neighbouring pages, newer first. */
+  newer?: string;
+  older?: string;
+}
+
+const SLUG = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+// Listing pages share the blog- prefix with articles
+const RESERVED_SLUG = /^(?:page|tag)-/;
+const DATE = /^\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[12]\d|3[01])$/;
+const IMAGE = /^images\/[\w/-]+\.(?:svg|png|jpe?g|webp)$/;
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+const FRONT_MATTER_KEYS = ['title', 'date', 'updated', 'description', 'tags', 'author', 'draft'] as const;
+
+export function postLink(slug: string): string {
+  return `blog-${slug}.html`;
+}
+
+export function indexLink(page: number = 1): string {
+  return page === 1 ? BLOG_PAGE : `blog-page-${page}.html`;
+}
+
+export function tagLink(tag: string, page: number = 1): string {
+  return page === 1 ? `blog-tag-${tag}.html` : `blog-tag-${tag}-page-${page}.html`;
+}
+
+/** Front matter and Markdown body, or undefined without a `---` block. */
+export function splitFrontMatter(source: string): { frontMatter: string; body: string } | undefined {
+  const match = FRONT_MATTER.exec(source);
+  return match ? { frontMatter: match[1], body: source.slice(match[0].length) } : undefined;
+}
+
+export function readingMinutes(markdown: string): number {
+  const words = markdown.split(/\s+/).filter((word) => /\w/.test(word)).length;
+  return Math.max(1, Math.ceil(words / WORDS_PER_MINUTE));
+}
+
+export interface PostValidationOptions {
+  /** Name reported in issues. */
+  file?: string;
+  /** Directory that images are relative to. */
+  srcDir?: string;
+}
+
+/** Headings and images of the body: the title is the page's only h1, and images must exist. */
+function checkMarkdown(check: IssueCollector, body: string, srcDir: string): void {
+  marked.walkTokens(marked.lexer(body), (token: Token) => {
+    if (token.type === 'heading' && token.depth === 1) {
+      check.add('body', `"# ${token.text}" must be ## or lower; the title is the page heading`);
+    }
+    if (token.type === 'image') {
+      if (!IMAGE.test(token.href)) {
+        check.add('body', `image ${token.href} must be under images/, such as images/blog/cover.png`);
+      } else if (!existsSync(path.join(srcDir, token.href))) {
+        check.add('body', `image ${path.relative(ROOT_DIR, path.join(srcDir, token.href))} does not exist`);
+      }
+    }
+  });
+}
+
+function checkDate(check: IssueCollector, frontMatter: Record<string, unknown>, key: string, required: boolean): void {
+  const rule = { check: (value: string) => (DATE.test(value) ? null : 'must be a date such as 2025-06-30') };
+  if (required) {
+    check.string(frontMatter, key, '', rule);
+  } else {
+    check.optionalString(frontMatter, key, '', rule);
+  }
+}
+
+export function validatePost(slug: string, source: string, options: PostValidationOptions = {}): ValidationIssue[] {
+  const check = new IssueCollector(options.file ?? `content/blog/${slug}.md`);
+
+  if (!SLUG.test(slug) || RESERVED_SLUG.test(slug)) {
+    check.add('', 'file name must be a lowercase slug such as warranty-basics.md, not starting with page- or tag-');
+  }
+
+  const parts = splitFrontMatter(source);
+  if (!parts) {
+    check.add('', 'must start with front matter between --- lines');
+    return check.issues;
+  }
+
+  let data: unknown;
+  try {
+    data = parse(parts.frontMatter);
+  } catch (err) {
+    check.add('', `front matter is not valid YAML: ${err instanceof Error ? err.message : String(err)}`);
+    return check.issues;
+  }
+
+  const frontMatter = check.object(data, '');
+  if (frontMatter) {
+    check.knownKeys(frontMatter, FRONT_MATTER_KEYS, '');
+    check.string(frontMatter, 'title', '');
+    check.string(frontMatter, 'description', '');
+    check.optionalString(frontMatter, 'author', '');
+    checkDate(check, frontMatter, 'date', true);
+    checkDate(check, frontMatter, 'updated', false);
+    if (typeof frontMatter.date === 'string' && typeof frontMatter.updated === 'string' && frontMatter.updated < frontMatter.date) {
+      check.add('updated', 'must not be before date');
+    }
+    if (frontMatter.draft !== undefined && typeof frontMatter.draft !== 'boolean') {
+      check.add('draft', 'must be true or false');
+    }
+    if (frontMatter.tags !== undefined) {
+      check.array(frontMatter.tags, 'tags')?.forEach((tag, index) => {
+        if (typeof tag !== 'string' || !SLUG.test(tag)) {
+          check.add(keyPath('tags', index), 'must be a lowercase slug such as gadget-care');
+        }
+      });
+    }
+  }
+
+  checkMarkdown(check, parts.body, options.srcDir ?? SRC_DIR);
+  return check.issues;
+}
+
+function toPost(slug: string, source: string): Post {
+  const { frontMatter, body } = splitFrontMatter(source)!;
+  const data = parse(frontMatter) as PostFrontMatter;
+  return {
+    slug,
+    link: postLink(slug),
+    title: data.title,
+    date: data.date,
+    updated: data.updated,
+    description: data.description,
+    tags: data.tags ?? [],
+    author: data.author,
+    draft: data.draft ?? false,
+    html: marked.parse(body, { async: false }),
+    readingMinutes: readingMinutes(body),
+  };
+}
+
+/** Newest first; posts of the same day by slug. */
+export function sortPosts(posts: Post[]): Post[] {
+  return [...posts].sort((a, b) => b.date.localeCompare(a.date) || a.slug.localeCompare(b.slug));
+}
+
+/** Paths of the Markdown articles in `dir`, by file name. */
+export async function listPostFiles(dir: string = BLOG_DIR): Promise<string[]> {
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return (await readdir(dir))
+    .filter((file) => file.endsWith('.md'))
+    .sort()
+    .map((file) => path.join(dir, file));
+}
+
+export function postSlug(file: string): string {
+  return path.basename(file, '.md');
+}
+
+/**
+ * Reads and validates every article in content/blog/, throwing
+ * ConfigValidationError on any issue. Drafts are left out unless
+ * `drafts` is set.
+ */
+export async function loadPosts(options: { drafts: boolean; dir?: string }): Promise<Post[]> {
+  const posts: Post[] = [];
+  const issues: ValidationIssue[] = [];
+
+  for (const file of await listPostFiles(options.dir)) {
+    const source = await readFile(file, 'utf8');
+    const postIssues = validatePost(postSlug(file), source, { file: path.relative(ROOT_DIR, file) });
+    issues.push(...postIssues);
+    if (postIssues.length === 0) {
+      posts.push(toPost(postSlug(file), source));
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return sortPosts(posts.filter((post) => options.drafts || !post.draft));
+}
+
+function paginate(posts: Post[], pageSize: number, link: (page: number) => string, tag?: string): PostListing[] {
+  const pageCount = Math.max(1, Math.ceil(posts.length / pageSize));
+  return Array.from({ length: pageCount }, (_, index) => {
+    const page = index + 1;
+    return {
+      link: link(page),
+      ...(tag ? { tag } : {}),
+      page,
+      pageCount,
+      posts: posts.slice(index * pageSize, page * pageSize),
+      ...(page > 1 ? { newer: link(page - 1) } : {}),
+      ...(page < pageCount ? { older: link(page + 1) } : {}),
+    };
+  });
+}
+
+/** Every tag in use, in alphabetical order. */
+export function postTags(posts: Post[]): string[] {
+  return Array.from(new Set(posts.flatMap((post) => post.tags))).sort();
+}
+
+/** Every listing page: the blog index, then each tag's pages. */
+export function postListings(posts: Post[], pageSize: number = POSTS_PER_PAGE): PostListing[] {
+  return [
+    ...paginate(posts, pageSize, indexLink),
+    ...postTags(posts).flatMap((tag) =>
+      paginate(
+        posts.filter((post) => post.tags.includes(tag)),
+        pageSize,
+        (page) => tagLink(tag, page),
+        tag,
+      ),
+    ),
+  ];
+}
+
+/** Every page the blog adds to the site, including BLOG_PAGE. */
+export function blogPageLinks(posts: Post[]): string[] {
+  return [...postListings(posts).map((listing) => listing.link), ...posts.map((post) => post.link)];
+}
@@ -0,0 +1,60 @@
+import { execFileSync } from 'node:child_process';
+
+export interface BuildInfo {
+  version: string;
+  /** UTC timestamp in the `YYYYMMDDHHMMSS` form. */
+  buildId: string;
+  commit: string;
+}
+
+export function formatBuildId(date: Date): string {
+  return date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+function git(args: string[]): string {
+  try {
+    return execFileSync('git', args, { encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+  } catch {
+    return '';
+  }
+}
+
+export function currentCommit(): string {
+  return git(['rev-parse', '--short', 'HEAD']);
+}
+
+/**
+ * Time the build is stamped with. Builds of the same commit must be
+ * byte-identical, so this is `BUILD_ID`, then `SOURCE_DATE_EPOCH`, then the
+ * HEAD commit time, and only falls back to the clock outside a git checkout.
+ */
+export function resolveBuildId(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.BUILD_ID) {
+    return env.BUILD_ID;
+  }
+  if (env.SOURCE_DATE_EPOCH) {
+    return formatBuildId(new Date(Number(env.SOURCE_DATE_EPOCH) * 1000));
+  }
+
+  const commitTime = git(['log', '-1', '--format=%ct']);
+  return formatBuildId(commitTime ? new Date(Number(commitTime) * 1000) : new Date());
+}
+
+export function createBuildInfo(version: string): BuildInfo {
+  return {
+    version,
+    buildId: resolveBuildId(),
+    commit: currentCommit(),
+  };
+}
+
+/**
+ * Footer version string: `v1.0.0 | Build 20251211202657 | 9906d93`.
+ */
+export function formatVersionString(info: BuildInfo): string {
+  const parts = [`v${info.version}`, `Build ${info.buildId}`];
+  if (info.commit) {
+    parts.push(info.commit);
+  }
+  return parts.join(' | ');
+}
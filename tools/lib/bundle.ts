@@ -0,0 +1,26 @@
+import path from 'node:path';
+import { build } from 'esbuild';
+import { SRC_DIR } from './paths';
+
+export const SCRIPT_ENTRY = path.join(SRC_DIR, 'ts', 'main.ts');
+/** Written fingerprinted, see tools/lib/fingerprint.ts. */
+export const SCRIPT_OUTPUT = 'js/main.js';
+
+export interface ScriptBundle {
+  code: string;
+}
+
+export async function bundleScripts(): Promise<ScriptBundle> {
+  const result = await build({
+    entryPoints: [SCRIPT_ENTRY],
+    bundle: true,
+    format: 'iife',
+    target: 'es2018',
+    charset: 'utf8',
+    legalComments: 'none',
+    write: false,
+    banner: { js: '// Generated by tools/build.ts from src/ts/ - do not edit directly.' },
+  });
+
+  return { code: result.outputFiles[0].text };
+}
@@ -0,0 +1,235 @@
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { FEATURE_ICONS } from '../site/feature-icons';
+import type { Plan } from './manifest';
+import { ROOT_DIR, SRC_DIR } from './paths';
+import { ConfigValidationError, IssueCollector, keyPath, ValidationIssue } from './validation';
+import { readYaml } from './yaml';
+
+/**
+ * Content collections: the YAML lists in content/ that the build renders into
+ * page sections (tools/site/collections.ts), so cards are added or changed
+ * without touching HTML.
+ */
+
+export const CONTENT_DIR = path.join(ROOT_DIR, 'content');
+
+export interface Testimonial {
+  quote: string;
+  name: string;
+  /** Job title and company, e.g. `IT Manager, TechCorp`. */
+  role: string;
+  /** Image relative to src/. */
+  avatar: string;
+}
+
+export interface Feature {
+  title: string;
+  text: string;
+  /** Key of FEATURE_ICONS (tools/site/feature-icons.ts). */
+  icon: string;
+}
+
+export interface TrustBadge {
+  /** Alt text of the badge image. */
+  label: string;
+  /** Image relative to src/. */
+  image: string;
+}
+
+export interface PricingTier {
+  /** Name of a manifest.yaml plan. */
+  plan: string;
+  /** Card heading; defaults to the plan name. */
+  title?: string;
+  summary: string;
+  /** Button text; priced plans link to signup, quoted plans to their quote_link. */
+  cta: string;
+  /** Marks the recommended tier; at most one. */
+  highlight?: boolean;
+}
+
+/** One row of the plan comparison table. */
+export interface PlanFeature {
+  feature: string;
+  /**
+   * Keyed by plan name: `true` for included, or a short value such as
+   * `Up to 5`. Plans that are left out do not include the feature.
+   */
+  plans: Record<string, boolean | string>;
+}
+
+export interface ContentCollections {
+  testimonials: Testimonial[];
+  features: Feature[];
+  trust_badges: TrustBadge[];
+  pricing_tiers: PricingTier[];
+  plan_features: PlanFeature[];
+}
+
+export type CollectionName = keyof ContentCollections;
+
+/** File of each collection in content/. */
+export const COLLECTION_FILES: Readonly<Record<CollectionName, string>> = {
+  testimonials: 'testimonials.yaml',
+  features: 'features.yaml',
+  trust_badges: 'trust-badges.yaml',
+  pricing_tiers: 'pricing-tiers.yaml',
+  plan_features: 'plan-features.yaml',
+};
+
+export const COLLECTION_NAMES = Object.keys(COLLECTION_FILES) as CollectionName[];
+
+export interface ContentValidationOptions {
+  /** Name reported in issues. */
+  file?: string;
+  /** Directory that images are relative to. */
+  srcDir?: string;
+  /** manifest.yaml plans, which pricing tiers and plan features describe. */
+  plans?: Plan[];
+}
+
+const IMAGE = /^images\/[\w/-]+\.(?:svg|png|jpe?g|webp)$/;
+
+type EntryValidator = (check: IssueCollector, entry: Record<string, unknown>, entryPath: string) => void;
+
+function imageRule(srcDir: string) {
+  return {
+    check: (value: string) => {
+      if (!IMAGE.test(value)) {
+        return 'must be an image under images/, such as images/avatars/avatar-1.svg';
+      }
+      const file = path.join(srcDir, value);
+      return existsSync(file) ? null : `${path.relative(ROOT_DIR, file)} does not exist`;
+    },
+  };
+}
+
+function entryValidators(srcDir: string, plans: Plan[]): Record<CollectionName, EntryValidator> {
+  const planNames = plans.map((plan) => plan.name);
+
+  return {
+    testimonials: (check, entry, entryPath) => {
+      check.knownKeys(entry, ['quote', 'name', 'role', 'avatar'], entryPath);
+      for (const key of ['quote', 'name', 'role']) {
+        check.string(entry, key, entryPath);
+      }
+      check.string(entry, 'avatar', entryPath, imageRule(srcDir));
+    },
+    features: (check, entry, entryPath) => {
+      check.knownKeys(entry, ['title', 'text', 'icon'], entryPath);
+      check.string(entry, 'title', entryPath);
+      check.string(entry, 'text', entryPath);
+      check.string(entry, 'icon', entryPath, {
+        check: (icon) => (FEATURE_ICONS[icon] ? null : `unknown icon "${icon}" (expected one of: ${Object.keys(FEATURE_ICONS).join(', ')})`),
+      });
+    },
+    trust_badges: (check, entry, entryPath) => {
+      check.knownKeys(entry, ['label', 'image'], entryPath);
+      check.string(entry, 'label', entryPath);
+      check.string(entry, 'image', entryPath, imageRule(srcDir));
+    },
+    pricing_tiers: (check, entry, entryPath) => {
+      check.knownKeys(entry, ['plan', 'title', 'summary', 'cta', 'highlight'], entryPath);
+      check.string(entry, 'plan', entryPath);
+      check.optionalString(entry, 'title', entryPath);
+      check.string(entry, 'summary', entryPath);
+      check.string(entry, 'cta', entryPath);
+      if (entry.highlight !== undefined && typeof entry.highlight !== 'boolean') {
+        check.add(keyPath(entryPath, 'highlight'), 'must be true or false');
+      }
+    },
+    plan_features: (check, entry, entryPath) => {
+      check.knownKeys(entry, ['feature', 'plans'], entryPath);
+      check.string(entry, 'feature', entryPath);
+      const plansPath = keyPath(entryPath, 'plans');
+      const values = check.object(entry.plans, plansPath);
+      if (!values) {
+        return;
+      }
+      for (const [plan, value] of Object.entries(values)) {
+        const valuePath = keyPath(plansPath, plan);
+        if (!planNames.includes(plan)) {
+          check.add(valuePath, `is not a plan in manifest.yaml (expected one of: ${planNames.join(', ')})`);
+        } else if (typeof value !== 'boolean' && (typeof value !== 'string' || value.trim() === '')) {
+          check.add(valuePath, 'must be true, false or a short value such as "Up to 5"');
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Every manifest plan needs exactly one tier, and every tier a plan. At most
+ * one tier is highlighted.
+ */
+function checkTierPlans(check: IssueCollector, entries: unknown[], plans: Plan[]): void {
+  const names = plans.map((plan) => plan.name);
+  const seen = new Set<string>();
+
+  const highlighted = entries.flatMap((entry, index) => ((entry as Partial<PricingTier> | null)?.highlight === true ? [index] : []));
+  for (const index of highlighted.slice(1)) {
+    check.add(keyPath(keyPath('', index), 'highlight'), `only one tier can be highlighted; [${highlighted[0]}] already is`);
+  }
+
+  entries.forEach((entry, index) => {
+    const plan = (entry as Partial<PricingTier> | null)?.plan;
+    if (typeof plan !== 'string') {
+      return;
+    }
+    const planPath = keyPath(keyPath('', index), 'plan');
+    if (!names.includes(plan)) {
+      check.add(planPath, `"${plan}" is not a plan in manifest.yaml (expected one of: ${names.join(', ')})`);
+    } else if (seen.has(plan)) {
+      check.add(planPath, `${plan} is listed more than once`);
+    }
+    seen.add(plan);
+  });
+
+  for (const name of names.filter((plan) => !seen.has(plan))) {
+    check.add('', `manifest.yaml plan ${name} has no tier`);
+  }
+}
+
+export function validateCollection(name: CollectionName, data: unknown, options: ContentValidationOptions = {}): ValidationIssue[] {
+  const check = new IssueCollector(options.file ?? `content/${COLLECTION_FILES[name]}`);
+  const validateEntry = entryValidators(options.srcDir ?? SRC_DIR, options.plans ?? [])[name];
+
+  const entries = check.array(data, '');
+  if (!entries) {
+    return check.issues;
+  }
+
+  entries.forEach((value, index) => {
+    const entryPath = keyPath('', index);
+    const entry = check.object(value, entryPath);
+    if (entry) {
+      validateEntry(check, entry, entryPath);
+    }
+  });
+
+  if (name === 'pricing_tiers') {
+    checkTierPlans(check, entries, options.plans ?? []);
+  }
+  return check.issues;
+}
+
+/**
+ * Reads and validates every collection in content/, throwing
+ * ConfigValidationError on any issue.
+ */
+export async function loadContent(plans: Plan[] = [], dir: string = CONTENT_DIR): Promise<ContentCollections> {
+  const content: Partial<Record<CollectionName, unknown>> = {};
+  const issues: ValidationIssue[] = [];
+
+  for (const name of COLLECTION_NAMES) {
+    const file = path.join(dir, COLLECTION_FILES[name]);
+    content[name] = await readYaml(file);
+    issues.push(...validateCollection(name, content[name], { file: path.relative(ROOT_DIR, file), plans }));
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return content as ContentCollections;
+}
@@ -0,0 +1,157 @@
+import path from 'node:path';
+import { ROOT_DIR } from './paths';
+import { ConfigValidationError, isHostName, IssueCollector, ValidationIssue } from './validation';
+import { readYaml } from './yaml';
+
+export const ENVIRONMENTS = ['stg', 'prd'] as const;
+export type Environment = (typeof ENVIRONMENTS)[number];
+
+/**
+ * environments/<env>/config.yaml, as read by scripts/06_html_deploy.sh.
+ */
+export interface EnvConfig {
+  hostName: string;
+  path: string;
+  AWS_PROFILE: string;
+  AWS_REGION: string;
+  S3_BUCKET: string;
+  CLOUDFRONT_ID: string;
+  CACHE_HTML_SECONDS: number;
+  CACHE_ASSETS_SECONDS: number;
+  /** Releases kept in the bucket for `npm run deploy -- rollback`; defaults to 5. */
+  RELEASES_TO_KEEP?: number;
+  /** Forms API host and path without protocol, e.g. `rest.gadgetcloud.io/forms`. */
+  formsHostName: string;
+}
+
+const ENV_CONFIG_KEYS = [
+  'hostName',
+  'path',
+  'AWS_PROFILE',
+  'AWS_REGION',
+  'S3_BUCKET',
+  'CLOUDFRONT_ID',
+  'CACHE_HTML_SECONDS',
+  'CACHE_ASSETS_SECONDS',
+  'RELEASES_TO_KEEP',
+  'formsHostName',
+] as const;
+
+const AWS_REGION = /^[a-z]{2}(?:-gov)?-[a-z]+-\d$/;
+const S3_BUCKET = /^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/;
+const CLOUDFRONT_ID = /^E[A-Z0-9]{7,20}$/;
+
+export function isEnvironment(value: string): value is Environment {
+  return (ENVIRONMENTS as readonly string[]).includes(value);
+}
+
+export function envConfigFile(env: Environment): string {
+  return path.join(ROOT_DIR, 'environments', env, 'config.yaml');
+}
+
+function checkFormsHostName(value: string): string | null {
+  if (/^[a-z]+:\/\//i.test(value)) {
+    return 'must not include a protocol (https:// is added by the site)';
+  }
+  const [host] = value.split('/');
+  return isHostName(host) ? null : `"${host}" is not a valid host name`;
+}
+
+export function validateEnvConfig(data: unknown, file: string): ValidationIssue[] {
+  const check = new IssueCollector(file);
+
+  const config = check.object(data, '');
+  if (!config) {
+    return check.issues;
+  }
+
+  check.knownKeys(config, ENV_CONFIG_KEYS, '');
+  check.string(config, 'hostName', '', {
+    check: (value) => (isHostName(value) ? null : 'must be a host name such as www.gadgetcloud.io'),
+  });
+  check.string(config, 'path', '', {
+    check: (value) => (value.startsWith('/') ? null : 'must start with /'),
+  });
+  check.string(config, 'AWS_PROFILE', '');
+  check.string(config, 'AWS_REGION', '', {
+    check: (value) => (AWS_REGION.test(value) ? null : 'must be an AWS region such as ap-south-1'),
+  });
+  check.string(config, 'S3_BUCKET', '', {
+    check: (value) => (S3_BUCKET.test(value) ? null : 'must be a valid S3 bucket name'),
+  });
+  check.string(config, 'CLOUDFRONT_ID', '', {
+    check: (value) => (CLOUDFRONT_ID.test(value) ? null : 'must be a CloudFront distribution ID (run Terraform first)'),
+  });
+  check.nonNegativeInteger(config, 'CACHE_HTML_SECONDS', '');
+  check.nonNegativeInteger(config, 'CACHE_ASSETS_SECONDS', '');
+  if (config.RELEASES_TO_KEEP !== undefined && check.nonNegativeInteger(config, 'RELEASES_TO_KEEP', '') === 0) {
+    check.add('RELEASES_TO_KEEP', 'must keep at least 1 release (the live one)');
+  }
+  check.string(config, 'formsHostName', '', { check: checkFormsHostName });
+
+  return check.issues;
+}
+
+/**
+ * Reads and validates an environment config, throwing ConfigValidationError on any issue.
+ */
+export async function loadEnvConfig(env: Environment): Promise<EnvConfig> {
+  const file = envConfigFile(env);
+  const data = await readYaml(file);
+  const issues = validateEnvConfig(data, path.relative(ROOT_DIR, file));
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return data as EnvConfig;
+}
+
+/**
+ * Values derived from an environment config that end up in the built pages.
+ */
+export interface SiteEnvironment {
+  name: Environment;
+  /** Canonical host, e.g. `www.gadgetcloud.io`. */
+  hostName: string;
+  /** Canonical site URL including the configured path, always ending in `/`. */
+  siteUrl: string;
+  /** Absolute forms API URL, e.g. `https://rest.gadgetcloud.io/forms`. */
+  formsEndpoint: string;
+  /** Origin of the forms API, e.g. `https://rest.gadgetcloud.io`. */
+  formsOrigin: string;
+  /** Whether search engines may index the site; only production is. */
+  indexable: boolean;
+  /** Whether draft blog posts are built; only staging shows them. */
+  drafts: boolean;
+}
+
+export function toSiteEnvironment(name: Environment, config: EnvConfig): SiteEnvironment {
+  const basePath = config.path.endsWith('/') ? config.path : `${config.path}/`;
+  const formsEndpoint = `https://${config.formsHostName}`;
+
+  return {
+    name,
+    hostName: config.hostName,
+    siteUrl: `https://${config.hostName}${basePath}`,
+    formsEndpoint,
+    formsOrigin: new URL(formsEndpoint).origin,
+    indexable: name === 'prd',
+    drafts: name === 'stg',
+  };
+}
+
+/**
+ * Points a site at another forms API, such as the local mock started by
+ * `npm run mock-api`. Plain http is allowed for local development.
+ */
+export function withFormsEndpoint(site: SiteEnvironment, endpoint: string): SiteEnvironment {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    throw new Error(`Invalid forms endpoint "${endpoint}"`);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`Forms endpoint must use http or https, got "${endpoint}"`);
+  }
+  return { ...site, formsEndpoint: url.href.replace(/\/$/, ''), formsOrigin: url.origin };
+}
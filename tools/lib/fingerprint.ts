@@ -0,0 +1,45 @@
+import { createHash } from 'node:crypto';
+import path from 'node:path';
+
+/**
+ * Content-hashed file names for assets that pages link to, so they can be
+ * cached for a year and never need invalidating: `css/styles.css` is served
+ * as `css/styles.1a2b3c4d5e.css`.
+ */
+
+const HASH_LENGTH = 10;
+const FINGERPRINTED = new RegExp(`\\.[0-9a-f]{${HASH_LENGTH}}\\.[a-z0-9]+$`);
+
+/** Output paths of the stylesheet and script every page links to. */
+export interface AssetPaths {
+  styles: string;
+  script: string;
+}
+
+/** Paths before fingerprinting, as referenced by static pages such as error.html. */
+export const ASSET_SOURCES: AssetPaths = {
+  styles: 'css/styles.css',
+  script: 'js/main.js',
+};
+
+export function contentHash(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, HASH_LENGTH);
+}
+
+/** `css/styles.css` → `css/styles.<hash>.css` */
+export function fingerprint(file: string, content: string | Buffer): string {
+  const ext = path.posix.extname(file);
+  return `${file.slice(0, -ext.length)}.${contentHash(content)}${ext}`;
+}
+
+export function isFingerprinted(file: string): boolean {
+  return FINGERPRINTED.test(file);
+}
+
+/** Points `href`/`src` attributes at the fingerprinted assets. */
+export function rewriteAssetReferences(html: string, assets: AssetPaths): string {
+  return html.replace(/(href|src)="(css\/styles\.css|js\/main\.js)(?:\?[^"]*)?"/g, (_match, attribute: string, source: string) => {
+    const target = source === ASSET_SOURCES.styles ? assets.styles : assets.script;
+    return `${attribute}="${target}"`;
+  });
+}
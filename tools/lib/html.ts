@@ -0,0 +1,34 @@
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Indents every non-empty line of a block by the given number of spaces.
+ */
+export function indent(block: string, spaces: number): string {
+  const pad = ' '.repeat(spaces);
+  return block
+    .split('\n')
+    .map((line) => (line ? pad + line : line))
+    .join('\n');
+}
+
+const HTML_UNESCAPES: Record<string, string> = Object.fromEntries(Object.entries(HTML_ESCAPES).map(([char, entity]) => [entity, char]));
+
+/** Reverses escapeHtml(). */
+export function unescapeHtml(value: string): string {
+  return value.replace(/&(?:amp|lt|gt|quot|#39);/g, (entity) => HTML_UNESCAPES[entity]);
+}
+
+/** JSON for a script element: `<` is escaped so no text can close it. */
+export function scriptJson(value: unknown, space?: number): string {
+  return JSON.stringify(value, null, space).replace(/</g, '\\u003c');
+}
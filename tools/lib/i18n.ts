@@ -0,0 +1,165 @@
+import path from 'node:path';
+import { LABEL_PREFIX, MESSAGES } from '../../src/ts/messages';
+import { FORM_RULES } from '../../src/ts/validation-rules';
+import { CONTENT_DIR } from './content';
+import { ROOT_DIR } from './paths';
+import { ConfigValidationError, IssueCollector, keyPath, ValidationIssue } from './validation';
+import { readYaml } from './yaml';
+
+/**
+ * Locales and their message catalogs in content/locales/. English is the
+ * source language: en.yaml lists the copy of the translated pages, text
+ * and attributes alike (see tools/site/i18n.ts), and the scripts' messages
+ * are built into src/ts/messages.ts. Every other locale's catalog
+ * translates all of both, keyed by the English.
+ */
+
+export const LOCALES_DIR = path.join(CONTENT_DIR, 'locales');
+
+export const LOCALES = ['en', 'te', 'hi'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const SOURCE_LOCALE = 'en' satisfies Locale;
+
+export type TranslatedLocale = Exclude<Locale, typeof SOURCE_LOCALE>;
+
+/** Locales with a catalog of translations, each built into its own directory. */
+export const TRANSLATED_LOCALES = LOCALES.filter((locale): locale is TranslatedLocale => locale !== SOURCE_LOCALE);
+
+/** Names in the switcher, each in its own language. */
+export const LOCALE_NAMES: Readonly<Record<Locale, string>> = {
+  en: 'English',
+  te: 'తెలుగు',
+  hi: 'हिन्दी',
+};
+
+export interface Catalog {
+  /** Script messages by key, see src/ts/messages.ts. */
+  messages: Record<string, string>;
+  /** Page copy by its English text. */
+  strings: Record<string, string>;
+}
+
+export interface Catalogs {
+  /** The English page copy from en.yaml. */
+  source: string[];
+  translations: Record<TranslatedLocale, Catalog>;
+}
+
+/** Output path of a page in `locale`, e.g. `te/about_us.html`. */
+export function localePath(locale: Locale, link: string): string {
+  return locale === SOURCE_LOCALE ? link : `${locale}/${link}`;
+}
+
+export function catalogPath(locale: Locale, dir: string = LOCALES_DIR): string {
+  return path.join(dir, `${locale}.yaml`);
+}
+
+function displayName(locale: Locale, dir: string = LOCALES_DIR): string {
+  return path.relative(ROOT_DIR, catalogPath(locale, dir));
+}
+
+/** Every script message key a catalog must translate, form field labels included. */
+export function messageKeys(): string[] {
+  const labels = Object.values(FORM_RULES).flatMap((rules) => Object.values(rules).map((rule) => `${LABEL_PREFIX}${rule.label}`));
+  return [...Object.keys(MESSAGES), ...new Set(labels)];
+}
+
+/** English text of a message key. */
+export function sourceMessage(key: string): string {
+  return key.startsWith(LABEL_PREFIX) ? key.slice(LABEL_PREFIX.length) : MESSAGES[key as keyof typeof MESSAGES];
+}
+
+function placeholders(text: string): string {
+  const names = Array.from(text.matchAll(/\{\w+\}/g), (match) => match[0]).sort();
+  return names.join(', ') || 'none';
+}
+
+function checkTranslation(check: IssueCollector, path: string, english: string, translation: unknown): void {
+  if (typeof translation !== 'string' || translation.trim() === '') {
+    check.add(path, 'is missing');
+  } else if (placeholders(translation) !== placeholders(english)) {
+    check.add(path, `must use the placeholders of the English text (${placeholders(english)})`);
+  }
+}
+
+/** Checks en.yaml: a list of distinct, non-empty strings. */
+export function validateSourceCatalog(data: unknown, file: string = displayName(SOURCE_LOCALE)): ValidationIssue[] {
+  const check = new IssueCollector(file);
+  const catalog = check.object(data, '');
+  const strings = catalog && check.array(catalog.strings, 'strings');
+  if (catalog) {
+    check.knownKeys(catalog, ['strings'], '');
+  }
+
+  const seen = new Set<string>();
+  strings?.forEach((text, index) => {
+    if (typeof text !== 'string' || text.trim() === '') {
+      check.add(keyPath('strings', index), 'must be a non-empty string');
+    } else if (seen.has(text)) {
+      check.add(keyPath('strings', index), `"${text}" is listed twice`);
+    }
+    seen.add(String(text));
+  });
+  return check.issues;
+}
+
+/**
+ * Checks a translation against the English: every message key and every
+ * string of en.yaml must be translated, with the same `{placeholders}`,
+ * and nothing else may be there.
+ */
+export function validateCatalog(locale: Locale, data: unknown, source: string[], file: string = displayName(locale)): ValidationIssue[] {
+  const check = new IssueCollector(file);
+  const catalog = check.object(data, '');
+  if (!catalog) {
+    return check.issues;
+  }
+  check.knownKeys(catalog, ['messages', 'strings'], '');
+
+  const messages = check.object(catalog.messages, 'messages');
+  if (messages) {
+    const keys = messageKeys();
+    for (const key of keys) {
+      checkTranslation(check, keyPath('messages', key), sourceMessage(key), messages[key]);
+    }
+    for (const key of Object.keys(messages).filter((key) => !keys.includes(key))) {
+      check.add(keyPath('messages', key), 'is not a message of src/ts/messages.ts or a form field label');
+    }
+  }
+
+  const strings = check.object(catalog.strings, 'strings');
+  if (strings) {
+    const path = (text: string) => keyPath('strings', JSON.stringify(text));
+    for (const text of source) {
+      checkTranslation(check, path(text), text, strings[text]);
+    }
+    for (const text of Object.keys(strings).filter((text) => !source.includes(text))) {
+      check.add(path(text), `is not in ${displayName(SOURCE_LOCALE)}`);
+    }
+  }
+  return check.issues;
+}
+
+/** Reads and validates every catalog, throwing ConfigValidationError on any issue. */
+export async function loadCatalogs(dir: string = LOCALES_DIR): Promise<Catalogs> {
+  const sourceData = await readYaml(catalogPath(SOURCE_LOCALE, dir));
+  const issues = validateSourceCatalog(sourceData, displayName(SOURCE_LOCALE, dir));
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  const source = (sourceData as { strings: string[] }).strings;
+
+  const translations: Partial<Catalogs['translations']> = {};
+  for (const locale of TRANSLATED_LOCALES) {
+    const data = await readYaml(catalogPath(locale, dir));
+    issues.push(...validateCatalog(locale, data, source, displayName(locale, dir)));
+    translations[locale] = data as Catalog;
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return { source, translations: translations as Catalogs['translations'] };
+}
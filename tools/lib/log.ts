@@ -0,0 +1,30 @@
+/**
+ * Console helpers matching the output style of the scripts/*.sh tooling.
+ */
+
+const RED = '\x1b[0;31m';
+const GREEN = '\x1b[0;32m';
+const YELLOW = '\x1b[1;33m';
+const BLUE = '\x1b[0;34m';
+const CYAN = '\x1b[0;36m';
+const NC = '\x1b[0m';
+
+export function info(message: string): void {
+  console.log(`${BLUE}ℹ${NC} ${message}`);
+}
+
+export function success(message: string): void {
+  console.log(`${GREEN}✓${NC} ${message}`);
+}
+
+export function warn(message: string): void {
+  console.log(`${YELLOW}⚠${NC} ${message}`);
+}
+
+export function fail(message: string): void {
+  console.error(`${RED}✗${NC} ${message}`);
+}
+
+export function section(title: string): void {
+  console.log(`\n${CYAN}▶ ${title}${NC}\n`);
+}
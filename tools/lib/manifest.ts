@@ -0,0 +1,392 @@
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { SOCIAL_ICON_PATHS } from '../site/social-icons';
+import { PAGES_DIR, ROOT_DIR, SRC_DIR } from './paths';
+import { ConfigValidationError, isHttpsUrl, IssueCollector, keyPath, ValidationIssue } from './validation';
+import { readYaml } from './yaml';
+
+export const MANIFEST_FILE = path.join(ROOT_DIR, 'manifest.yaml');
+
+export const STRUCTURED_DATA_KINDS = ['organization', 'products'] as const;
+export type StructuredDataKind = (typeof STRUCTURED_DATA_KINDS)[number];
+
+export interface MenuItem {
+  text: string;
+  link: string;
+  title: string;
+  description: string;
+  /** Label used in the footer Quick Links when it differs from `text`. */
+  footer_text?: string;
+  /** JSON-LD blocks added to the page, see tools/site/structured-data.ts. */
+  structured_data?: StructuredDataKind[];
+}
+
+export interface SocialLink {
+  platform: string;
+  url: string;
+}
+
+export interface Address {
+  street: string;
+  city: string;
+  state: string;
+  zip: string;
+  country: string;
+}
+
+export const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface ContactPoint {
+  /** schema.org contactType, e.g. `customer support`. */
+  type: string;
+  email: string;
+  hours?: {
+    days: Weekday[];
+    /** `HH:MM`, in the timezone of `address`. */
+    opens: string;
+    closes: string;
+  };
+}
+
+export interface Plan {
+  name: string;
+  description: string;
+  /** Monthly price per ISO 4217 currency; plans without one are quoted. */
+  price?: Record<string, number>;
+  /** Yearly price when billed annually, in the currencies of `price`; defaults to 12 months. */
+  annual_price?: Record<string, number>;
+  /** Page and anchor of the quote form, for plans without a price. */
+  quote_link?: string;
+}
+
+export interface SiteManifest {
+  name: string;
+  version: string;
+  site_title: string;
+  header: string;
+  footer: string;
+  default_description: string;
+  /** Link preview image (og:image, twitter:image), relative to src/. */
+  share_image?: string;
+  address: Address;
+  menu_items: MenuItem[];
+  contact_points?: ContactPoint[];
+  plans?: Plan[];
+  /** Account signup that plan CTAs deep-link to; needed once a plan has a price. */
+  signup_url?: string;
+  sign_in: {
+    text: string;
+    url: string;
+  };
+  social_links: SocialLink[];
+  repository: string;
+  author: string;
+  description: string;
+  license: string;
+}
+
+const MANIFEST_KEYS = [
+  'name',
+  'version',
+  'site_title',
+  'header',
+  'footer',
+  'default_description',
+  'share_image',
+  'address',
+  'menu_items',
+  'contact_points',
+  'plans',
+  'signup_url',
+  'sign_in',
+  'social_links',
+  'repository',
+  'author',
+  'description',
+  'license',
+] as const;
+
+const SEMVER = /^\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?$/;
+const COUNTRY_CODE = /^[A-Z]{2}$/;
+const PAGE_LINK = /^[a-z0-9_-]+\.html$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i;
+const TIME = /^(?:[01]\d|2[0-3]):[0-5]\d$/;
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+// Link previews do not support SVG
+const SHARE_IMAGE = /^images\/[\w/-]+\.(?:png|jpe?g)$/;
+
+export const KNOWN_SOCIAL_PLATFORMS = Object.keys(SOCIAL_ICON_PATHS);
+
+const httpsUrl = (value: string) => (isHttpsUrl(value) ? null : 'must be an https:// URL');
+
+export interface ManifestValidationOptions {
+  /** Name reported in issues. */
+  file?: string;
+  /** Directory holding the page bodies that menu links point at. */
+  pagesDir?: string;
+  /** Directory that share_image is relative to. */
+  srcDir?: string;
+}
+
+export function validateManifest(data: unknown, options: ManifestValidationOptions = {}): ValidationIssue[] {
+  const file = options.file ?? 'manifest.yaml';
+  const pagesDir = options.pagesDir ?? PAGES_DIR;
+  const srcDir = options.srcDir ?? SRC_DIR;
+  const check = new IssueCollector(file);
+
+  const manifest = check.object(data, '');
+  if (!manifest) {
+    return check.issues;
+  }
+
+  check.knownKeys(manifest, MANIFEST_KEYS, '');
+  check.string(manifest, 'name', '');
+  check.string(manifest, 'version', '', {
+    check: (value) => (SEMVER.test(value) ? null : 'must be a semantic version such as 1.2.3'),
+  });
+  for (const key of ['site_title', 'header', 'footer', 'default_description', 'author', 'description', 'license']) {
+    check.string(manifest, key, '');
+  }
+  check.string(manifest, 'repository', '', { check: httpsUrl });
+  check.optionalString(manifest, 'share_image', '', {
+    check: (value) => {
+      if (!SHARE_IMAGE.test(value)) {
+        return 'must be a PNG or JPEG under images/, such as images/social/share-card.png';
+      }
+      const file = path.join(srcDir, value);
+      return existsSync(file) ? null : `${path.relative(ROOT_DIR, file)} does not exist`;
+    },
+  });
+
+  const address = check.object(manifest.address, 'address');
+  if (address) {
+    check.knownKeys(address, ['street', 'city', 'state', 'zip', 'country'], 'address');
+    check.string(address, 'street', 'address', { allowEmpty: true });
+    check.string(address, 'city', 'address');
+    check.string(address, 'state', 'address');
+    check.string(address, 'zip', 'address');
+    check.string(address, 'country', 'address', {
+      check: (value) => (COUNTRY_CODE.test(value) ? null : 'must be an ISO 3166 two-letter country code such as IN'),
+    });
+  }
+
+  const signIn = check.object(manifest.sign_in, 'sign_in');
+  if (signIn) {
+    check.knownKeys(signIn, ['text', 'url'], 'sign_in');
+    check.string(signIn, 'text', 'sign_in');
+    check.string(signIn, 'url', 'sign_in', { check: httpsUrl });
+  }
+
+  const menuItems = check.array(manifest.menu_items, 'menu_items');
+  if (menuItems) {
+    if (menuItems.length === 0) {
+      check.add('menu_items', 'must list at least one page');
+    }
+
+    const seenLinks = new Map<string, number>();
+    menuItems.forEach((value, index) => {
+      const itemPath = keyPath('menu_items', index);
+      const item = check.object(value, itemPath);
+      if (!item) {
+        return;
+      }
+
+      check.knownKeys(item, ['text', 'link', 'title', 'description', 'footer_text', 'structured_data'], itemPath);
+      check.string(item, 'text', itemPath);
+      check.string(item, 'title', itemPath);
+      check.string(item, 'description', itemPath);
+      check.optionalString(item, 'footer_text', itemPath);
+      if (item.structured_data !== undefined) {
+        validateStructuredData(check, item.structured_data, keyPath(itemPath, 'structured_data'), manifest.plans !== undefined);
+      }
+
+      const link = check.string(item, 'link', itemPath, {
+        check: (value) => (PAGE_LINK.test(value) ? null : 'must be a page file name such as about_us.html'),
+      });
+      if (link === undefined) {
+        return;
+      }
+
+      const linkPath = keyPath(itemPath, 'link');
+      const firstIndex = seenLinks.get(link);
+      if (firstIndex !== undefined) {
+        check.add(linkPath, `duplicates menu_items[${firstIndex}].link (${link})`);
+      } else {
+        seenLinks.set(link, index);
+      }
+
+      if (!existsSync(path.join(pagesDir, link))) {
+        check.add(linkPath, `page ${path.relative(ROOT_DIR, path.join(pagesDir, link))} does not exist`);
+      }
+    });
+  }
+
+  if (manifest.contact_points !== undefined) {
+    validateContactPoints(check, manifest.contact_points);
+  }
+  if (manifest.plans !== undefined) {
+    validatePlans(check, manifest.plans);
+  }
+  check.optionalString(manifest, 'signup_url', '', { check: httpsUrl });
+  if (manifest.signup_url === undefined && Array.isArray(manifest.plans) && manifest.plans.some((plan) => plan?.price !== undefined)) {
+    check.add('signup_url', 'is required for plans with a price');
+  }
+
+  const socialLinks = check.array(manifest.social_links, 'social_links');
+  if (socialLinks) {
+    const seenPlatforms = new Set<string>();
+    socialLinks.forEach((value, index) => {
+      const linkPath = keyPath('social_links', index);
+      const link = check.object(value, linkPath);
+      if (!link) {
+        return;
+      }
+
+      check.knownKeys(link, ['platform', 'url'], linkPath);
+      check.string(link, 'url', linkPath, { check: httpsUrl });
+      const platform = check.string(link, 'platform', linkPath, {
+        check: (name) =>
+          KNOWN_SOCIAL_PLATFORMS.includes(name)
+            ? null
+            : `unknown platform "${name}" (expected one of: ${KNOWN_SOCIAL_PLATFORMS.join(', ')})`,
+      });
+
+      if (platform !== undefined) {
+        if (seenPlatforms.has(platform)) {
+          check.add(keyPath(linkPath, 'platform'), `${platform} is listed more than once`);
+        }
+        seenPlatforms.add(platform);
+      }
+    });
+  }
+
+  return check.issues;
+}
+
+function validateStructuredData(check: IssueCollector, value: unknown, listPath: string, hasPlans: boolean): void {
+  const kinds = check.array(value, listPath);
+  kinds?.forEach((kind, index) => {
+    if (!(STRUCTURED_DATA_KINDS as readonly unknown[]).includes(kind)) {
+      check.add(keyPath(listPath, index), `must be one of: ${STRUCTURED_DATA_KINDS.join(', ')}`);
+    } else if (kind === 'products' && !hasPlans) {
+      check.add(keyPath(listPath, index), 'needs plans to describe');
+    }
+  });
+}
+
+function validateContactPoints(check: IssueCollector, value: unknown): void {
+  check.array(value, 'contact_points')?.forEach((entry, index) => {
+    const pointPath = keyPath('contact_points', index);
+    const point = check.object(entry, pointPath);
+    if (!point) {
+      return;
+    }
+
+    check.knownKeys(point, ['type', 'email', 'hours'], pointPath);
+    check.string(point, 'type', pointPath);
+    check.string(point, 'email', pointPath, {
+      check: (email) => (EMAIL.test(email) ? null : 'must be an email address'),
+    });
+    if (point.hours === undefined) {
+      return;
+    }
+
+    const hoursPath = keyPath(pointPath, 'hours');
+    const hours = check.object(point.hours, hoursPath);
+    if (!hours) {
+      return;
+    }
+    check.knownKeys(hours, ['days', 'opens', 'closes'], hoursPath);
+    check.array(hours.days, keyPath(hoursPath, 'days'))?.forEach((day, dayIndex) => {
+      if (!(WEEKDAYS as readonly unknown[]).includes(day)) {
+        check.add(keyPath(keyPath(hoursPath, 'days'), dayIndex), 'must be a day name such as Monday');
+      }
+    });
+    for (const key of ['opens', 'closes']) {
+      check.string(hours, key, hoursPath, {
+        check: (time) => (TIME.test(time) ? null : 'must be a 24-hour time such as 09:00'),
+      });
+    }
+  });
+}
+
+/** Checks a price map and returns its currencies. */
+function validatePrice(check: IssueCollector, value: unknown, pricePath: string): string[] {
+  const price = check.object(value, pricePath);
+  if (!price) {
+    return [];
+  }
+  for (const currency of Object.keys(price)) {
+    if (!CURRENCY_CODE.test(currency)) {
+      check.add(keyPath(pricePath, currency), 'must be an ISO 4217 currency code such as INR');
+    } else if (typeof price[currency] !== 'number' || (price[currency] as number) < 0) {
+      check.add(keyPath(pricePath, currency), 'must be a non-negative number');
+    }
+  }
+  return Object.keys(price);
+}
+
+function validatePlans(check: IssueCollector, value: unknown): void {
+  // Visitors switch every priced plan to one currency at a time
+  let currencies: string[] | undefined;
+
+  check.array(value, 'plans')?.forEach((entry, index) => {
+    const planPath = keyPath('plans', index);
+    const plan = check.object(entry, planPath);
+    if (!plan) {
+      return;
+    }
+
+    check.knownKeys(plan, ['name', 'description', 'price', 'annual_price', 'quote_link'], planPath);
+    check.string(plan, 'name', planPath);
+    check.string(plan, 'description', planPath);
+    check.optionalString(plan, 'quote_link', planPath, {
+      check: (link) => (/^[a-z0-9_-]+\.html#[\w-]+$/.test(link) ? null : 'must be a page and anchor such as products.html#enterprise-quote'),
+    });
+
+    if (plan.price === undefined) {
+      if (plan.quote_link === undefined) {
+        check.add(planPath, 'needs a price or a quote_link');
+      }
+      if (plan.annual_price !== undefined) {
+        check.add(keyPath(planPath, 'annual_price'), 'needs a monthly price');
+      }
+      return;
+    }
+    const pricePath = keyPath(planPath, 'price');
+    const planCurrencies = validatePrice(check, plan.price, pricePath);
+    if (currencies === undefined) {
+      currencies = planCurrencies;
+    } else if (planCurrencies.join() !== currencies.join()) {
+      check.add(pricePath, `must list the currencies of the other plans in the same order (${currencies.join(', ')})`);
+    }
+
+    if (plan.annual_price === undefined) {
+      return;
+    }
+    const annualPath = keyPath(planPath, 'annual_price');
+    const annualCurrencies = validatePrice(check, plan.annual_price, annualPath);
+    if (annualCurrencies.join() !== planCurrencies.join()) {
+      check.add(annualPath, `must list the currencies of price (${planCurrencies.join(', ')})`);
+      return;
+    }
+    const monthly = plan.price as Record<string, number>;
+    const annual = plan.annual_price as Record<string, number>;
+    for (const currency of annualCurrencies.filter((code) => annual[code] > monthly[code] * 12)) {
+      check.add(keyPath(annualPath, currency), `must not be more than 12 months at the monthly price (${monthly[currency] * 12})`);
+    }
+  });
+}
+
+/**
+ * Reads and validates manifest.yaml, throwing ConfigValidationError on any issue.
+ */
+export async function loadManifest(file: string = MANIFEST_FILE): Promise<SiteManifest> {
+  const data = await readYaml(file);
+  const issues = validateManifest(data, { file: path.relative(ROOT_DIR, file) });
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return data as SiteManifest;
+}
@@ -0,0 +1,6 @@
+import path from 'node:path';
+
+export const ROOT_DIR = path.resolve(__dirname, '..', '..');
+export const SRC_DIR = path.join(ROOT_DIR, 'src');
+export const PAGES_DIR = path.join(SRC_DIR, 'pages');
+export const DIST_DIR = path.join(ROOT_DIR, 'dist');
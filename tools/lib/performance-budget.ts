@@ -0,0 +1,109 @@
+import path from 'node:path';
+import { ROOT_DIR } from './paths';
+import { ConfigValidationError, IssueCollector, keyPath, ValidationIssue } from './validation';
+import { readYaml } from './yaml';
+
+/**
+ * performance-budgets.yaml: the most each page may cost, checked by
+ * tests/performance.spec.ts. `defaults` applies to every page and `pages`
+ * tightens or relaxes single metrics per page.
+ */
+export const PERFORMANCE_BUDGET_FILE = path.join(ROOT_DIR, 'performance-budgets.yaml');
+
+export const PERFORMANCE_METRICS = ['lcp_ms', 'cls', 'transfer_kb', 'requests'] as const;
+export type PerformanceMetric = (typeof PERFORMANCE_METRICS)[number];
+
+/** Largest Contentful Paint, Cumulative Layout Shift, bytes over the wire and request count. */
+export type PageMetrics = Record<PerformanceMetric, number>;
+
+export interface PerformanceBudget {
+  defaults: PageMetrics;
+  pages?: Record<string, Partial<PageMetrics>>;
+}
+
+const PAGE_LINK = /^[a-z0-9_-]+\.html$/;
+
+function validateMetrics(check: IssueCollector, metrics: Record<string, unknown>, metricsPath: string, required: boolean): void {
+  check.knownKeys(metrics, PERFORMANCE_METRICS, metricsPath);
+  for (const metric of PERFORMANCE_METRICS) {
+    if (!required && metrics[metric] === undefined) {
+      continue;
+    }
+    if (metric === 'requests') {
+      check.nonNegativeInteger(metrics, metric, metricsPath);
+    } else {
+      check.nonNegativeNumber(metrics, metric, metricsPath);
+    }
+  }
+}
+
+export function validatePerformanceBudget(data: unknown, file: string): ValidationIssue[] {
+  const check = new IssueCollector(file);
+
+  const budget = check.object(data, '');
+  if (!budget) {
+    return check.issues;
+  }
+
+  check.knownKeys(budget, ['defaults', 'pages'], '');
+  const defaults = check.object(budget.defaults, 'defaults');
+  if (defaults) {
+    validateMetrics(check, defaults, 'defaults', true);
+  }
+
+  if (budget.pages !== undefined) {
+    const pages = check.object(budget.pages, 'pages');
+    for (const [page, value] of Object.entries(pages ?? {})) {
+      const pagePath = keyPath('pages', page);
+      if (!PAGE_LINK.test(page)) {
+        check.add(pagePath, 'must be a page file name such as index.html');
+      }
+      const metrics = check.object(value, pagePath);
+      if (metrics) {
+        validateMetrics(check, metrics, pagePath, false);
+      }
+    }
+  }
+
+  return check.issues;
+}
+
+/**
+ * Reads and validates performance-budgets.yaml, throwing ConfigValidationError on any issue.
+ */
+export async function loadPerformanceBudget(file: string = PERFORMANCE_BUDGET_FILE): Promise<PerformanceBudget> {
+  const data = await readYaml(file);
+  const issues = validatePerformanceBudget(data, path.relative(ROOT_DIR, file));
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return data as PerformanceBudget;
+}
+
+export function budgetFor(budget: PerformanceBudget, page: string): PageMetrics {
+  return { ...budget.defaults, ...budget.pages?.[page] };
+}
+
+/** One message per metric over its budget, e.g. `transfer_kb 212.4 > 200`. */
+export function overBudget(metrics: PageMetrics, budget: PageMetrics): string[] {
+  return PERFORMANCE_METRICS.filter((metric) => metrics[metric] > budget[metric]).map(
+    (metric) => `${metric} ${metrics[metric]} > ${budget[metric]}`,
+  );
+}
+
+/** Entry of the per-build JSON trend report written by tests/performance-reporter.ts. */
+export interface PerformanceResult {
+  project: string;
+  page: string;
+  metrics: PageMetrics;
+  budget: PageMetrics;
+  overBudget: string[];
+}
+
+export interface PerformanceReport {
+  buildId: string;
+  commit: string;
+  generatedAt: string;
+  baseURL: string;
+  results: PerformanceResult[];
+}
@@ -0,0 +1,145 @@
+/**
+ * Helpers for validating parsed YAML configuration. Issues carry the file
+ * and key path (e.g. `menu_items[2].link`) so they can be fixed directly.
+ */
+
+export interface ValidationIssue {
+  file: string;
+  path: string;
+  message: string;
+}
+
+export function formatIssue(issue: ValidationIssue): string {
+  return issue.path ? `${issue.file}: ${issue.path}: ${issue.message}` : `${issue.file}: ${issue.message}`;
+}
+
+export class ConfigValidationError extends Error {
+  constructor(readonly issues: ValidationIssue[]) {
+    super(`Invalid configuration:\n${issues.map((issue) => `  ${formatIssue(issue)}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+export function keyPath(parent: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${parent}[${key}]`;
+  }
+  return parent ? `${parent}.${key}` : key;
+}
+
+const HOST_NAME = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i;
+
+export function isHostName(value: string): boolean {
+  return HOST_NAME.test(value);
+}
+
+export function isHttpsUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' && isHostName(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+interface StringRule {
+  allowEmpty?: boolean;
+  check?: (value: string) => string | null;
+}
+
+/**
+ * Collects issues for a single file while walking its parsed content.
+ */
+export class IssueCollector {
+  readonly issues: ValidationIssue[] = [];
+
+  constructor(readonly file: string) {}
+
+  add(path: string, message: string): void {
+    this.issues.push({ file: this.file, path, message });
+  }
+
+  object(value: unknown, path: string): Record<string, unknown> | undefined {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      this.add(path, value === undefined ? 'is required' : 'must be a mapping');
+      return undefined;
+    }
+    return value as Record<string, unknown>;
+  }
+
+  array(value: unknown, path: string): unknown[] | undefined {
+    if (!Array.isArray(value)) {
+      this.add(path, value === undefined ? 'is required' : 'must be a list');
+      return undefined;
+    }
+    return value;
+  }
+
+  string(parent: Record<string, unknown>, key: string, parentPath: string, rule: StringRule = {}): string | undefined {
+    const path = keyPath(parentPath, key);
+    const value = parent[key];
+
+    if (value === undefined || value === null) {
+      this.add(path, 'is required');
+      return undefined;
+    }
+    if (typeof value !== 'string') {
+      this.add(path, 'must be a string');
+      return undefined;
+    }
+    if (!rule.allowEmpty && value.trim() === '') {
+      this.add(path, 'must not be empty');
+      return undefined;
+    }
+
+    const problem = rule.check?.(value);
+    if (problem) {
+      this.add(path, problem);
+      return undefined;
+    }
+    return value;
+  }
+
+  optionalString(parent: Record<string, unknown>, key: string, parentPath: string, rule: StringRule = {}): string | undefined {
+    return parent[key] === undefined ? undefined : this.string(parent, key, parentPath, rule);
+  }
+
+  nonNegativeInteger(parent: Record<string, unknown>, key: string, parentPath: string): number | undefined {
+    const path = keyPath(parentPath, key);
+    const value = parent[key];
+
+    if (value === undefined || value === null) {
+      this.add(path, 'is required');
+      return undefined;
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      this.add(path, 'must be a non-negative integer');
+      return undefined;
+    }
+    return value;
+  }
+
+  nonNegativeNumber(parent: Record<string, unknown>, key: string, parentPath: string): number | undefined {
+    const path = keyPath(parentPath, key);
+    const value = parent[key];
+
+    if (value === undefined || value === null) {
+      this.add(path, 'is required');
+      return undefined;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      this.add(path, 'must be a non-negative number');
+      return undefined;
+    }
+    return value;
+  }
+
+  /** Flags keys that are not part of the schema, which usually means a typo. */
+  knownKeys(parent: Record<string, unknown>, allowed: readonly string[], parentPath: string): void {
+    for (const key of Object.keys(parent)) {
+      if (!allowed.includes(key)) {
+        this.add(keyPath(parentPath, key), 'is not a known key');
+      }
+    }
+  }
+}
@@ -0,0 +1,6 @@
+import { readFile } from 'node:fs/promises';
+import { parse } from 'yaml';
+
+export async function readYaml(file: string): Promise<unknown> {
+  return parse(await readFile(file, 'utf8'));
+}
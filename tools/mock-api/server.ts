@@ -0,0 +1,273 @@
+/**
+ * In-memory stand-in for the GadgetCloud forms API (`POST /forms?type=...`).
+ * Payloads are validated with the client's FORM_RULES, accepted
+ * submissions get a `submission_id` and are kept for assertions, and
+ * failures can be queued to test error handling.
+ *
+ * State is kept per scope so parallel tests do not see each other's
+ * submissions or failures. Every route below also exists under
+ * `/scopes/<scope>/...`; the unprefixed routes use the `default` scope.
+ *
+ *   POST   /forms?type=<type>   Forms API
+ *   GET    /__mock/submissions  Accepted submissions
+ *   GET    /__mock/requests     Every request to /forms with its outcome
+ *   POST   /__mock/failures     Queue a failure (JSON MockFailure)
+ *   DELETE /__mock/failures     Drop queued failures
+ *   DELETE /__mock              Clear submissions, requests and failures
+ *   GET    /__mock/health       Readiness check
+ */
+
+import { randomUUID } from 'node:crypto';
+import http from 'node:http';
+import type { FormFields } from '../../src/ts/forms-client';
+import { FORM_RULES, validateFields } from '../../src/ts/validation-rules';
+
+export const MOCK_API_PORT = 8787;
+
+/** Forms endpoint of the local build Playwright serves (see playwright.config.ts). */
+export const MOCK_FORMS_ENDPOINT = `http://localhost:${MOCK_API_PORT}/forms`;
+
+const DEFAULT_SCOPE = 'default';
+const MAX_BODY_BYTES = 64 * 1024;
+const DEFAULT_SLOW_MS = 3000;
+const DEFAULT_RETRY_AFTER = '60';
+
+export const FAILURE_MODES = ['400', '429', '500', 'slow', 'drop'] as const;
+export type FailureMode = (typeof FAILURE_MODES)[number];
+
+export interface MockFailure {
+  mode: FailureMode;
+  /** Number of requests that fail this way, 1 by default. */
+  times?: number;
+  /** Response body for `400` and `500`. */
+  body?: unknown;
+  /** `Retry-After` header for `429`, in seconds or as an HTTP date. */
+  retryAfter?: string;
+  /** Delay before a `slow` request is handled normally. */
+  delayMs?: number;
+}
+
+export interface MockSubmission {
+  submissionId: string;
+  type: string;
+  idempotencyKey: string | null;
+  payload: Record<string, unknown>;
+  receivedAt: string;
+}
+
+export interface MockRequest {
+  type: string | null;
+  idempotencyKey: string | null;
+  /** Response status, or `dropped` when the connection was closed. */
+  status: number | 'dropped';
+}
+
+interface ScopeState {
+  submissions: MockSubmission[];
+  requests: MockRequest[];
+  failures: Array<MockFailure & { remaining: number }>;
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Idempotency-Key',
+  'Access-Control-Expose-Headers': 'Retry-After',
+};
+
+export interface MockFormsApiOptions {
+  /** Called with a one-line summary of every forms API request. */
+  log?: (line: string) => void;
+}
+
+function isFailure(value: unknown): value is MockFailure {
+  const failure = value as MockFailure;
+  return (
+    typeof failure === 'object' &&
+    failure !== null &&
+    FAILURE_MODES.includes(failure.mode) &&
+    (failure.times === undefined || (Number.isInteger(failure.times) && failure.times > 0))
+  );
+}
+
+function send(res: http.ServerResponse, status: number, body?: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { ...CORS_HEADERS, ...(body === undefined ? {} : { 'Content-Type': 'application/json' }), ...headers });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/** Payload values the rules can check; attribution objects are skipped. */
+function formFields(payload: Record<string, unknown>): FormFields {
+  const fields: FormFields = {};
+  for (const [key, value] of Object.entries(payload)) {
+    if (typeof value === 'string' || typeof value === 'boolean') {
+      fields[key] = value;
+    }
+  }
+  return fields;
+}
+
+export function createMockFormsApi(options: MockFormsApiOptions = {}): http.Server {
+  const scopes = new Map<string, ScopeState>();
+  const log = options.log ?? (() => undefined);
+
+  const scopeState = (scope: string): ScopeState => {
+    let state = scopes.get(scope);
+    if (!state) {
+      state = { submissions: [], requests: [], failures: [] };
+      scopes.set(scope, state);
+    }
+    return state;
+  };
+
+  const nextFailure = (state: ScopeState): MockFailure | undefined => {
+    const failure = state.failures[0];
+    if (failure && --failure.remaining === 0) {
+      state.failures.shift();
+    }
+    return failure;
+  };
+
+  async function handleForm(req: http.IncomingMessage, res: http.ServerResponse, url: URL, state: ScopeState): Promise<void> {
+    const type = url.searchParams.get('type');
+    const idempotencyKey = req.headers['idempotency-key']?.toString() ?? null;
+    const respond = (status: number, body?: unknown, headers?: Record<string, string>): void => {
+      state.requests.push({ type, idempotencyKey, status });
+      log(`POST ${type ?? '(no type)'} -> ${status}`);
+      send(res, status, body, headers);
+    };
+
+    const failure = nextFailure(state);
+    if (failure?.mode === 'drop') {
+      state.requests.push({ type, idempotencyKey, status: 'dropped' });
+      log(`POST ${type ?? '(no type)'} -> dropped`);
+      req.socket.destroy();
+      return;
+    }
+    if (failure?.mode === '400') {
+      respond(400, failure.body ?? { success: false, error: 'Simulated validation failure' });
+      return;
+    }
+    if (failure?.mode === '429') {
+      respond(429, { success: false, error: 'Too many requests' }, { 'Retry-After': failure.retryAfter ?? DEFAULT_RETRY_AFTER });
+      return;
+    }
+    if (failure?.mode === '500') {
+      respond(500, failure.body ?? { success: false, error: 'Internal server error' });
+      return;
+    }
+    if (failure?.mode === 'slow') {
+      await new Promise((resolve) => setTimeout(resolve, failure.delayMs ?? DEFAULT_SLOW_MS));
+    }
+
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(await readBody(req));
+    } catch {
+      respond(400, { success: false, error: 'Request body must be JSON' });
+      return;
+    }
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+      respond(400, { success: false, error: 'Request body must be a JSON object' });
+      return;
+    }
+
+    const rules = type ? FORM_RULES[type] : undefined;
+    if (!type || !rules) {
+      respond(400, { success: false, error: `Unknown form type: ${type ?? '(none)'}` });
+      return;
+    }
+
+    const errors = validateFields(formFields(payload), rules);
+    if (Object.keys(errors).length > 0) {
+      respond(400, { success: false, message: 'Validation failed', errors });
+      return;
+    }
+
+    // A repeated delivery gets the original submission back
+    const duplicate = idempotencyKey ? state.submissions.find((item) => item.idempotencyKey === idempotencyKey) : undefined;
+    const submission = duplicate ?? {
+      submissionId: `FSM-${randomUUID().slice(0, 8).toUpperCase()}`,
+      type,
+      idempotencyKey,
+      payload,
+      receivedAt: new Date().toISOString(),
+    };
+    if (!duplicate) {
+      state.submissions.push(submission);
+    }
+    respond(200, { success: true, submission_id: submission.submissionId, message: 'Form submitted successfully' });
+  }
+
+  async function handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const scoped = /^\/scopes\/([\w-]+)(\/.*)$/.exec(url.pathname);
+    const scope = scoped ? scoped[1] : DEFAULT_SCOPE;
+    const route = `${req.method} ${scoped ? scoped[2] : url.pathname}`;
+
+    if (req.method === 'OPTIONS') {
+      send(res, 204);
+      return;
+    }
+
+    switch (route) {
+      case 'POST /forms':
+        await handleForm(req, res, url, scopeState(scope));
+        return;
+      case 'GET /__mock/health':
+        send(res, 200, { ok: true });
+        return;
+      case 'GET /__mock/submissions':
+        send(res, 200, scopeState(scope).submissions);
+        return;
+      case 'GET /__mock/requests':
+        send(res, 200, scopeState(scope).requests);
+        return;
+      case 'POST /__mock/failures': {
+        const failure: unknown = JSON.parse((await readBody(req)) || 'null');
+        if (!isFailure(failure)) {
+          send(res, 400, { error: `Expected { mode: ${FAILURE_MODES.join(' | ')}, times?: positive integer }` });
+          return;
+        }
+        scopeState(scope).failures.push({ ...failure, remaining: failure.times ?? 1 });
+        send(res, 201, failure);
+        return;
+      }
+      case 'DELETE /__mock/failures':
+        scopeState(scope).failures = [];
+        send(res, 204);
+        return;
+      case 'DELETE /__mock':
+        scopes.delete(scope);
+        send(res, 204);
+        return;
+      default:
+        send(res, 404, { error: `No route for ${route}` });
+    }
+  }
+
+  return http.createServer((req, res) => {
+    handle(req, res).catch((err) => {
+      if (!res.headersSent) {
+        send(res, 400, { error: err instanceof Error ? err.message : String(err) });
+      }
+    });
+  });
+}
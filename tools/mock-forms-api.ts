@@ -0,0 +1,40 @@
+/**
+ * Runs the mock forms API (tools/mock-api/server.ts) for local development
+ * and Playwright. Build the site against it with
+ * `npm run build -- --env stg --forms-endpoint http://localhost:8787/forms`.
+ *
+ * Usage: npm run mock-api [-- --port 8787]
+ */
+
+import { parseArgs } from 'node:util';
+import { fail, info, success } from './lib/log';
+import { createMockFormsApi, MOCK_API_PORT } from './mock-api/server';
+
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: String(MOCK_API_PORT) },
+    },
+  });
+
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`--port must be a port number, got "${values.port}"`);
+  }
+
+  const server = createMockFormsApi({ log: info });
+  server.on('error', (err) => {
+    fail(err.message);
+    process.exit(1);
+  });
+  server.listen(port, () => {
+    success(`Mock forms API listening on http://localhost:${port}/forms`);
+  });
+}
+
+try {
+  main();
+} catch (err) {
+  fail(err instanceof Error ? err.message : String(err));
+  process.exit(1);
+}
@@ -0,0 +1,137 @@
+/**
+ * Markup of the blog (see tools/lib/blog.ts): the `{{BLOG_POSTS}}` block of
+ * src/pages/blog.html, which the build also renders for every tag and later
+ * page, and the `<main>` of each article. Article bodies are inserted
+ * without re-indenting so preformatted code keeps its whitespace.
+ */
+
+import { BLOG_PAGE, indexLink, Post, PostListing, tagLink } from '../lib/blog';
+import { escapeHtml, indent } from '../lib/html';
+import type { MenuItem, SiteManifest } from '../lib/manifest';
+import { MAIN_ID } from './layout';
+
+const dateFormat = new Intl.DateTimeFormat('en-IN', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+/** `2 September 2026` from `2026-09-02`. */
+export function formatPostDate(date: string): string {
+  return dateFormat.format(new Date(`${date}T00:00:00Z`));
+}
+
+function renderMeta(post: Post): string {
+  const draft = post.draft ? ' <span class="blog-draft">Draft</span>' : '';
+  return `<p class="blog-meta"><time datetime="${post.date}">${formatPostDate(post.date)}</time> · ${post.readingMinutes} min read${draft}</p>`;
+}
+
+function renderTagLinks(tags: string[], className: string, current?: string): string {
+  const items = tags.map((tag) => {
+    const active = tag === current ? ' aria-current="page"' : '';
+    return `<li><a href="${escapeHtml(tagLink(tag))}"${active}>${escapeHtml(tag)}</a></li>`;
+  });
+  return [`<ul class="${className}">`, indent(items.join('\n'), 4), '</ul>'].join('\n');
+}
+
+function renderCard(post: Post): string {
+  return [
+    '<article class="blog-card">',
+    indent(renderMeta(post), 4),
+    `    <h2><a href="${escapeHtml(post.link)}">${escapeHtml(post.title)}</a></h2>`,
+    `    <p>${escapeHtml(post.description)}</p>`,
+    ...(post.tags.length > 0 ? [indent(renderTagLinks(post.tags, 'blog-card-tags'), 4)] : []),
+    '</article>',
+  ].join('\n');
+}
+
+function renderPagination(listing: PostListing): string[] {
+  if (listing.pageCount === 1) {
+    return [];
+  }
+  return [
+    '<nav class="blog-pagination" aria-label="Blog pages">',
+    ...(listing.newer ? [`    <a href="${escapeHtml(listing.newer)}" rel="prev">Newer posts</a>`] : []),
+    `    <span>Page ${listing.page} of ${listing.pageCount}</span>`,
+    ...(listing.older ? [`    <a href="${escapeHtml(listing.older)}" rel="next">Older posts</a>`] : []),
+    '</nav>',
+  ];
+}
+
+/** The `{{BLOG_POSTS}}` block of one listing page; `tags` are every tag in use. */
+export function renderPostListing(listing: PostListing, tags: string[]): string {
+  const filters = [
+    '<nav class="blog-tags" aria-label="Tags">',
+    listing.tag
+      ? `    <p>Posts tagged <strong>${escapeHtml(listing.tag)}</strong> · <a href="${indexLink()}">All posts</a></p>`
+      : '    <p>Browse by tag</p>',
+    indent(renderTagLinks(tags, 'blog-tag-list', listing.tag), 4),
+    '</nav>',
+  ];
+  const posts =
+    listing.posts.length > 0
+      ? ['<div class="blog-grid">', indent(listing.posts.map(renderCard).join('\n'), 4), '</div>']
+      : ['<p class="blog-empty">No posts yet. Check back soon.</p>'];
+
+  return [
+    '<div class="blog-listing">',
+    ...(tags.length > 0 ? [indent(filters.join('\n'), 4)] : []),
+    indent(posts.join('\n'), 4),
+    indent(renderPagination(listing).join('\n'), 4),
+    '</div>',
+  ]
+    .filter((line) => line !== '')
+    .join('\n');
+}
+
+/** The `<main>` of an article page. */
+export function renderArticle(post: Post, manifest: SiteManifest): string {
+  const updated = post.updated
+    ? [`                <p class="blog-updated">Updated <time datetime="${post.updated}">${formatPostDate(post.updated)}</time></p>`]
+    : [];
+
+  return [
+    `    <main id="${MAIN_ID}">`,
+    '        <article class="blog-article">',
+    '            <header class="page-header">',
+    '                <div class="container">',
+    indent(renderMeta(post), 20),
+    `                    <h1>${escapeHtml(post.title)}</h1>`,
+    `                    <p>${escapeHtml(post.description)}</p>`,
+    `                    <p class="blog-author">By ${escapeHtml(post.author ?? manifest.site_title)}</p>`,
+    '                </div>',
+    '            </header>',
+    '            <div class="content-section">',
+    '                <div class="container blog-body">',
+    post.html.trimEnd(),
+    '                </div>',
+    '            </div>',
+    '            <footer class="container blog-article-footer">',
+    ...updated,
+    ...(post.tags.length > 0 ? [indent(renderTagLinks(post.tags, 'blog-card-tags'), 16)] : []),
+    `                <p><a href="${BLOG_PAGE}">← All posts</a></p>`,
+    '            </footer>',
+    '        </article>',
+    '    </main>',
+    '',
+  ].join('\n');
+}
+
+/** Menu item for a tag or later listing page, derived from the blog's own. */
+export function listingPage(blogPage: MenuItem, listing: PostListing): MenuItem {
+  if (listing.link === blogPage.link) {
+    return blogPage;
+  }
+  const label = [listing.tag && `Tagged ${listing.tag}`, listing.page > 1 && `Page ${listing.page}`].filter(Boolean).join(', ');
+  return {
+    text: blogPage.text,
+    link: listing.link,
+    title: `${label} - ${blogPage.title}`,
+    description: listing.tag ? `Articles tagged ${listing.tag}.` : blogPage.description,
+  };
+}
+
+export function articlePage(post: Post, manifest: SiteManifest): MenuItem {
+  return {
+    text: post.title,
+    link: post.link,
+    title: `${post.title} - ${manifest.site_title}`,
+    description: post.description,
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Page sections rendered from the content collections in content/. Page
+ * bodies place them with a block token on its own line, e.g. `{{TESTIMONIALS}}`.
+ */
+
+import type { ContentCollections, Feature, Testimonial, TrustBadge } from '../lib/content';
+import { escapeHtml, indent } from '../lib/html';
+import { FEATURE_ICONS } from './feature-icons';
+import type { TokenValues } from './tokens';
+
+export function renderFeatures(features: Feature[]): string {
+  const cards = features.map((feature) =>
+    [
+      '<div class="feature-card">',
+      '    <div class="feature-icon">',
+      `        <svg xmlns="http://www.w3.org/2000/svg" width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true">${FEATURE_ICONS[feature.icon]}</svg>`,
+      '    </div>',
+      `    <h3>${escapeHtml(feature.title)}</h3>`,
+      `    <p>${escapeHtml(feature.text)}</p>`,
+      '</div>',
+    ].join('\n'),
+  );
+  return ['<div class="features-grid">', indent(cards.join('\n'), 4), '</div>'].join('\n');
+}
+
+export function renderTestimonials(testimonials: Testimonial[]): string {
+  const cards = testimonials.map((testimonial) =>
+    [
+      '<div class="testimonial-card">',
+      '    <div class="testimonial-content">',
+      `        <p>${escapeHtml(testimonial.quote)}</p>`,
+      '    </div>',
+      '    <div class="testimonial-author">',
+      '        <div class="testimonial-avatar">',
+      `            <img src="${escapeHtml(testimonial.avatar)}" alt="${escapeHtml(testimonial.name)}">`,
+      '        </div>',
+      '        <div class="testimonial-info">',
+      `            <h3>${escapeHtml(testimonial.name)}</h3>`,
+      `            <p>${escapeHtml(testimonial.role)}</p>`,
+      '        </div>',
+      '    </div>',
+      '</div>',
+    ].join('\n'),
+  );
+  return ['<div class="testimonial-grid">', indent(cards.join('\n'), 4), '</div>'].join('\n');
+}
+
+export function renderTrustBadges(badges: TrustBadge[]): string {
+  const items = badges.map((badge) =>
+    ['<div class="badge">', `    <img src="${escapeHtml(badge.image)}" alt="${escapeHtml(badge.label)}">`, '</div>'].join('\n'),
+  );
+  return ['<div class="trust-badges">', indent(items.join('\n'), 4), '</div>'].join('\n');
+}
+
+/** Block tokens for replaceBlockTokens(); pricing is rendered by tools/site/pricing.ts. */
+export function collectionBlocks(content: ContentCollections): TokenValues {
+  return {
+    FEATURES: renderFeatures(content.features),
+    TESTIMONIALS: renderTestimonials(content.testimonials),
+    TRUST_BADGES: renderTrustBadges(content.trust_badges),
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Content-Security-Policy and the other security headers the pages carry as
+ * `<meta http-equiv>` tags. The policy is built per environment so that
+ * connect-src and form-action only allow that environment's forms API.
+ */
+
+import type { SiteEnvironment } from '../lib/env-config';
+
+export type CspDirective =
+  | 'default-src'
+  | 'script-src'
+  | 'style-src'
+  | 'font-src'
+  | 'img-src'
+  | 'connect-src'
+  | 'frame-ancestors'
+  | 'base-uri'
+  | 'form-action';
+
+export type CspPolicy = Readonly<Partial<Record<CspDirective, readonly string[]>>>;
+
+/** Serialization order, which keeps the rendered header stable. */
+const DIRECTIVE_ORDER: readonly CspDirective[] = [
+  'default-src',
+  'script-src',
+  'style-src',
+  'font-src',
+  'img-src',
+  'connect-src',
+  'frame-ancestors',
+  'base-uri',
+  'form-action',
+];
+
+const BASE_POLICY: CspPolicy = {
+  'default-src': ["'self'"],
+  'script-src': ["'self'"],
+  'style-src': ["'self'", 'https://fonts.googleapis.com'],
+  'font-src': ["'self'", 'https://fonts.gstatic.com'],
+  'img-src': ["'self'", 'data:', 'https:'],
+  'connect-src': ["'self'"],
+  'frame-ancestors': ["'none'"],
+  'base-uri': ["'self'"],
+  'form-action': ["'self'"],
+};
+
+/**
+ * Headers that must agree with
+ * `aws_cloudfront_response_headers_policy.security_headers` in
+ * terraform/cloudfront.tf, which sends them for every environment.
+ */
+export const SECURITY_HEADERS = {
+  contentTypeOptions: 'nosniff',
+  frameOptions: 'DENY',
+  referrerPolicy: 'strict-origin-when-cross-origin',
+} as const;
+
+export function contentSecurityPolicy(site: SiteEnvironment): CspPolicy {
+  return {
+    ...BASE_POLICY,
+    'connect-src': [...(BASE_POLICY['connect-src'] ?? []), site.formsOrigin],
+    'form-action': [...(BASE_POLICY['form-action'] ?? []), site.formsOrigin],
+  };
+}
+
+export function serializeCsp(policy: CspPolicy): string {
+  return DIRECTIVE_ORDER.filter((directive) => policy[directive])
+    .map((directive) => `${directive} ${policy[directive]?.join(' ')};`)
+    .join(' ');
+}
+
+export function parseCsp(header: string): Record<string, string[]> {
+  const policy: Record<string, string[]> = {};
+  for (const part of header.split(';')) {
+    const [directive, ...sources] = part.trim().split(/\s+/);
+    if (directive) {
+      policy[directive] = sources;
+    }
+  }
+  return policy;
+}
@@ -0,0 +1,11 @@
+/**
+ * Inner SVG markup (24x24, stroked) for the home page feature cards, keyed by
+ * the `icon` of content/features.yaml. A feature cannot use an icon without
+ * an entry here.
+ */
+export const FEATURE_ICONS: Readonly<Record<string, string>> = {
+  monitor: '<rect x="2" y="3" width="20" height="14" rx="2" ry="2"></rect><line x1="8" y1="21" x2="16" y2="21"></line><line x1="12" y1="17" x2="12" y2="21"></line>',
+  clock: '<circle cx="12" cy="12" r="10"></circle><polyline points="12 6 12 12 16 14"></polyline>',
+  shield: '<path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"></path>',
+  'check-square': '<path d="M9 11l3 3L22 4"></path><path d="M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11"></path>',
+};
@@ -0,0 +1,105 @@
+/**
+ * RSS 2.0 and Atom feeds of the blog, with the newest posts first and
+ * absolute links on the environment's canonical host. Dates come from the
+ * posts' front matter, so the feeds are deterministic for a given commit.
+ */
+
+import { BLOG_PAGE, Post } from '../lib/blog';
+import type { SiteEnvironment } from '../lib/env-config';
+import { escapeHtml } from '../lib/html';
+import type { SiteManifest } from '../lib/manifest';
+import { canonicalUrl } from './urls';
+
+export const RSS_FILE = 'feed.xml';
+export const ATOM_FILE = 'atom.xml';
+
+/** Entries in each feed; older posts stay on the blog pages. */
+export const FEED_SIZE = 20;
+
+export interface FeedLink {
+  type: string;
+  title: string;
+  href: string;
+}
+
+/** Feeds advertised with `<link rel="alternate">` on every page. */
+export function feedLinks(manifest: SiteManifest): FeedLink[] {
+  return [
+    { type: 'application/rss+xml', title: `${manifest.site_title} Blog (RSS)`, href: RSS_FILE },
+    { type: 'application/atom+xml', title: `${manifest.site_title} Blog (Atom)`, href: ATOM_FILE },
+  ];
+}
+
+function timestamp(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+/** Date of the newest change to any post, or `fallback` without posts. */
+export function feedUpdated(posts: Post[], fallback: string): string {
+  const dates = posts.map((post) => post.updated ?? post.date).sort();
+  return dates.at(-1) ?? fallback;
+}
+
+export function renderRssFeed(manifest: SiteManifest, site: SiteEnvironment, posts: Post[], lastModified: string): string {
+  const items = posts.slice(0, FEED_SIZE).map((post) => {
+    const url = escapeHtml(canonicalUrl(site, post.link));
+    return [
+      '    <item>',
+      `      <title>${escapeHtml(post.title)}</title>`,
+      `      <link>${url}</link>`,
+      `      <guid isPermaLink="true">${url}</guid>`,
+      `      <pubDate>${timestamp(post.date).toUTCString()}</pubDate>`,
+      `      <description>${escapeHtml(post.description)}</description>`,
+      ...post.tags.map((tag) => `      <category>${escapeHtml(tag)}</category>`),
+      '    </item>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeHtml(manifest.site_title)} Blog</title>`,
+    `    <link>${escapeHtml(canonicalUrl(site, BLOG_PAGE))}</link>`,
+    `    <description>${escapeHtml(manifest.header)}</description>`,
+    '    <language>en</language>',
+    `    <lastBuildDate>${timestamp(feedUpdated(posts, lastModified)).toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeHtml(canonicalUrl(site, RSS_FILE))}" rel="self" type="application/rss+xml"/>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+export function renderAtomFeed(manifest: SiteManifest, site: SiteEnvironment, posts: Post[], lastModified: string): string {
+  const entries = posts.slice(0, FEED_SIZE).map((post) => {
+    const url = escapeHtml(canonicalUrl(site, post.link));
+    return [
+      '  <entry>',
+      `    <title>${escapeHtml(post.title)}</title>`,
+      `    <link href="${url}"/>`,
+      `    <id>${url}</id>`,
+      `    <published>${post.date}T00:00:00Z</published>`,
+      `    <updated>${post.updated ?? post.date}T00:00:00Z</updated>`,
+      `    <author><name>${escapeHtml(post.author ?? manifest.site_title)}</name></author>`,
+      `    <summary>${escapeHtml(post.description)}</summary>`,
+      ...post.tags.map((tag) => `    <category term="${escapeHtml(tag)}"/>`),
+      '  </entry>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeHtml(manifest.site_title)} Blog</title>`,
+    `  <subtitle>${escapeHtml(manifest.header)}</subtitle>`,
+    `  <link href="${escapeHtml(canonicalUrl(site, BLOG_PAGE))}"/>`,
+    `  <link href="${escapeHtml(canonicalUrl(site, ATOM_FILE))}" rel="self"/>`,
+    `  <id>${escapeHtml(canonicalUrl(site, BLOG_PAGE))}</id>`,
+    `  <updated>${feedUpdated(posts, lastModified)}T00:00:00Z</updated>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
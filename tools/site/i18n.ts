@@ -0,0 +1,192 @@
+/**
+ * Translated pages. The build renders each page in English and then swaps
+ * its copy for the locale's from content/locales/: every text node and the
+ * human-readable attributes, keyed by the English with whitespace
+ * collapsed. Scripts, styles and elements marked `translate="no"` are left
+ * alone, as is text without letters, such as prices and email addresses;
+ * of the JSON-LD, only names and descriptions are translated.
+ * Translated pages live in a directory per locale, so links to anything
+ * that is not translated with them gain a `../`.
+ */
+
+import { BLOG_PAGE } from '../lib/blog';
+import type { SiteEnvironment } from '../lib/env-config';
+import { escapeHtml, indent, scriptJson, unescapeHtml } from '../lib/html';
+import { Locale, LOCALE_NAMES, localePath, LOCALES, SOURCE_LOCALE } from '../lib/i18n';
+import type { MenuItem, SiteManifest } from '../lib/manifest';
+import { PAGE_MESSAGES_ID } from '../../src/ts/messages';
+import { canonicalUrl, HOME_PAGE } from './urls';
+
+const TRANSLATED_ATTRIBUTES = new Set(['alt', 'title', 'placeholder', 'aria-label', 'data-success-message']);
+
+/** `<meta>` tags whose `content` is page copy, by name or property. */
+const TRANSLATED_META = new Set(['description', 'og:title', 'og:description', 'twitter:title', 'twitter:description']);
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+// Comments and doctype, script and style elements whole, tags, and text
+const TOKEN = /<!--[\s\S]*?-->|<![^>]*>|<(script|style)\b[^>]*>[\s\S]*?<\/\1>|<(\/?)([a-zA-Z][\w-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|[^<]+/g;
+const ATTRIBUTE = /(\s)([\w:-]+)="([^"]*)"/g;
+const LINK_ATTRIBUTE = /(\s(?:href|src)=")([^"]*)"/g;
+const NOT_COPY = /^(?:[\w.+-]+@[\w-]+(?:\.[\w-]+)+|https?:\/\/\S+)$/;
+const JSON_LD = /(<script type="application\/ld\+json">)([\s\S]*?)(<\/script>)/g;
+const JSON_LD_COPY = /("(?:name|description)":\s*)("(?:[^"\\]|\\.)*")/g;
+
+/** The text as catalogs key it, or undefined when it is not copy. */
+function copyOf(raw: string): string | undefined {
+  const text = unescapeHtml(raw).replace(/\s+/g, ' ').trim();
+  return /\p{L}/u.test(text) && !NOT_COPY.test(text) ? text : undefined;
+}
+
+function attributes(tag: string): Map<string, string> {
+  return new Map(Array.from(tag.matchAll(ATTRIBUTE), (match) => [match[2], match[3]]));
+}
+
+/**
+ * Calls `translate` with every piece of copy in `html` and replaces it with
+ * the result, unless that is undefined.
+ */
+function mapCopy(html: string, translate: (text: string) => string | undefined): string {
+  // The element that turned translation off, and how deep inside it we are
+  let skipping: { name: string; depth: number } | undefined;
+
+  return html.replace(TOKEN, (token, _raw, closing: string | undefined, name: string | undefined, attrs: string | undefined) => {
+    if (name === undefined) {
+      if (token.startsWith('<') || skipping) {
+        return token;
+      }
+      const text = copyOf(token);
+      const translation = text && translate(text);
+      return translation ? token.replace(/^(\s*)[\s\S]*?(\s*)$/, (_, lead: string, trail: string) => `${lead}${escapeHtml(translation)}${trail}`) : token;
+    }
+
+    const element = name.toLowerCase();
+    if (skipping) {
+      if (element === skipping.name && !VOID_ELEMENTS.has(element)) {
+        skipping.depth += closing ? -1 : 1;
+        if (skipping.depth === 0) {
+          skipping = undefined;
+        }
+      }
+      return token;
+    }
+    if (closing) {
+      return token;
+    }
+
+    const values = attributes(attrs!);
+    if (values.get('translate') === 'no') {
+      if (!VOID_ELEMENTS.has(element) && !token.endsWith('/>')) {
+        skipping = { name: element, depth: 1 };
+      }
+      return token;
+    }
+    const meta = element === 'meta' && TRANSLATED_META.has(values.get('name') ?? values.get('property') ?? '');
+
+    return token.replace(ATTRIBUTE, (attribute, space: string, key: string, value: string) => {
+      if (!TRANSLATED_ATTRIBUTES.has(key) && !(meta && key === 'content')) {
+        return attribute;
+      }
+      const text = copyOf(value);
+      const translation = text && translate(text);
+      return translation ? `${space}${key}="${escapeHtml(translation)}"` : attribute;
+    });
+  });
+}
+
+/** Every piece of copy in a rendered page, in order and without repeats. */
+export function extractStrings(html: string): string[] {
+  const strings = new Set<string>();
+  mapCopy(html, (text) => {
+    strings.add(text);
+    return undefined;
+  });
+  return Array.from(strings);
+}
+
+/** Replaces the page's copy with `strings`, keyed by the English; unknown copy stays English. */
+export function translateHtml(html: string, strings: Readonly<Record<string, string>>): string {
+  const translated = mapCopy(html, (text) => strings[text]);
+  return translated.replace(JSON_LD, (_, open: string, json: string, close: string) => {
+    const copy = json.replace(JSON_LD_COPY, (entry, key: string, value: string) => {
+      const translation = strings[JSON.parse(value) as string];
+      return translation ? `${key}${scriptJson(translation)}` : entry;
+    });
+    return `${open}${copy}${close}`;
+  });
+}
+
+/**
+ * Points the relative links of a page moved into a locale's directory back
+ * at the site root, except those to `translated` pages, which sit next to
+ * it. The language switcher's links (`data-locale`) are already relative to
+ * the page.
+ */
+export function localizeLinks(html: string, translated: ReadonlySet<string>): string {
+  const relink = (tag: string): string => {
+    if (tag.startsWith('</') || / data-locale="/.test(tag)) {
+      return tag;
+    }
+    return tag.replace(LINK_ATTRIBUTE, (attribute, start: string, value: string) => {
+      const target = value.split(/[?#]/)[0];
+      if (target === '' || value.startsWith('/') || /^[a-z][a-z\d+.-]*:/i.test(value) || translated.has(target)) {
+        return attribute;
+      }
+      return `${start}../${value}"`;
+    });
+  };
+
+  // Script elements are one token; only their opening tag can hold a link
+  return html.replace(TOKEN, (token) => (token.startsWith('<') ? token.replace(/^<[^>]*>/, relink) : token));
+}
+
+/** Menu pages published in every locale; the blog is written in English only. */
+export function translatedPages(manifest: SiteManifest): MenuItem[] {
+  return manifest.menu_items.filter((item) => item.link !== BLOG_PAGE);
+}
+
+/** A translated page's path in each locale, for PageContext.translations. */
+export function pageTranslations(link: string): Record<Locale, string> {
+  return Object.fromEntries(LOCALES.map((locale) => [locale, localePath(locale, link)])) as Record<Locale, string>;
+}
+
+/**
+ * `<link rel="alternate" hreflang>` for each version of a page, with the
+ * English one as `x-default`; none for pages in one language only.
+ */
+export function renderAlternateLinks(site: SiteEnvironment, translations: Partial<Record<Locale, string>>): string[] {
+  const versions = LOCALES.filter((locale) => translations[locale] !== undefined);
+  if (versions.length < 2) {
+    return [];
+  }
+  const link = (hreflang: string, path: string) => `<link rel="alternate" hreflang="${hreflang}" href="${escapeHtml(canonicalUrl(site, path))}">`;
+  return [...versions.map((locale) => link(locale, translations[locale]!)), link('x-default', translations[SOURCE_LOCALE] ?? HOME_PAGE)];
+}
+
+/**
+ * Header menu entry linking this page in every locale, or the locale's
+ * home page where it has no translation. Links to translations carry
+ * `hreflang`, which src/ts/language.ts relies on.
+ */
+export function renderLanguageSwitcher(locale: Locale, translations: Partial<Record<Locale, string>>): string {
+  // Paths are from the site root; the page itself may be in a locale directory
+  const fromPage = (path: string) => (locale === SOURCE_LOCALE ? path : `../${path}`);
+
+  const links = LOCALES.map((target) => {
+    const translation = translations[target];
+    const href = fromPage(translation ?? localePath(target, HOME_PAGE));
+    const hreflang = translation ? ` hreflang="${target}"` : '';
+    const current = target === locale ? ' aria-current="true"' : '';
+    return `<li><a href="${escapeHtml(href)}"${hreflang} lang="${target}" data-locale="${target}" translate="no"${current}>${LOCALE_NAMES[target]}</a></li>`;
+  });
+
+  return ['<li class="language-switcher">', '    <ul aria-label="Language">', indent(links.join('\n'), 8), '    </ul>', '</li>'].join('\n');
+}
+
+/**
+ * The script messages of a translated page, read by src/ts/messages.ts.
+ * `<` is escaped so no message can close the script element.
+ */
+export function renderPageMessages(messages: Readonly<Record<string, string>>): string {
+  return `<script type="application/json" id="${PAGE_MESSAGES_ID}">${scriptJson(messages)}</script>`;
+}
@@ -0,0 +1,297 @@
+/**
+ * Shared page layout rendered from manifest.yaml: document head, header
+ * navigation and footer. Page bodies in src/pages/ only contain `<main>`.
+ */
+
+import { BLOG_PAGE } from '../lib/blog';
+import type { SiteEnvironment } from '../lib/env-config';
+import type { AssetPaths } from '../lib/fingerprint';
+import { escapeHtml, indent } from '../lib/html';
+import { Locale, localePath, SOURCE_LOCALE } from '../lib/i18n';
+import type { Address, MenuItem, SiteManifest } from '../lib/manifest';
+import { contentSecurityPolicy, SECURITY_HEADERS, serializeCsp } from './csp';
+import { feedLinks } from './feeds';
+import { renderAlternateLinks, renderLanguageSwitcher, renderPageMessages } from './i18n';
+import { SOCIAL_ICON_PATHS } from './social-icons';
+import { renderStructuredData } from './structured-data';
+import { canonicalUrl, HOME_PAGE } from './urls';
+
+/** Target of the skip link; every page body's `<main>` carries this id. */
+export const MAIN_ID = 'main';
+const NAV_MENU_ID = 'navMenu';
+
+const LOGO = '<a href="index.html" class="logo" translate="no"><img src="images/logos/logo3-hexagon.svg" alt="GadgetCloud" height="52"></a>';
+
+export interface PageContext {
+  manifest: SiteManifest;
+  site: SiteEnvironment;
+  page: MenuItem;
+  /** Menu item marked active in the header; defaults to the page itself. */
+  activeLink?: string;
+  /** Footer version string, see formatVersionString(). */
+  versionString: string;
+  /** Fingerprinted stylesheet and script. */
+  assets: AssetPaths;
+  /** Language of the page; defaults to English. */
+  locale?: Locale;
+  /** Path of the page in each locale it is published in, see pageTranslations(). */
+  translations?: Partial<Record<Locale, string>>;
+  /** Script messages of a translated page, see src/ts/messages.ts. */
+  messages?: Readonly<Record<string, string>>;
+}
+
+export function findPage(manifest: SiteManifest, link: string): MenuItem | undefined {
+  return manifest.menu_items.find((item) => item.link === link);
+}
+
+/** Where the page is published: its link, under the locale's directory when translated. */
+export function pagePath(context: PageContext): string {
+  return localePath(context.locale ?? SOURCE_LOCALE, context.page.link);
+}
+
+/**
+ * `@handle` of the manifest's Twitter link, used as twitter:site.
+ */
+export function twitterHandle(manifest: SiteManifest): string | undefined {
+  const link = manifest.social_links.find((item) => item.platform === 'Twitter');
+  const handle = link ? new URL(link.url).pathname.split('/')[1] : '';
+  return handle ? `@${handle}` : undefined;
+}
+
+/**
+ * Open Graph and Twitter card tags, so shared links render as a preview
+ * with the page title, description and the manifest's share_image.
+ */
+export function renderShareTags(context: PageContext): string[] {
+  const { manifest, page, site } = context;
+  const image = manifest.share_image ? `${site.siteUrl}${manifest.share_image}` : undefined;
+  const handle = twitterHandle(manifest);
+
+  const tags: Array<[string, string, string | undefined]> = [
+    ['property', 'og:type', 'website'],
+    ['property', 'og:site_name', manifest.site_title],
+    ['property', 'og:title', page.title],
+    ['property', 'og:description', page.description],
+    ['property', 'og:url', canonicalUrl(site, pagePath(context))],
+    ['property', 'og:image', image],
+    ['property', 'og:image:alt', image && manifest.site_title],
+    ['name', 'twitter:card', image ? 'summary_large_image' : 'summary'],
+    ['name', 'twitter:site', handle],
+    ['name', 'twitter:title', page.title],
+    ['name', 'twitter:description', page.description],
+    ['name', 'twitter:image', image],
+  ];
+
+  return tags
+    .filter((tag): tag is [string, string, string] => tag[2] !== undefined)
+    .map(([attribute, name, content]) => `<meta ${attribute}="${name}" content="${escapeHtml(content)}">`);
+}
+
+export function renderHead(context: PageContext): string {
+  const { manifest, page, site } = context;
+  const structuredData = renderStructuredData(manifest, site, page, context.locale);
+  // The blog's feeds are advertised site-wide once it is in the menu
+  const feeds = findPage(manifest, BLOG_PAGE)
+    ? feedLinks(manifest).map((feed) => `    <link rel="alternate" type="${feed.type}" title="${escapeHtml(feed.title)}" href="${feed.href}">`)
+    : [];
+  return [
+    '<head>',
+    '    <meta charset="UTF-8">',
+    '    <meta name="viewport" content="width=device-width, initial-scale=1.0">',
+    `    <meta http-equiv="Content-Security-Policy" content="${serializeCsp(contentSecurityPolicy(site))}">`,
+    `    <meta http-equiv="X-Content-Type-Options" content="${SECURITY_HEADERS.contentTypeOptions}">`,
+    `    <meta http-equiv="X-Frame-Options" content="${SECURITY_HEADERS.frameOptions}">`,
+    `    <meta name="referrer" content="${SECURITY_HEADERS.referrerPolicy}">`,
+    `    <meta name="description" content="${escapeHtml(page.description)}">`,
+    ...(site.indexable ? [] : ['    <meta name="robots" content="noindex, nofollow">']),
+    `    <meta name="forms-api-endpoint" content="${escapeHtml(site.formsEndpoint)}">`,
+    `    <title>${escapeHtml(page.title)}</title>`,
+    `    <link rel="canonical" href="${escapeHtml(canonicalUrl(site, pagePath(context)))}">`,
+    ...renderAlternateLinks(site, context.translations ?? {}).map((link) => `    ${link}`),
+    ...renderShareTags(context).map((tag) => `    ${tag}`),
+    ...feeds,
+    '    <link rel="icon" type="image/svg+xml" href="images/favicon.svg">',
+    `    <link rel="stylesheet" href="${context.assets.styles}">`,
+    '    <link rel="preconnect" href="https://fonts.googleapis.com">',
+    '    <link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>',
+    '    <link href="https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&display=swap" rel="stylesheet">',
+    ...(structuredData ? [indent(structuredData, 4)] : []),
+    '</head>',
+  ].join('\n');
+}
+
+/** `languages` is the switcher's menu entry, see renderLanguageSwitcher(). */
+export function renderHeader(manifest: SiteManifest, activeLink: string, languages?: string): string {
+  const menuItems = manifest.menu_items.map((item) => {
+    const active = item.link === activeLink ? ' class="active"' : '';
+    return `<li><a href="${escapeHtml(item.link)}"${active}>${escapeHtml(item.text)}</a></li>`;
+  });
+  if (languages) {
+    menuItems.push(languages);
+  }
+  menuItems.push(
+    `<li><a href="${escapeHtml(manifest.sign_in.url)}" class="btn btn-primary">${escapeHtml(manifest.sign_in.text)}</a></li>`,
+  );
+
+  return [
+    `<a href="#${MAIN_ID}" class="skip-link">Skip to content</a>`,
+    '<header class="header">',
+    '    <nav class="nav container" aria-label="Main">',
+    `        ${LOGO}`,
+    `        <button type="button" class="nav-toggle" aria-label="Toggle navigation" aria-expanded="false" aria-controls="${NAV_MENU_ID}">`,
+    '            <span></span>',
+    '            <span></span>',
+    '            <span></span>',
+    '        </button>',
+    `        <ul class="nav-menu" id="${NAV_MENU_ID}">`,
+    indent(menuItems.join('\n'), 12),
+    '        </ul>',
+    '    </nav>',
+    '</header>',
+  ].join('\n');
+}
+
+const regionNames = new Intl.DisplayNames(['en'], { type: 'region' });
+
+/**
+ * Footer address block, e.g. `Kakinada, AP 533001<br>India`.
+ */
+export function formatAddress(address: Address): string {
+  const locality = `${escapeHtml(address.city)}, ${escapeHtml(address.state)} ${escapeHtml(address.zip)}`;
+  const lines = address.street ? [escapeHtml(address.street), locality] : [locality];
+  lines.push(escapeHtml(regionNames.of(address.country) ?? address.country));
+  return lines.join('<br>');
+}
+
+const NEWSLETTER_FORM = [
+  '<div class="footer-newsletter">',
+  '    <h2>Newsletter</h2>',
+  '    <p>Product updates and coverage tips, once a month.</p>',
+  '    <form id="newsletterForm" class="newsletter-form" data-form="newsletter" data-success-message="Thanks for subscribing!">',
+  '        <label for="newsletterEmail" class="sr-only">Email Address</label>',
+  '        <input type="email" id="newsletterEmail" name="email" required placeholder="you@example.com" maxlength="255">',
+  '        <input type="text" name="_gotcha" class="honeypot" tabindex="-1" autocomplete="off" aria-hidden="true">',
+  '        <button type="submit" class="btn btn-primary">Subscribe</button>',
+  '        <div id="newsletterStatus" class="form-status" data-form-status role="status" aria-live="polite"></div>',
+  '    </form>',
+  '</div>',
+].join('\n');
+
+/** Shown by src/ts/consent-banner.ts until the visitor makes a choice. */
+const CONSENT_BANNER = [
+  '<section id="consentBanner" class="consent-banner" aria-labelledby="consentTitle" hidden>',
+  '    <form id="consentForm" class="consent-form container">',
+  '        <div class="consent-text">',
+  '            <h2 id="consentTitle">Your privacy choices</h2>',
+  '            <p>We store only what the forms need to work unless you allow more. Analytics helps us improve the site; marketing records which campaign brought you here.</p>',
+  '        </div>',
+  '        <fieldset id="consentPreferences" class="consent-preferences" hidden>',
+  '            <legend class="sr-only">Privacy categories</legend>',
+  '            <label><input type="checkbox" name="essential" checked disabled> Essential <span>Form delivery and spam protection. Always on.</span></label>',
+  '            <label><input type="checkbox" name="analytics"> Analytics <span>Anonymous usage statistics.</span></label>',
+  '            <label><input type="checkbox" name="marketing"> Marketing <span>Campaign and referral attribution.</span></label>',
+  '        </fieldset>',
+  '        <div class="consent-actions">',
+  '            <button type="button" class="btn btn-secondary" data-consent-action="reject">Reject optional</button>',
+  '            <button type="button" class="btn btn-secondary" data-consent-action="customize" aria-expanded="false" aria-controls="consentPreferences">Preferences</button>',
+  '            <button type="submit" class="btn btn-secondary" data-consent-action="save" hidden>Save choices</button>',
+  '            <button type="button" class="btn btn-primary" data-consent-action="accept">Accept all</button>',
+  '        </div>',
+  '    </form>',
+  '</section>',
+].join('\n');
+
+function renderSocialLinks(manifest: SiteManifest): string {
+  return manifest.social_links
+    .map((link) => {
+      const iconPath = SOCIAL_ICON_PATHS[link.platform];
+      if (!iconPath) {
+        throw new Error(`No icon for social platform "${link.platform}"`);
+      }
+      return [
+        `<a href="${escapeHtml(link.url)}" target="_blank" rel="noopener noreferrer" aria-label="${escapeHtml(link.platform)}" translate="no">`,
+        `    <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor"><path d="${iconPath}"/></svg>`,
+        '</a>',
+      ].join('\n');
+    })
+    .join('\n');
+}
+
+export function renderFooter(manifest: SiteManifest, versionString: string): string {
+  // The logo already links home, so Quick Links leaves the home page out
+  const quickLinks = manifest.menu_items
+    .filter((item) => item.link !== HOME_PAGE)
+    .map((item) => `<li><a href="${escapeHtml(item.link)}">${escapeHtml(item.footer_text ?? item.text)}</a></li>`);
+
+  const blocks = [
+    '<div class="footer-brand">',
+    `    ${LOGO}`,
+    `    <p>${escapeHtml(manifest.header)}</p>`,
+    '</div>',
+    '<div class="footer-links">',
+    '    <h2>Quick Links</h2>',
+    '    <ul>',
+    indent(quickLinks.join('\n'), 8),
+    '    </ul>',
+    '</div>',
+    '<div class="footer-contact">',
+    '    <h2>Contact</h2>',
+    `    <p>${formatAddress(manifest.address)}</p>`,
+    '</div>',
+    NEWSLETTER_FORM,
+  ];
+
+  if (manifest.social_links.length > 0) {
+    blocks.push(
+      '<div class="footer-social">',
+      '    <h2>Follow Us</h2>',
+      '    <div class="social-links">',
+      indent(renderSocialLinks(manifest), 8),
+      '    </div>',
+      '</div>',
+    );
+  }
+
+  return [
+    '<footer class="footer">',
+    '    <div class="container">',
+    '        <div class="footer-content">',
+    indent(blocks.join('\n'), 12),
+    '        </div>',
+    '        <div class="footer-bottom">',
+    `            <p>${escapeHtml(manifest.footer)}</p>`,
+    '            <button type="button" class="link-button" data-consent-open aria-controls="consentBanner">Privacy choices</button>',
+    '        </div>',
+    '    </div>',
+    `    <div class="version-info" translate="no">${escapeHtml(versionString)}</div>`,
+    '</footer>',
+  ].join('\n');
+}
+
+/**
+ * Wraps a page's `<main>` content in the full document.
+ */
+export function renderPage(context: PageContext, content: string): string {
+  const locale = context.locale ?? SOURCE_LOCALE;
+  // Pages in English only offer the other locales' home pages
+  const languages = renderLanguageSwitcher(locale, context.translations ?? { [SOURCE_LOCALE]: context.page.link });
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${locale}">`,
+    renderHead(context),
+    '<body>',
+    indent(renderHeader(context.manifest, context.activeLink ?? context.page.link, languages), 4),
+    '',
+    content.trimEnd(),
+    '',
+    indent(renderFooter(context.manifest, context.versionString), 4),
+    '',
+    indent(CONSENT_BANNER, 4),
+    '',
+    ...(context.messages ? [`    ${renderPageMessages(context.messages)}`] : []),
+    `    <script src="${context.assets.script}"></script>`,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
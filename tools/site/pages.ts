@@ -0,0 +1,31 @@
+/**
+ * Menu pages: a src/pages/ body with its block and environment tokens
+ * filled in, wrapped in the shared layout. The build renders each page in
+ * English and again for every locale it is translated to.
+ */
+
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { PAGES_DIR } from '../lib/paths';
+import { PageContext, renderPage } from './layout';
+import { PlanCatalog, renderPricing } from './pricing';
+import { replaceBlockTokens, replaceTokens, TokenValues } from './tokens';
+
+/** What menu pages are rendered from besides their body. */
+export interface PageSources {
+  /** Block tokens any page may use, such as collectionBlocks(). */
+  blocks: TokenValues;
+  /** Renders `{{PRICING}}`. */
+  catalog: PlanCatalog;
+  /** Environment tokens, see environmentTokens(). */
+  tokens: TokenValues;
+}
+
+export function readPageBody(link: string): Promise<string> {
+  return readFile(path.join(PAGES_DIR, link), 'utf8');
+}
+
+export function renderMenuPage(context: PageContext, body: string, sources: PageSources): string {
+  const blocks = { ...sources.blocks, PRICING: renderPricing(sources.catalog, context.page.link) };
+  return renderPage(context, replaceTokens(replaceBlockTokens(body, blocks), sources.tokens));
+}
@@ -0,0 +1,185 @@
+/**
+ * The plan catalog behind the products page pricing, and its markup: the
+ * manifest.yaml plans with their card from content/pricing-tiers.yaml and
+ * their column of content/plan-features.yaml. Cards show monthly prices in
+ * the first currency and carry every price for src/ts/pricing.ts to switch
+ * between. Pages place the section with `{{PRICING}}`.
+ */
+
+import type { ContentCollections } from '../lib/content';
+import { escapeHtml, indent } from '../lib/html';
+import type { Plan, SiteManifest } from '../lib/manifest';
+import { annualSavingsPercent, formatPrice, periodLabel, PlanPrices, signupUrl } from '../../src/ts/pricing';
+
+export interface CatalogPlan {
+  name: string;
+  /** `plan` parameter of the signup link, e.g. `pro`. */
+  id: string;
+  title: string;
+  summary: string;
+  highlight: boolean;
+  /** Missing for plans that are quoted. */
+  prices?: PlanPrices;
+  cta: {
+    text: string;
+    /** signup_url for priced plans, the quote_link otherwise. */
+    link: string;
+  };
+}
+
+export interface CatalogFeature {
+  feature: string;
+  /** One value per catalog plan, in order; false when not included. */
+  values: Array<boolean | string>;
+}
+
+export interface PlanCatalog {
+  /** Currencies of the priced plans, the one shown first first. */
+  currencies: string[];
+  plans: CatalogPlan[];
+  features: CatalogFeature[];
+}
+
+function planPrices(plan: Plan): PlanPrices | undefined {
+  if (!plan.price) {
+    return undefined;
+  }
+  const twelveMonths = Object.fromEntries(Object.entries(plan.price).map(([currency, price]) => [currency, price * 12]));
+  return { monthly: plan.price, annual: plan.annual_price ?? twelveMonths };
+}
+
+/**
+ * Joins the manifest plans with their content, in the order of the pricing
+ * tiers. Both files are validated, so every tier has a plan.
+ */
+export function planCatalog(manifest: SiteManifest, content: Pick<ContentCollections, 'pricing_tiers' | 'plan_features'>): PlanCatalog {
+  const plans = content.pricing_tiers.map((tier): CatalogPlan => {
+    const plan = manifest.plans!.find((candidate) => candidate.name === tier.plan)!;
+    return {
+      name: plan.name,
+      id: plan.name.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+      title: tier.title ?? plan.name,
+      summary: tier.summary,
+      highlight: tier.highlight ?? false,
+      prices: planPrices(plan),
+      cta: { text: tier.cta, link: plan.price ? manifest.signup_url! : plan.quote_link! },
+    };
+  });
+
+  return {
+    currencies: Object.keys(plans.find((plan) => plan.prices)?.prices?.monthly ?? {}),
+    plans,
+    features: content.plan_features.map((row) => ({
+      feature: row.feature,
+      values: plans.map((plan) => row.plans[plan.name] ?? false),
+    })),
+  };
+}
+
+function renderControls(catalog: PlanCatalog): string {
+  const [first] = catalog.currencies;
+  const percents = catalog.plans.flatMap((plan) =>
+    plan.prices ? catalog.currencies.map((currency) => annualSavingsPercent(plan.prices!, currency)) : [],
+  );
+  const bestSavings = Math.max(0, ...percents);
+  const toggle = (label: string, buttons: string[]) =>
+    [`<div class="pricing-toggle" role="group" aria-label="${label}">`, indent(buttons.join('\n'), 4), '</div>'].join('\n');
+
+  return [
+    '<div class="pricing-controls" hidden>',
+    indent(
+      [
+        toggle('Billing period', [
+          '<button type="button" data-billing="monthly" aria-pressed="true">Monthly</button>',
+          `<button type="button" data-billing="annual" aria-pressed="false">Annual${bestSavings > 0 ? ` <span class="pricing-toggle-note">save up to ${bestSavings}%</span>` : ''}</button>`,
+        ]),
+        toggle(
+          'Currency',
+          catalog.currencies.map(
+            (currency) => `<button type="button" data-currency="${escapeHtml(currency)}" aria-pressed="${currency === first}" translate="no">${escapeHtml(currency)}</button>`,
+          ),
+        ),
+      ].join('\n'),
+      4,
+    ),
+    '</div>',
+  ].join('\n');
+}
+
+function renderCard(plan: CatalogPlan, currency: string, pageLink: string): string {
+  const classes = plan.highlight ? 'pricing-card featured' : 'pricing-card';
+  const lines: string[] = [];
+
+  if (plan.prices) {
+    const link = signupUrl(plan.cta.link, { plan: plan.id, billing: 'monthly', currency });
+    lines.push(
+      `<div class="${classes}" data-prices="${escapeHtml(JSON.stringify(plan.prices))}">`,
+      ...(plan.highlight ? ['    <p class="pricing-badge">Most popular</p>'] : []),
+      `    <h3>${escapeHtml(plan.title)}</h3>`,
+      `    <p class="pricing-price"><span class="pricing-amount">${escapeHtml(formatPrice(plan.prices.monthly[currency], currency))}</span> <span class="pricing-period">${periodLabel('monthly')}</span></p>`,
+      '    <p class="pricing-savings" hidden></p>',
+      `    <p>${escapeHtml(plan.summary)}</p>`,
+      `    <a href="${escapeHtml(link)}" class="btn ${plan.highlight ? 'btn-primary' : 'btn-secondary'}" data-signup="${escapeHtml(plan.cta.link)}" data-plan="${escapeHtml(plan.id)}">${escapeHtml(plan.cta.text)}</a>`,
+    );
+  } else {
+    // A quote form on this page is opened in place
+    const [page, anchor] = plan.cta.link.split('#');
+    const quote = page === pageLink ? ` data-quote aria-controls="${escapeHtml(anchor)}" aria-expanded="true"` : '';
+    lines.push(
+      `<div class="${classes}">`,
+      ...(plan.highlight ? ['    <p class="pricing-badge">Most popular</p>'] : []),
+      `    <h3>${escapeHtml(plan.title)}</h3>`,
+      '    <p class="pricing-price"><span class="pricing-amount">Custom pricing</span></p>',
+      `    <p>${escapeHtml(plan.summary)}</p>`,
+      `    <a href="${escapeHtml(quote ? `#${anchor}` : plan.cta.link)}" class="btn btn-secondary"${quote}>${escapeHtml(plan.cta.text)}</a>`,
+    );
+  }
+  lines.push('</div>');
+  return lines.join('\n');
+}
+
+function renderCell(value: boolean | string): string {
+  if (typeof value === 'string') {
+    return `<td>${escapeHtml(value)}</td>`;
+  }
+  return value
+    ? '<td><span class="pricing-check" aria-hidden="true">✓</span><span class="sr-only">Included</span></td>'
+    : '<td><span aria-hidden="true">–</span><span class="sr-only">Not included</span></td>';
+}
+
+function renderComparison(catalog: PlanCatalog): string {
+  const header = ['<th scope="col">Feature</th>', ...catalog.plans.map((plan) => `<th scope="col">${escapeHtml(plan.name)}</th>`)];
+  const rows = catalog.features.map((row) =>
+    ['<tr>', `    <th scope="row">${escapeHtml(row.feature)}</th>`, indent(row.values.map(renderCell).join('\n'), 4), '</tr>'].join('\n'),
+  );
+
+  return [
+    '<div class="pricing-table-wrapper">',
+    '    <table class="pricing-table">',
+    '        <caption>Compare plans</caption>',
+    '        <thead>',
+    '            <tr>',
+    indent(header.join('\n'), 16),
+    '            </tr>',
+    '        </thead>',
+    '        <tbody>',
+    indent(rows.join('\n'), 12),
+    '        </tbody>',
+    '    </table>',
+    '</div>',
+  ].join('\n');
+}
+
+/** The `{{PRICING}}` section of the page `pageLink`. */
+export function renderPricing(catalog: PlanCatalog, pageLink: string): string {
+  const [currency] = catalog.currencies;
+  return [
+    '<div class="pricing" data-pricing>',
+    indent(renderControls(catalog), 4),
+    '    <div class="pricing-grid">',
+    indent(catalog.plans.map((plan) => renderCard(plan, currency, pageLink)).join('\n'), 8),
+    '    </div>',
+    indent(renderComparison(catalog), 4),
+    '</div>',
+  ].join('\n');
+}
@@ -0,0 +1,25 @@
+/**
+ * `/version.json`: which build is live. Post-deploy smoke tests
+ * (tests/release.spec.ts) compare it with the expected build, and the deploy
+ * tool files each release under its build id.
+ */
+
+import type { BuildInfo } from '../lib/build-info';
+import type { Environment } from '../lib/env-config';
+
+export const VERSION_FILE = 'version.json';
+
+export interface ReleaseInfo extends BuildInfo {
+  env: Environment;
+  /** Content hash (tools/lib/fingerprint.ts contentHash) of every other file in the build, by path. */
+  files: Record<string, string>;
+}
+
+export function createReleaseInfo(buildInfo: BuildInfo, env: Environment, files: Record<string, string>): ReleaseInfo {
+  const sorted = Object.entries(files).sort(([a], [b]) => a.localeCompare(b));
+  return { ...buildInfo, env, files: Object.fromEntries(sorted) };
+}
+
+export function renderVersionJson(release: ReleaseInfo): string {
+  return `${JSON.stringify(release, null, 2)}\n`;
+}
@@ -0,0 +1,56 @@
+/**
+ * Site-wide files for search engines, generated from manifest.yaml
+ * `menu_items`, the blog articles and the environment's canonical host.
+ * Only indexable environments (production) invite crawlers; the rest
+ * disallow everything and their pages carry `noindex` (see renderHead()).
+ */
+
+import type { SiteEnvironment } from '../lib/env-config';
+import { escapeHtml } from '../lib/html';
+import type { SiteManifest } from '../lib/manifest';
+import { canonicalUrl } from './urls';
+
+export const SITEMAP_FILE = 'sitemap.xml';
+export const ROBOTS_FILE = 'robots.txt';
+
+/**
+ * `YYYY-MM-DD` from a `YYYYMMDDHHMMSS` build id, so lastmod stays
+ * deterministic for a given commit.
+ */
+export function buildDate(buildId: string): string {
+  return `${buildId.slice(0, 4)}-${buildId.slice(4, 6)}-${buildId.slice(6, 8)}`;
+}
+
+/** A page listed after the menu pages, such as a blog article. */
+export interface SitemapEntry {
+  link: string;
+  /** `YYYY-MM-DD` of the page's last change. */
+  lastModified: string;
+}
+
+export function renderSitemap(manifest: SiteManifest, site: SiteEnvironment, lastModified: string, entries: SitemapEntry[] = []): string {
+  const pages = [...manifest.menu_items.map((item) => ({ link: item.link, lastModified })), ...entries];
+  const urls = pages.map((page) =>
+    [
+      '  <url>',
+      `    <loc>${escapeHtml(canonicalUrl(site, page.link))}</loc>`,
+      `    <lastmod>${page.lastModified}</lastmod>`,
+      '  </url>',
+    ].join('\n'),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+export function renderRobotsTxt(site: SiteEnvironment): string {
+  if (!site.indexable) {
+    return ['# Not for search engines: only production is indexed', 'User-agent: *', 'Disallow: /', ''].join('\n');
+  }
+  return ['User-agent: *', 'Allow: /', '', `Sitemap: ${site.siteUrl}${SITEMAP_FILE}`, ''].join('\n');
+}
@@ -0,0 +1,221 @@
+/**
+ * schema.org JSON-LD for rich search results, generated from manifest.yaml.
+ * Pages opt in with `structured_data` on their menu item:
+ *
+ *   organization  Organization with PostalAddress, sameAs and ContactPoints
+ *   products      One Product per plan, with an Offer per currency
+ *
+ * Either way the page itself is described as a WebPage in its language.
+ */
+
+import type { SiteEnvironment } from '../lib/env-config';
+import { scriptJson } from '../lib/html';
+import { Locale, localePath, SOURCE_LOCALE } from '../lib/i18n';
+import type { ContactPoint, MenuItem, Plan, SiteManifest } from '../lib/manifest';
+import { canonicalUrl, HOME_PAGE } from './urls';
+
+const SCHEMA_CONTEXT = 'https://schema.org';
+const LOGO_PATH = 'images/logos/logo3-hexagon.svg';
+
+export interface PostalAddressSchema {
+  '@type': 'PostalAddress';
+  streetAddress?: string;
+  addressLocality: string;
+  addressRegion: string;
+  postalCode: string;
+  addressCountry: string;
+}
+
+export interface OpeningHoursSchema {
+  '@type': 'OpeningHoursSpecification';
+  dayOfWeek: string[];
+  opens: string;
+  closes: string;
+}
+
+export interface ContactPointSchema {
+  '@type': 'ContactPoint';
+  contactType: string;
+  email: string;
+  areaServed: string;
+  hoursAvailable?: OpeningHoursSchema;
+}
+
+export interface OrganizationSchema {
+  '@type': 'Organization';
+  '@id': string;
+  name: string;
+  url: string;
+  logo: string;
+  description: string;
+  address: PostalAddressSchema;
+  sameAs: string[];
+  contactPoint: ContactPointSchema[];
+}
+
+export interface OfferSchema {
+  '@type': 'Offer';
+  url: string;
+  availability: 'https://schema.org/InStock';
+  price?: number;
+  priceCurrency?: string;
+  priceSpecification?: {
+    '@type': 'UnitPriceSpecification';
+    price: number;
+    priceCurrency: string;
+    /** UN/CEFACT code for month. */
+    unitCode: 'MON';
+  };
+}
+
+export interface ProductSchema {
+  '@type': 'Product';
+  name: string;
+  description: string;
+  brand: { '@id': string };
+  offers: OfferSchema[];
+}
+
+export interface WebPageSchema {
+  '@type': 'WebPage';
+  '@id': string;
+  url: string;
+  name: string;
+  description: string;
+  inLanguage: Locale;
+  publisher: { '@id': string };
+}
+
+export type StructuredData = OrganizationSchema | ProductSchema | WebPageSchema;
+
+export interface StructuredDataDocument {
+  '@context': typeof SCHEMA_CONTEXT;
+  '@graph': StructuredData[];
+}
+
+function organizationId(site: SiteEnvironment): string {
+  return `${site.siteUrl}#organization`;
+}
+
+function contactPointSchema(point: ContactPoint, manifest: SiteManifest): ContactPointSchema {
+  return {
+    '@type': 'ContactPoint',
+    contactType: point.type,
+    email: point.email,
+    areaServed: manifest.address.country,
+    ...(point.hours && {
+      hoursAvailable: {
+        '@type': 'OpeningHoursSpecification',
+        dayOfWeek: point.hours.days.map((day) => `${SCHEMA_CONTEXT}/${day}`),
+        opens: point.hours.opens,
+        closes: point.hours.closes,
+      },
+    }),
+  };
+}
+
+export function organizationSchema(manifest: SiteManifest, site: SiteEnvironment): OrganizationSchema {
+  const { address } = manifest;
+  return {
+    '@type': 'Organization',
+    '@id': organizationId(site),
+    name: manifest.site_title,
+    url: canonicalUrl(site, HOME_PAGE),
+    logo: `${site.siteUrl}${LOGO_PATH}`,
+    description: manifest.default_description,
+    address: {
+      '@type': 'PostalAddress',
+      ...(address.street && { streetAddress: address.street }),
+      addressLocality: address.city,
+      addressRegion: address.state,
+      postalCode: address.zip,
+      addressCountry: address.country,
+    },
+    sameAs: manifest.social_links.map((link) => link.url),
+    contactPoint: (manifest.contact_points ?? []).map((point) => contactPointSchema(point, manifest)),
+  };
+}
+
+function offers(plan: Plan, site: SiteEnvironment, pageUrl: string): OfferSchema[] {
+  if (!plan.price) {
+    return [{ '@type': 'Offer', url: canonicalUrl(site, plan.quote_link!), availability: 'https://schema.org/InStock' }];
+  }
+  return Object.entries(plan.price).map(([currency, price]) => ({
+    '@type': 'Offer',
+    url: pageUrl,
+    availability: 'https://schema.org/InStock',
+    price,
+    priceCurrency: currency,
+    priceSpecification: { '@type': 'UnitPriceSpecification', price, priceCurrency: currency, unitCode: 'MON' },
+  }));
+}
+
+export function productSchemas(manifest: SiteManifest, site: SiteEnvironment, page: MenuItem): ProductSchema[] {
+  const pageUrl = canonicalUrl(site, page.link);
+  return (manifest.plans ?? []).map((plan) => ({
+    '@type': 'Product',
+    name: `${manifest.site_title} ${plan.name}`,
+    description: plan.description,
+    brand: { '@id': organizationId(site) },
+    offers: offers(plan, site, pageUrl),
+  }));
+}
+
+/**
+ * The page in `locale`. Its name and description are the page's title and
+ * description, which translateHtml() swaps along with the rest of the copy.
+ */
+export function webPageSchema(site: SiteEnvironment, page: MenuItem, locale: Locale = SOURCE_LOCALE): WebPageSchema {
+  const url = canonicalUrl(site, localePath(locale, page.link));
+  return {
+    '@type': 'WebPage',
+    '@id': url,
+    url,
+    name: page.title,
+    description: page.description,
+    inLanguage: locale,
+    publisher: { '@id': organizationId(site) },
+  };
+}
+
+/**
+ * The JSON-LD a page asked for, or undefined when it has none. Products
+ * and the WebPage reference the Organization by `@id`, so it is included
+ * with them.
+ */
+export function structuredDataFor(
+  manifest: SiteManifest,
+  site: SiteEnvironment,
+  page: MenuItem,
+  locale: Locale = SOURCE_LOCALE,
+): StructuredDataDocument | undefined {
+  const kinds = page.structured_data ?? [];
+  if (kinds.length === 0) {
+    return undefined;
+  }
+
+  const graph: StructuredData[] = [organizationSchema(manifest, site)];
+  if (kinds.includes('products')) {
+    graph.push(...productSchemas(manifest, site, page));
+  }
+  graph.push(webPageSchema(site, page, locale));
+  return { '@context': SCHEMA_CONTEXT, '@graph': graph };
+}
+
+/**
+ * `<script type="application/ld+json">` for the page in `locale`, escaped
+ * so manifest text can never close the script element.
+ */
+export function renderStructuredData(
+  manifest: SiteManifest,
+  site: SiteEnvironment,
+  page: MenuItem,
+  locale: Locale = SOURCE_LOCALE,
+): string | undefined {
+  const data = structuredDataFor(manifest, site, page, locale);
+  if (!data) {
+    return undefined;
+  }
+  const json = scriptJson(data, 2);
+  return ['<script type="application/ld+json">', json, '</script>'].join('\n');
+}
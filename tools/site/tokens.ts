@@ -0,0 +1,43 @@
+/**
+ * `{{NAME}}` placeholders that page bodies and static HTML may use for
+ * environment-specific values, and that page bodies use on a line of their
+ * own for sections rendered from content/ (tools/site/collections.ts). The
+ * build fails if any token survives.
+ */
+
+import type { SiteEnvironment } from '../lib/env-config';
+import { indent } from '../lib/html';
+
+export type TokenValues = Readonly<Record<string, string>>;
+
+const TOKEN = /\{\{\s*([A-Z0-9_]+)\s*\}\}/g;
+const ANY_TOKEN = /\{\{[^}]*\}\}/g;
+
+export function environmentTokens(site: SiteEnvironment, versionString: string): TokenValues {
+  return {
+    ENVIRONMENT: site.name,
+    CANONICAL_HOST: site.hostName,
+    SITE_URL: site.siteUrl,
+    FORMS_HOST_NAME: site.formsEndpoint.replace(/^https:\/\//, ''),
+    FORMS_ENDPOINT: site.formsEndpoint,
+    VERSION: versionString,
+  };
+}
+
+export function replaceTokens(text: string, values: TokenValues): string {
+  return text.replace(TOKEN, (match, name: string) => values[name] ?? match);
+}
+
+/**
+ * Replaces tokens that stand on a line of their own with multi-line blocks,
+ * indenting every line of the block like the token.
+ */
+export function replaceBlockTokens(text: string, blocks: TokenValues): string {
+  return text.replace(/^([ \t]*)\{\{\s*([A-Z0-9_]+)\s*\}\}[ \t]*$/gm, (match, pad: string, name: string) =>
+    blocks[name] === undefined ? match : indent(blocks[name], pad.length),
+  );
+}
+
+export function findUnresolvedTokens(text: string): string[] {
+  return Array.from(new Set(text.match(ANY_TOKEN) ?? []));
+}
@@ -0,0 +1,11 @@
+import type { SiteEnvironment } from '../lib/env-config';
+
+export const HOME_PAGE = 'index.html';
+
+/**
+ * Absolute URL of a page on the environment's canonical host; the home
+ * page is served at the site root. `link` may carry an anchor.
+ */
+export function canonicalUrl(site: SiteEnvironment, link: string): string {
+  return link === HOME_PAGE ? site.siteUrl : `${site.siteUrl}${link}`;
+}
@@ -0,0 +1,99 @@
+/**
+ * Validates manifest.yaml, the content/ collections, locale catalogs and
+ * blog articles, performance-budgets.yaml and environments/<env>/config.yaml
+ * against their schemas, reporting every issue with its file and key path.
+ *
+ * Usage: npm run validate [-- --env stg|prd]
+ */
+
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { listPostFiles, postSlug, validatePost } from './lib/blog';
+import { envConfigFile, ENVIRONMENTS, Environment, isEnvironment, validateEnvConfig } from './lib/env-config';
+import { COLLECTION_FILES, COLLECTION_NAMES, CONTENT_DIR, validateCollection } from './lib/content';
+import { catalogPath, SOURCE_LOCALE, TRANSLATED_LOCALES, validateCatalog, validateSourceCatalog } from './lib/i18n';
+import { fail, info, section, success } from './lib/log';
+import { MANIFEST_FILE, Plan, validateManifest } from './lib/manifest';
+import { PERFORMANCE_BUDGET_FILE, validatePerformanceBudget } from './lib/performance-budget';
+import { ROOT_DIR } from './lib/paths';
+import { formatIssue, ValidationIssue } from './lib/validation';
+import { readYaml } from './lib/yaml';
+
+async function validateFile(
+  file: string,
+  validate: (data: unknown, displayName: string) => ValidationIssue[],
+): Promise<ValidationIssue[]> {
+  const displayName = path.relative(ROOT_DIR, file);
+  let data: unknown;
+  try {
+    data = await readYaml(file);
+  } catch (err) {
+    return [{ file: displayName, path: '', message: err instanceof Error ? err.message : String(err) }];
+  }
+  return validate(data, displayName);
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({ options: { env: { type: 'string' } } });
+
+  let environments: readonly Environment[] = ENVIRONMENTS;
+  if (values.env !== undefined) {
+    if (!isEnvironment(values.env)) {
+      throw new Error(`Unknown environment "${values.env}" (expected ${ENVIRONMENTS.join(' or ')})`);
+    }
+    environments = [values.env];
+  }
+
+  // Pricing tiers are checked against the manifest's plans
+  const manifest = (await readYaml(MANIFEST_FILE).catch(() => undefined)) as { plans?: unknown } | undefined;
+  const plans = Array.isArray(manifest?.plans) ? (manifest.plans as Plan[]) : [];
+  // and translations against the English copy
+  const english = (await readYaml(catalogPath(SOURCE_LOCALE)).catch(() => undefined)) as { strings?: unknown } | undefined;
+  const source = Array.isArray(english?.strings) ? english.strings.filter((text): text is string => typeof text === 'string') : [];
+
+  const targets: Array<[string, (data: unknown, file: string) => ValidationIssue[]]> = [
+    [MANIFEST_FILE, (data, file) => validateManifest(data, { file })],
+    ...COLLECTION_NAMES.map((name): [string, (data: unknown, file: string) => ValidationIssue[]] => [
+      path.join(CONTENT_DIR, COLLECTION_FILES[name]),
+      (data, file) => validateCollection(name, data, { file, plans }),
+    ]),
+    [catalogPath(SOURCE_LOCALE), validateSourceCatalog],
+    ...TRANSLATED_LOCALES.map((locale): [string, (data: unknown, file: string) => ValidationIssue[]] => [
+      catalogPath(locale),
+      (data, file) => validateCatalog(locale, data, source, file),
+    ]),
+    [PERFORMANCE_BUDGET_FILE, validatePerformanceBudget],
+    ...environments.map((env): [string, typeof validateEnvConfig] => [envConfigFile(env), validateEnvConfig]),
+  ];
+
+  section('Validating Configuration');
+
+  let issueCount = 0;
+  const report = (file: string, issues: ValidationIssue[]) => {
+    if (issues.length === 0) {
+      success(`${path.relative(ROOT_DIR, file)} is valid`);
+    }
+    for (const issue of issues) {
+      fail(formatIssue(issue));
+    }
+    issueCount += issues.length;
+  };
+
+  for (const [file, validate] of targets) {
+    report(file, await validateFile(file, validate));
+  }
+  for (const file of await listPostFiles()) {
+    report(file, validatePost(postSlug(file), await readFile(file, 'utf8'), { file: path.relative(ROOT_DIR, file) }));
+  }
+
+  if (issueCount > 0) {
+    info(`${issueCount} issue${issueCount === 1 ? '' : 's'} found`);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  fail(err instanceof Error ? err.message : String(err));
+  process.exit(1);
+});